@@ -3,6 +3,11 @@ import { SurveyProvider, useSurvey } from './context/SurveyContext';
 import { Canvas } from './components/Canvas';
 import { Controls } from './components/Controls';
 import { AiAssistant } from './components/AiAssistant';
+import { ProjectList } from './components/ProjectList';
+import { UnderlayPanel } from './components/UnderlayPanel';
+import { TraversePanel } from './components/TraversePanel';
+import { GuidedMeasurePanel } from './components/GuidedMeasurePanel';
+import { LaserImportPanel } from './components/LaserImportPanel';
 
 const ThemedLayout: React.FC<React.PropsWithChildren> = ({ children }) => {
     const { state } = useSurvey();
@@ -19,7 +24,12 @@ const App = () => {
       <ThemedLayout>
         <Canvas />
         <Controls />
+        <UnderlayPanel />
+        <TraversePanel />
+        <GuidedMeasurePanel />
+        <LaserImportPanel />
         <AiAssistant />
+        <ProjectList />
       </ThemedLayout>
     </SurveyProvider>
   );
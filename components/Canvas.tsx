@@ -1,7 +1,17 @@
 
 import React, { useRef, useState, useMemo } from 'react';
 import { useSurvey } from '../context/SurveyContext';
-import { EdgeType } from '../types';
+import { EdgeType, Point } from '../types';
+import { RESIDUAL_WARNING, RESIDUAL_ERROR, PIXELS_PER_METER, getInteriorAngleNeighbours, calculateInteriorAngle, addScaled, getDimensionLines, getDimensionTextAngle, getEdgeLabel } from '../utils/geometry';
+import { formatArea, formatLength, formatResidual, formatThickness } from '../utils/units';
+import { SnapResult, snapPoint, getGridSize, SNAP_RADIUS_PX } from '../utils/snapping';
+import { getGuidedTarget } from '../utils/guidedMeasure';
+import { analyseRigidity } from '../utils/rigidity';
+import { getWorstSensitivity, SENSITIVITY_WARNING } from '../utils/diagnostics';
+import { LASER_READING_MIME } from '../utils/laserCsv';
+
+// Error ellipses are millimetre-sized; exaggerate them so they are visible at room scale
+const ERROR_ELLIPSE_SCALE = 50;
 
 // Helper to rotate a point around origin (0,0)
 const rotatePoint = (p: {x: number, y: number}, angle: number) => {
@@ -20,12 +30,14 @@ export const Canvas: React.FC = () => {
   const [isPanning, setIsPanning] = useState(false);
   const [lastPointer, setLastPointer] = useState({ x: 0, y: 0 });
   const [cursorPos, setCursorPos] = useState({ x: 0, y: 0 });
+  const [snapIndicator, setSnapIndicator] = useState<SnapResult | null>(null);
   
   // Drag & Interaction Refs
-  const interactionTypeRef = useRef<'background' | 'polygon' | 'edge' | 'vertex' | 'handle' | null>(null);
+  const interactionTypeRef = useRef<'background' | 'polygon' | 'edge' | 'vertex' | 'handle' | 'underlay' | null>(null);
   const draggedVertexRef = useRef<string | null>(null);
   const draggedPolygonRef = useRef<string | null>(null);
   const rotatingPolygonRef = useRef<{ id: string, startAngle: number, currentAngle: number } | null>(null);
+  const draggingUnderlayRef = useRef<boolean>(false);
   
   const dragStartPosRef = useRef<{x: number, y: number} | null>(null);
   const dragStartWasSelectedRef = useRef<boolean>(false);
@@ -70,9 +82,22 @@ export const Canvas: React.FC = () => {
   }, [state.polygons, state.selectedPolygonIds, state.isJoinMode, state.isDrawingMode, state.isFocused]);
 
   const rotationDeg = state.rotation * 180 / Math.PI;
+  const gridSize = getGridSize(state.zoomLevel);
   const gridColor = state.theme === 'dark' ? '#1e293b' : '#cbd5e1';
   const gridBgColor = state.theme === 'dark' ? 'none' : '#f8fafc'; // Transparent for dark (handled by CSS bg), slight color for light
 
+  // Edge or suggested diagonal the guided measurement is waiting for
+  const guidedTarget = useMemo(() => {
+      const guidedPoly = state.guidedMeasure && state.polygons.find(p => p.id === state.guidedMeasure!.polygonId);
+      return guidedPoly ? getGuidedTarget(guidedPoly, state.guidedMeasure!) : null;
+  }, [state.guidedMeasure, state.polygons]);
+
+  // Ghost diagonals proposed to make a room rigid
+  const diagonalSuggestions = useMemo(() => {
+      const poly = state.diagonalSuggestionPolygonId && state.polygons.find(p => p.id === state.diagonalSuggestionPolygonId);
+      return poly ? analyseRigidity(poly).suggestions : [];
+  }, [state.diagonalSuggestionPolygonId, state.polygons]);
+
   const getSVGPoint = (clientX: number, clientY: number) => {
     if (!svgRef.current || !groupRef.current) return { x: 0, y: 0 };
     const pt = svgRef.current.createSVGPoint();
@@ -81,6 +106,39 @@ export const Canvas: React.FC = () => {
     return pt.matrixTransform(groupRef.current.getScreenCTM()?.inverse());
   };
 
+  // Snaps a pointer position for the next drawing point, or for the dragged vertex when vertexId is given.
+  // Holding Alt bypasses snapping.
+  const getSnappedPoint = (e: React.PointerEvent, vertexId?: string): SnapResult => {
+    const raw = getSVGPoint(e.clientX, e.clientY);
+    if (e.altKey) return { point: raw, kind: null };
+
+    let polygons = state.polygons;
+    let anchor: Point | undefined;
+    let previous: Point | undefined;
+    if (vertexId) {
+        const owner = state.polygons.find(p => p.vertices.some(v => v.id === vertexId));
+        if (owner) {
+            const n = owner.vertices.length;
+            const index = owner.vertices.findIndex(v => v.id === vertexId);
+            polygons = state.polygons.filter(p => p.id !== owner.id);
+            if (owner.isClosed || index >= 1) anchor = owner.vertices[(index - 1 + n) % n];
+            if (owner.isClosed || index >= 2) previous = owner.vertices[(index - 2 + n) % n];
+        }
+    } else {
+        anchor = state.drawingPoints[state.drawingPoints.length - 1];
+        previous = state.drawingPoints[state.drawingPoints.length - 2];
+    }
+
+    return snapPoint(raw, {
+        settings: state.snap,
+        polygons,
+        tolerance: SNAP_RADIUS_PX / state.zoomLevel,
+        gridSize: getGridSize(state.zoomLevel),
+        anchor,
+        previous
+    });
+  };
+
   const handleContextMenu = (e: React.MouseEvent, type: 'CANVAS' | 'POLYGON' | 'EDGE' | 'VERTEX', targetId?: string) => {
       e.preventDefault();
       e.stopPropagation();
@@ -171,11 +229,26 @@ export const Canvas: React.FC = () => {
                     return;
                 }
             }
-            dispatch({ type: 'ADD_DRAWING_POINT', payload: worldPt });
+            const snap = getSnappedPoint(e);
+            dispatch({ type: 'ADD_DRAWING_POINT', payload: snap.point });
+            setCursorPos(snap.point);
+            setSnapIndicator(null);
             return;
         }
     }
 
+    // Underlay calibration: pick two points of a known distance
+    if (state.underlayCalibration && activePointers.current.size === 1) {
+        draggedPolygonRef.current = null;
+        draggedVertexRef.current = null;
+        interactionTypeRef.current = null;
+        cancelLongPress();
+        if (state.underlayCalibration.length < 2) {
+            dispatch({ type: 'ADD_CALIBRATION_POINT', payload: getSVGPoint(e.clientX, e.clientY) });
+        }
+        return;
+    }
+
     if (activePointers.current.size === 2) {
         cancelLongPress(); // Cancel any pending long press
         // Pinch Logic
@@ -226,8 +299,11 @@ export const Canvas: React.FC = () => {
     }
 
     if (state.isDrawingMode) {
-         const worldPt = getSVGPoint(e.clientX, e.clientY);
-         setCursorPos(worldPt);
+         const snap = getSnappedPoint(e);
+         setCursorPos(snap.point);
+         setSnapIndicator(snap.kind ? snap : null);
+    } else if (state.underlayCalibration) {
+         setCursorPos(getSVGPoint(e.clientX, e.clientY));
     }
 
     // Pinch Zoom/Rotate
@@ -284,7 +360,9 @@ export const Canvas: React.FC = () => {
             dispatch({ type: 'CAPTURE_SNAPSHOT', payload: undefined });
             hasSnapshotRef.current = true;
         }
-        const point = getSVGPoint(e.clientX, e.clientY);
+        const snap = getSnappedPoint(e, draggedVertexRef.current);
+        const point = snap.point;
+        setSnapIndicator(snap.kind ? snap : null);
         dispatch({
             type: 'MOVE_VERTEX',
             payload: { vertexId: draggedVertexRef.current, x: point.x, y: point.y }
@@ -312,6 +390,18 @@ export const Canvas: React.FC = () => {
         return;
     }
 
+    // Underlay Drag (not part of the undo history)
+    if (draggingUnderlayRef.current && state.underlay && activePointers.current.size === 1) {
+        const point = getSVGPoint(e.clientX, e.clientY);
+        const prevPoint = getSVGPoint(lastPointer.x, lastPointer.y);
+        setLastPointer({ x: e.clientX, y: e.clientY });
+        dispatch({
+            type: 'UPDATE_UNDERLAY',
+            payload: { position: { x: state.underlay.position.x + point.x - prevPoint.x, y: state.underlay.position.y + point.y - prevPoint.y } }
+        });
+        return;
+    }
+
     // Polygon Rotate
     if (rotatingPolygonRef.current && activePointers.current.size === 1) {
         const poly = state.polygons.find(p => p.id === rotatingPolygonRef.current!.id);
@@ -376,6 +466,7 @@ export const Canvas: React.FC = () => {
             dispatch({ type: 'TOGGLE_VERTEX_SELECTION', payload: draggedVertexRef.current });
         }
         draggedVertexRef.current = null;
+        setSnapIndicator(null);
     } 
     else if (draggedPolygonRef.current) {
         if (!hasMovedRef.current) {
@@ -388,7 +479,7 @@ export const Canvas: React.FC = () => {
     else if (rotatingPolygonRef.current) {
         rotatingPolygonRef.current = null;
     }
-    else if (interactionTypeRef.current === 'background' && !state.isDrawingMode) {
+    else if ((interactionTypeRef.current === 'background' || interactionTypeRef.current === 'underlay') && !state.isDrawingMode) {
         if (!hasMovedRef.current && e.button !== 2) { 
              dispatch({ type: 'SELECT_EDGE', payload: null });
              if (!state.isFocused) {
@@ -398,6 +489,7 @@ export const Canvas: React.FC = () => {
     }
 
     // Reset interaction state
+    draggingUnderlayRef.current = false;
     interactionTypeRef.current = null;
     dragStartPosRef.current = null;
     longPressTriggeredRef.current = false;
@@ -422,6 +514,35 @@ export const Canvas: React.FC = () => {
     });
   };
 
+  // Tracing underlay, draggable while unlocked and not tracing or calibrating
+  const underlay = state.underlay;
+  let underlayImage = null;
+  if (underlay && underlay.isVisible) {
+      const width = underlay.width * underlay.scale;
+      const height = underlay.height * underlay.scale;
+      const isDraggable = !underlay.isLocked && !state.isDrawingMode && !state.underlayCalibration;
+      underlayImage = (
+          <image
+              href={underlay.src}
+              x={-width / 2}
+              y={-height / 2}
+              width={width}
+              height={height}
+              preserveAspectRatio="none"
+              opacity={underlay.opacity}
+              transform={`translate(${underlay.position.x}, ${underlay.position.y}) rotate(${underlay.rotation * 180 / Math.PI})`}
+              pointerEvents={isDraggable ? 'all' : 'none'}
+              className={isDraggable ? 'cursor-move' : ''}
+              onPointerDown={isDraggable ? (e) => {
+                  if (e.button === 2) return;
+                  interactionTypeRef.current = 'underlay';
+                  draggingUnderlayRef.current = true;
+                  setLastPointer({ x: e.clientX, y: e.clientY });
+              } : undefined}
+          />
+      );
+  }
+
   return (
     <svg
       ref={svgRef}
@@ -434,8 +555,15 @@ export const Canvas: React.FC = () => {
       onContextMenu={(e) => handleContextMenu(e, 'CANVAS')}
     >
         <defs>
-            <pattern id="grid" width="50" height="50" patternUnits="userSpaceOnUse">
-                <path d="M 50 0 L 0 0 0 50" fill="none" stroke={gridColor} strokeWidth="1"/>
+            {/* World-aligned so grid snapping lands on the visible lines */}
+            <pattern
+                id="grid"
+                width={gridSize}
+                height={gridSize}
+                patternUnits="userSpaceOnUse"
+                patternTransform={`translate(${state.panOffset.x}, ${state.panOffset.y}) rotate(${rotationDeg}) scale(${state.zoomLevel})`}
+            >
+                <path d={`M ${gridSize} 0 L 0 0 0 ${gridSize}`} fill="none" stroke={gridColor} strokeWidth={1 / state.zoomLevel}/>
             </pattern>
         </defs>
         <rect id="grid-bg" width="100%" height="100%" fill="url(#grid)" />
@@ -445,6 +573,9 @@ export const Canvas: React.FC = () => {
             ref={groupRef}
             transform={`translate(${state.panOffset.x}, ${state.panOffset.y}) rotate(${rotationDeg}) scale(${state.zoomLevel})`}
         >
+            {/* TRACING UNDERLAY */}
+            {underlayImage}
+
             {/* EXISTING POLYGONS */}
             {visiblePolygons.map((poly) => {
                 const isSelected = state.selectedPolygonIds.includes(poly.id);
@@ -547,7 +678,7 @@ export const Canvas: React.FC = () => {
                                             fill={state.theme === 'dark' ? "#94a3b8" : "#64748b"}
                                             fontSize={11}
                                         >
-                                            {poly.area.toFixed(2)} m²
+                                            {formatArea(poly.area, state.unitSystem, poly.isLocked ? poly.areaSigma : undefined)}
                                         </text>
                                     )}
                                 </g>
@@ -555,6 +686,66 @@ export const Canvas: React.FC = () => {
                         </g>
                     )}
 
+                    {/* Dimension Lines (constant screen offset beyond the walls) */}
+                    {state.showDimensions && !state.isDrawingMode && (
+                        <g pointerEvents="none">
+                            {getDimensionLines(poly, 24 / state.zoomLevel, 48 / state.zoomLevel).map((dim, i) => {
+                                const color = state.theme === 'dark' ? '#94a3b8' : '#64748b';
+                                const stroke = 1 / state.zoomLevel;
+                                const gap = 4 / state.zoomLevel;
+                                const fontSize = 11 / state.zoomLevel;
+                                const length = Math.hypot(dim.lineEnd.x - dim.lineStart.x, dim.lineEnd.y - dim.lineStart.y);
+                                if (length === 0) return null;
+                                const dir = { x: (dim.lineEnd.x - dim.lineStart.x) / length, y: (dim.lineEnd.y - dim.lineStart.y) / length };
+                                const tick = { x: (dir.x + dim.normal.x) * gap, y: (dir.y + dim.normal.y) * gap };
+                                const label = formatLength(dim.length, state.unitSystem);
+                                const labelPos = addScaled({ x: (dim.lineStart.x + dim.lineEnd.x) / 2, y: (dim.lineStart.y + dim.lineEnd.y) / 2 }, dim.normal, fontSize * 0.9);
+                                // Segments too short for their label leave it to the overall dimension
+                                const showLabel = length * state.zoomLevel > label.length * 6.5;
+                                return (
+                                    <g key={`${dim.edgeId}-${i}`}>
+                                        <line x1={dim.start.x + dim.normal.x * gap} y1={dim.start.y + dim.normal.y * gap} x2={dim.lineStart.x + dim.normal.x * gap} y2={dim.lineStart.y + dim.normal.y * gap} stroke={color} strokeWidth={stroke} />
+                                        <line x1={dim.end.x + dim.normal.x * gap} y1={dim.end.y + dim.normal.y * gap} x2={dim.lineEnd.x + dim.normal.x * gap} y2={dim.lineEnd.y + dim.normal.y * gap} stroke={color} strokeWidth={stroke} />
+                                        <line x1={dim.lineStart.x} y1={dim.lineStart.y} x2={dim.lineEnd.x} y2={dim.lineEnd.y} stroke={color} strokeWidth={stroke} />
+                                        {[dim.lineStart, dim.lineEnd].map((p, j) => (
+                                            <line key={j} x1={p.x - tick.x} y1={p.y - tick.y} x2={p.x + tick.x} y2={p.y + tick.y} stroke={color} strokeWidth={stroke * 1.5} />
+                                        ))}
+                                        {showLabel && (
+                                            <text
+                                                x={labelPos.x}
+                                                y={labelPos.y}
+                                                dy="0.35em"
+                                                textAnchor="middle"
+                                                fontSize={fontSize}
+                                                fill={color}
+                                                transform={`rotate(${getDimensionTextAngle(dim, rotationDeg)}, ${labelPos.x}, ${labelPos.y})`}
+                                            >
+                                                {label}
+                                            </text>
+                                        )}
+                                    </g>
+                                );
+                            })}
+                        </g>
+                    )}
+
+                    {/* Sliver triangles: shallow trilateration, so tape errors are amplified */}
+                    {poly.isLocked && poly.diagnostics?.slivers.map(sliver => {
+                        const corners = sliver.vertexIds.map(id => poly.vertices.find(v => v.id === id));
+                        if (corners.some(v => !v)) return null;
+                        return (
+                            <polygon
+                                key={`sliver-${sliver.vertexIds.join('-')}`}
+                                points={corners.map(v => `${v!.x},${v!.y}`).join(' ')}
+                                fill="rgba(239, 68, 68, 0.12)"
+                                stroke="#ef4444"
+                                strokeWidth={1 / state.zoomLevel}
+                                strokeDasharray={`${4 / state.zoomLevel},${3 / state.zoomLevel}`}
+                                pointerEvents="none"
+                            />
+                        );
+                    })}
+
                     {poly.edges.map((edge) => {
                         const start = poly.vertices.find(v => v.id === edge.startVertexId);
                         const end = poly.vertices.find(v => v.id === edge.endVertexId);
@@ -565,14 +756,21 @@ export const Canvas: React.FC = () => {
                         const isPerimeter = edge.type === EdgeType.PERIMETER;
                         const isDiagonal = edge.type === EdgeType.DIAGONAL;
                         const isJoined = !!edge.linkedEdgeId;
+                        const isUnmeasured = edge.isMeasured === false;
 
                         const isDoor = edge.feature === 'door';
                         const isWindow = edge.feature === 'window';
 
+                        // Residuals are only meaningful while the solved geometry is locked
+                        const residualAbs = poly.isLocked && edge.residual !== undefined ? Math.abs(edge.residual) : 0;
+                        const residualLevel = residualAbs >= RESIDUAL_ERROR ? 'error' : (residualAbs >= RESIDUAL_WARNING ? 'warning' : null);
+                        const residualColor = residualLevel === 'error' ? '#ef4444' : '#f97316'; // Red-500 / Orange-500
+
                         // Default Colors
                         let strokeColor = state.theme === 'dark' ? '#94a3b8' : '#64748b'; // Default Wall
 
                         if (isEdgeSelected) strokeColor = '#38bdf8';
+                        else if (residualLevel) strokeColor = residualColor;
                         else if (isDoor) strokeColor = '#d97706'; // Amber-600 (Door)
                         else if (isWindow) strokeColor = '#06b6d4'; // Cyan-500 (Window)
                         else if (isJoined) strokeColor = '#a855f7'; // Purple-500
@@ -589,6 +787,8 @@ export const Canvas: React.FC = () => {
                         const midY = start.y + (end.y - start.y) * t;
                         
                         const showThickness = isPerimeter && edge.thickness;
+                        // Dimension lines already carry perimeter lengths; keep the label for selection and residuals
+                        const showLengthLabel = !(state.showDimensions && isPerimeter && !isEdgeSelected && !residualLevel);
 
                         // --- Feature Visualization Logic (Door / Window) ---
                         let featureGraphic = null;
@@ -731,6 +931,14 @@ export const Canvas: React.FC = () => {
                                    }
                                }}
                                onContextMenu={(e) => handleContextMenu(e, 'EDGE', edge.id)}
+                               // Readings dragged from the laser log panel are dropped onto edges of the importing room
+                               onDragOver={(e) => { if (state.laserImport?.polygonId === poly.id && e.dataTransfer.types.includes(LASER_READING_MIME)) e.preventDefault(); }}
+                               onDrop={(e) => {
+                                   const index = parseInt(e.dataTransfer.getData(LASER_READING_MIME));
+                                   if (state.laserImport?.polygonId !== poly.id || isNaN(index)) return;
+                                   e.preventDefault();
+                                   dispatch({ type: 'ASSIGN_LASER_READING', payload: { edgeId: edge.id, readingIndex: index } });
+                               }}
                                className={state.isDrawingMode ? '' : 'cursor-pointer'}
                             >
                                 {/* Hit Area */}
@@ -748,7 +956,7 @@ export const Canvas: React.FC = () => {
                                 {/* Feature Visualization (Underlay/Overlay) */}
                                 {featureGraphic}
                                 
-                                <g transform={`rotate(${-rotationDeg}, ${midX}, ${midY})`} pointerEvents="none">
+                                {showLengthLabel && <g transform={`rotate(${-rotationDeg}, ${midX}, ${midY})`} pointerEvents="none">
                                     <rect 
                                         x={midX - (showThickness ? 26 : 22)} 
                                         y={midY - (showThickness ? 18 : 12)} 
@@ -768,8 +976,10 @@ export const Canvas: React.FC = () => {
                                         fill={state.theme === 'dark' || isEdgeSelected || isJoined || isConnectedToSelected || isDoor || isWindow ? "white" : "#0f172a"}
                                         fontSize={12}
                                         fontWeight="bold"
+                                        fontStyle={isUnmeasured ? 'italic' : undefined}
                                     >
-                                        {(edge.length * 100).toFixed(2)}cm
+                                        {/* Lengths still scaled from the sketch are marked as approximate */}
+                                        {isUnmeasured && '~'}{formatLength(edge.length, state.unitSystem)}
                                     </text>
                                     {showThickness && (
                                         <text
@@ -780,10 +990,103 @@ export const Canvas: React.FC = () => {
                                             fill={isEdgeSelected || isDoor || isWindow ? "#e0f2fe" : "#94a3b8"}
                                             fontSize={10}
                                         >
-                                            w: {edge.thickness}cm
+                                            w: {formatThickness(edge.thickness!, state.unitSystem)}
                                         </text>
                                     )}
-                                </g>
+                                    {residualLevel && (
+                                        <text
+                                            x={midX}
+                                            y={midY + (showThickness ? 18 : 12)}
+                                            dy="1.1em"
+                                            textAnchor="middle"
+                                            fill={residualColor}
+                                            fontSize={10}
+                                            fontWeight="bold"
+                                        >
+                                            Δ {formatResidual(edge.residual!, state.unitSystem)}
+                                        </text>
+                                    )}
+                                </g>}
+                            </g>
+                        );
+                    })}
+
+                    {state.diagonalSuggestionPolygonId === poly.id && !state.guidedMeasure && diagonalSuggestions.map(suggestion => {
+                        const start = poly.vertices.find(v => v.id === suggestion.startVertexId);
+                        const end = poly.vertices.find(v => v.id === suggestion.endVertexId);
+                        if (!start || !end) return null;
+                        const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+                        const r = 9 / state.zoomLevel;
+                        return (
+                            <g
+                                key={`ghost-${suggestion.startVertexId}-${suggestion.endVertexId}`}
+                                className="cursor-pointer"
+                                onPointerDown={(e) => {
+                                    e.stopPropagation();
+                                    dispatch({ type: 'ACCEPT_DIAGONAL_SUGGESTION', payload: { startVertexId: suggestion.startVertexId, endVertexId: suggestion.endVertexId } });
+                                }}
+                            >
+                                <title>{`Add diagonal (smallest triangle angle ${Math.round(suggestion.minAngle)}°)`}</title>
+                                <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="rgba(255,255,255,0.001)" strokeWidth={Math.max(20 / state.zoomLevel, 10)} />
+                                <line
+                                    x1={start.x} y1={start.y}
+                                    x2={end.x} y2={end.y}
+                                    stroke="#0ea5e9"
+                                    strokeOpacity={0.6}
+                                    strokeWidth={2 / state.zoomLevel}
+                                    strokeDasharray={`${6 / state.zoomLevel},${6 / state.zoomLevel}`}
+                                />
+                                <circle cx={mid.x} cy={mid.y} r={r} fill="#0ea5e9" fillOpacity={0.85} />
+                                <path d={`M ${mid.x - r / 2} ${mid.y} H ${mid.x + r / 2} M ${mid.x} ${mid.y - r / 2} V ${mid.y + r / 2}`} stroke="white" strokeWidth={2 / state.zoomLevel} strokeLinecap="round" />
+                            </g>
+                        );
+                    })}
+
+                    {guidedTarget && state.guidedMeasure?.polygonId === poly.id && (() => {
+                        const startId = guidedTarget.type === 'edge' ? guidedTarget.edge.startVertexId : guidedTarget.startVertexId;
+                        const endId = guidedTarget.type === 'edge' ? guidedTarget.edge.endVertexId : guidedTarget.endVertexId;
+                        const start = poly.vertices.find(v => v.id === startId);
+                        const end = poly.vertices.find(v => v.id === endId);
+                        if (!start || !end) return null;
+                        // Amber halo on the edge being measured; a new diagonal is drawn dashed until it has a length
+                        return (
+                            <line
+                                x1={start.x} y1={start.y}
+                                x2={end.x} y2={end.y}
+                                stroke="#f59e0b"
+                                strokeWidth={(guidedTarget.type === 'edge' ? 12 : 4) / state.zoomLevel}
+                                strokeOpacity={guidedTarget.type === 'edge' ? 0.5 : 0.9}
+                                strokeDasharray={guidedTarget.type === 'diagonal' ? `${8 / state.zoomLevel},${6 / state.zoomLevel}` : undefined}
+                                strokeLinecap="round"
+                                className="animate-pulse"
+                                pointerEvents="none"
+                            />
+                        );
+                    })()}
+
+                    {state.laserImport?.polygonId === poly.id && Object.keys(state.laserImport.assignments).map(edgeId => {
+                        const index = state.laserImport!.assignments[edgeId];
+                        const edge = poly.edges.find(e => e.id === edgeId);
+                        const reading = state.laserImport!.readings[index];
+                        const start = edge && poly.vertices.find(v => v.id === edge.startVertexId);
+                        const end = edge && poly.vertices.find(v => v.id === edge.endVertexId);
+                        if (!start || !end || !reading) return null;
+                        const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+                        // Teal halo with the reading that will be applied, below the current length label
+                        return (
+                            <g key={`laser-${edgeId}`} pointerEvents="none">
+                                <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="#14b8a6" strokeWidth={8 / state.zoomLevel} strokeOpacity={0.35} strokeLinecap="round" />
+                                <text
+                                    x={mid.x}
+                                    y={mid.y + 26 / state.zoomLevel}
+                                    textAnchor="middle"
+                                    fill="#0d9488"
+                                    fontSize={11 / state.zoomLevel}
+                                    fontWeight="bold"
+                                    transform={`rotate(${-rotationDeg}, ${mid.x}, ${mid.y})`}
+                                >
+                                    #{reading.label ?? index + 1} → {formatLength(reading.value, state.unitSystem)}
+                                </text>
                             </g>
                         );
                     })}
@@ -796,6 +1099,10 @@ export const Canvas: React.FC = () => {
                             : false;
                         
                         const isLocked = poly.isLocked;
+                        // Flag vertices that move several times any error in one of the edges
+                        const worstSensitivity = isLocked && poly.diagnostics ? getWorstSensitivity(poly.diagnostics, vertex.id) : null;
+                        const sensitivity = worstSensitivity && worstSensitivity.shift >= SENSITIVITY_WARNING ? worstSensitivity : null;
+                        const sensitiveEdge = sensitivity ? poly.edges.find(e => e.id === sensitivity.edgeId) : undefined;
 
                         const labelY = vertex.y - (15 / state.zoomLevel);
                         const hitRadius = Math.max(30 / state.zoomLevel, 20);
@@ -803,44 +1110,57 @@ export const Canvas: React.FC = () => {
                         const showAngle = vertex.fixedAngle !== undefined;
                         let angleMarker = null;
                         
-                        if (showAngle) {
-                             const edges = poly.edges.filter(e => 
-                                (e.startVertexId === vertex.id || e.endVertexId === vertex.id) && e.type === EdgeType.PERIMETER
+                        if (showAngle && poly.vertices.length >= 3) {
+                            const vIndex = poly.vertices.findIndex(v => v.id === vertex.id);
+                            const { from, to } = getInteriorAngleNeighbours(poly.vertices, vIndex);
+                            const angTo = Math.atan2(to.y - vertex.y, to.x - vertex.x);
+                            const angFrom = Math.atan2(from.y - vertex.y, from.x - vertex.x);
+                            const measured = calculateInteriorAngle(poly.vertices, vertex.id) ?? 0;
+                            const sweepRad = measured * Math.PI / 180;
+                            const bisector = angTo + sweepRad / 2;
+                            const dist = 20 / state.zoomLevel;
+                            const stroke = 2 / state.zoomLevel;
+                            const deviates = Math.abs(measured - vertex.fixedAngle!) >= 0.1;
+
+                            // Arc drawn clockwise (screen) from the 'to' side into the interior
+                            const arcStart = { x: vertex.x + Math.cos(angTo) * dist, y: vertex.y + Math.sin(angTo) * dist };
+                            const arcEnd = { x: vertex.x + Math.cos(angFrom) * dist, y: vertex.y + Math.sin(angFrom) * dist };
+                            const labelPos = {
+                                x: vertex.x + Math.cos(bisector) * (dist + 14 / state.zoomLevel),
+                                y: vertex.y + Math.sin(bisector) * (dist + 14 / state.zoomLevel)
+                            };
+
+                            angleMarker = (
+                                <g pointerEvents="none">
+                                    {vertex.fixedAngle === 90 ? (
+                                        <path
+                                            d={`M ${arcStart.x},${arcStart.y} L ${arcStart.x + arcEnd.x - vertex.x},${arcStart.y + arcEnd.y - vertex.y} L ${arcEnd.x},${arcEnd.y}`}
+                                            fill="none"
+                                            stroke="#fbbf24"
+                                            strokeWidth={stroke}
+                                        />
+                                    ) : (
+                                        <path
+                                            d={`M ${vertex.x},${vertex.y} L ${arcStart.x},${arcStart.y} A ${dist},${dist} 0 ${sweepRad > Math.PI ? 1 : 0},1 ${arcEnd.x},${arcEnd.y} Z`}
+                                            fill="rgba(251, 191, 36, 0.15)"
+                                            stroke="#fbbf24"
+                                            strokeWidth={stroke}
+                                        />
+                                    )}
+                                    <text
+                                        x={labelPos.x}
+                                        y={labelPos.y}
+                                        dy="0.35em"
+                                        textAnchor="middle"
+                                        fontSize={10 / state.zoomLevel}
+                                        fill="#fbbf24"
+                                        fontWeight="bold"
+                                        transform={`rotate(${-rotationDeg}, ${labelPos.x}, ${labelPos.y})`}
+                                    >
+                                        {vertex.fixedAngle}°{deviates ? ` (${measured.toFixed(1)}°)` : ''}
+                                    </text>
+                                </g>
                             );
-                            if (edges.length === 2) {
-                                const others = edges.map(e => {
-                                    const otherId = e.startVertexId === vertex.id ? e.endVertexId : e.startVertexId;
-                                    return poly.vertices.find(v => v.id === otherId)!;
-                                });
-                                const ang1 = Math.atan2(others[0].y - vertex.y, others[0].x - vertex.x);
-                                const ang2 = Math.atan2(others[1].y - vertex.y, others[1].x - vertex.x);
-                                let midAng = (ang1 + ang2) / 2;
-                                if (Math.abs(ang1 - ang2) > Math.PI) midAng += Math.PI;
-                                const dist = 20 / state.zoomLevel;
-                                if (vertex.fixedAngle === 90) {
-                                    angleMarker = (
-                                        <g transform={`translate(${vertex.x}, ${vertex.y}) rotate(${midAng * 180 / Math.PI})`} pointerEvents="none">
-                                            <rect x={0} y={-dist/2} width={dist} height={dist} fill="none" stroke="#fbbf24" strokeWidth={2/state.zoomLevel} />
-                                            <circle cx={dist/2} cy={0} r={2/state.zoomLevel} fill="#fbbf24" />
-                                        </g>
-                                    );
-                                } else {
-                                    angleMarker = (
-                                        <g transform={`translate(${vertex.x}, ${vertex.y})`} pointerEvents="none">
-                                            <text 
-                                                y={-dist - 5/state.zoomLevel} 
-                                                textAnchor="middle" 
-                                                fontSize={10/state.zoomLevel}
-                                                fill="#fbbf24"
-                                                fontWeight="bold"
-                                            >
-                                                {vertex.fixedAngle}°
-                                            </text>
-                                            <circle r={4/state.zoomLevel} stroke="#fbbf24" strokeWidth={1/state.zoomLevel} fill="none"/>
-                                        </g>
-                                    );
-                                }
-                            }
                         }
 
                         return (
@@ -873,6 +1193,37 @@ export const Canvas: React.FC = () => {
                             >
                                 {angleMarker}
 
+                                {isLocked && vertex.errorEllipse && (
+                                    <ellipse
+                                        cx={vertex.x}
+                                        cy={vertex.y}
+                                        rx={vertex.errorEllipse.major * PIXELS_PER_METER * ERROR_ELLIPSE_SCALE}
+                                        ry={vertex.errorEllipse.minor * PIXELS_PER_METER * ERROR_ELLIPSE_SCALE}
+                                        transform={`rotate(${vertex.errorEllipse.angle * 180 / Math.PI}, ${vertex.x}, ${vertex.y})`}
+                                        fill="rgba(16, 185, 129, 0.15)"
+                                        stroke="#10b981"
+                                        strokeWidth={1 / state.zoomLevel}
+                                        pointerEvents="none"
+                                    />
+                                )}
+
+                                {sensitivity && (
+                                    <g pointerEvents="none">
+                                        <title>{`Moves ${sensitivity.shift.toFixed(1)}× any length error on ${sensitiveEdge ? getEdgeLabel(poly, sensitiveEdge) : 'an edge'}`}</title>
+                                        <circle cx={vertex.x} cy={vertex.y} r={14 / state.zoomLevel} fill="none" stroke="#f97316" strokeWidth={2 / state.zoomLevel} strokeDasharray={`${3 / state.zoomLevel},${2 / state.zoomLevel}`} />
+                                        <text
+                                            x={vertex.x + 16 / state.zoomLevel}
+                                            y={vertex.y + 16 / state.zoomLevel}
+                                            fill="#f97316"
+                                            fontSize={10 / state.zoomLevel}
+                                            fontWeight="bold"
+                                            transform={`rotate(${-rotationDeg}, ${vertex.x}, ${vertex.y})`}
+                                        >
+                                            {sensitivity.shift.toFixed(1)}×
+                                        </text>
+                                    </g>
+                                )}
+
                                 <circle
                                     cx={vertex.x}
                                     cy={vertex.y}
@@ -886,7 +1237,7 @@ export const Canvas: React.FC = () => {
                                     cy={vertex.y}
                                     r={state.zoomLevel > 0.5 ? 8 / state.zoomLevel : 16}
                                     fill={hasError ? '#ef4444' : (isVertexSelected ? '#38bdf8' : (isConnectedToSelectedEdge ? '#bae6fd' : (isLocked ? (state.theme === 'dark' ? '#334155' : '#e2e8f0') : (state.theme === 'dark' ? '#f8fafc' : '#ffffff'))))}
-                                    stroke={hasError ? '#7f1d1d' : (isConnectedToSelectedEdge ? '#0284c7' : (isLocked ? (state.theme === 'dark' ? '#475569' : '#94a3b8') : '#0ea5e9'))}
+                                    stroke={hasError ? '#7f1d1d' : (vertex.flipped ? '#a855f7' : (isConnectedToSelectedEdge ? '#0284c7' : (isLocked ? (state.theme === 'dark' ? '#475569' : '#94a3b8') : '#0ea5e9')))}
                                     strokeWidth={isVertexSelected || isConnectedToSelectedEdge ? 3 / state.zoomLevel : 2 / state.zoomLevel}
                                     className="pointer-events-none"
                                 />
@@ -907,7 +1258,105 @@ export const Canvas: React.FC = () => {
                     })}
                 </g>
             )})}
+
+            {/* CROSS-POLYGON MEASUREMENTS (drawn above rooms so they stay clickable) */}
+            {!state.isDrawingMode && state.crossEdges.map(edge => {
+                const startPoly = visiblePolygons.find(p => p.vertices.some(v => v.id === edge.startVertexId));
+                const endPoly = visiblePolygons.find(p => p.vertices.some(v => v.id === edge.endVertexId));
+                const start = startPoly?.vertices.find(v => v.id === edge.startVertexId);
+                const end = endPoly?.vertices.find(v => v.id === edge.endVertexId);
+                if (!start || !end) return null;
+
+                const isEdgeSelected = state.selectedEdgeIds.includes(edge.id);
+                const residualAbs = startPoly!.isLocked && endPoly!.isLocked && edge.residual !== undefined ? Math.abs(edge.residual) : 0;
+                const residualLevel = residualAbs >= RESIDUAL_ERROR ? 'error' : (residualAbs >= RESIDUAL_WARNING ? 'warning' : null);
+                const residualColor = residualLevel === 'error' ? '#ef4444' : '#f97316';
+                const strokeColor = isEdgeSelected ? '#38bdf8' : (residualLevel ? residualColor : '#14b8a6'); // Teal-500
+
+                // Keep the hit area clear of the endpoint vertices so they can still be tapped
+                const len = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+                const trim = Math.min(0.4, (20 / state.zoomLevel) / len);
+                const hx1 = start.x + (end.x - start.x) * trim;
+                const hy1 = start.y + (end.y - start.y) * trim;
+                const hx2 = end.x - (end.x - start.x) * trim;
+                const hy2 = end.y - (end.y - start.y) * trim;
+                const midX = (start.x + end.x) / 2;
+                const midY = (start.y + end.y) / 2;
+
+                return (
+                    <g key={edge.id}
+                       onPointerDown={() => {
+                           if (state.isJoinMode || state.alignState) return;
+                           interactionTypeRef.current = 'edge';
+                           dispatch({ type: 'SELECT_EDGE', payload: edge.id });
+                       }}
+                       className="cursor-pointer"
+                    >
+                        <line
+                            x1={hx1} y1={hy1}
+                            x2={hx2} y2={hy2}
+                            stroke="rgba(255,255,255,0.001)"
+                            strokeWidth={Math.max(30 / state.zoomLevel, 20)}
+                        />
+                        <line
+                            x1={start.x} y1={start.y}
+                            x2={end.x} y2={end.y}
+                            stroke={strokeColor}
+                            strokeWidth={(isEdgeSelected ? 4 : 1.5) / state.zoomLevel}
+                            strokeDasharray={`${8 / state.zoomLevel},${4 / state.zoomLevel}`}
+                            pointerEvents="none"
+                        />
+                        <g transform={`rotate(${-rotationDeg}, ${midX}, ${midY})`} pointerEvents="none">
+                            <rect
+                                x={midX - 22} y={midY - 12}
+                                width={44} height={24}
+                                rx="4"
+                                fill={isEdgeSelected ? '#0ea5e9' : '#0f766e'}
+                                opacity="0.95"
+                            />
+                            <text x={midX} y={midY} dy="0.3em" textAnchor="middle" fill="white" fontSize={12} fontWeight="bold">
+                                {formatLength(edge.length, state.unitSystem)}
+                            </text>
+                            {residualLevel && (
+                                <text x={midX} y={midY + 12} dy="1.1em" textAnchor="middle" fill={residualColor} fontSize={10} fontWeight="bold">
+                                    Δ {formatResidual(edge.residual!, state.unitSystem)}
+                                </text>
+                            )}
+                        </g>
+                    </g>
+                );
+            })}
             
+            {/* UNDERLAY CALIBRATION POINTS */}
+            {state.underlayCalibration && (
+                <g pointerEvents="none">
+                    {state.underlayCalibration.length === 2 ? (
+                        <line
+                            x1={state.underlayCalibration[0].x} y1={state.underlayCalibration[0].y}
+                            x2={state.underlayCalibration[1].x} y2={state.underlayCalibration[1].y}
+                            stroke="#ec4899"
+                            strokeWidth={2 / state.zoomLevel}
+                        />
+                    ) : state.underlayCalibration.length === 1 && (
+                        <line
+                            x1={state.underlayCalibration[0].x} y1={state.underlayCalibration[0].y}
+                            x2={cursorPos.x} y2={cursorPos.y}
+                            stroke="#ec4899"
+                            strokeWidth={2 / state.zoomLevel}
+                            strokeDasharray="5,5"
+                            opacity={0.6}
+                        />
+                    )}
+                    {state.underlayCalibration.map((pt, i) => (
+                        <g key={`cal-${i}`}>
+                            <circle cx={pt.x} cy={pt.y} r={6 / state.zoomLevel} fill="none" stroke="#ec4899" strokeWidth={2 / state.zoomLevel} />
+                            <line x1={pt.x - 10 / state.zoomLevel} y1={pt.y} x2={pt.x + 10 / state.zoomLevel} y2={pt.y} stroke="#ec4899" strokeWidth={1 / state.zoomLevel} />
+                            <line x1={pt.x} y1={pt.y - 10 / state.zoomLevel} x2={pt.x} y2={pt.y + 10 / state.zoomLevel} stroke="#ec4899" strokeWidth={1 / state.zoomLevel} />
+                        </g>
+                    ))}
+                </g>
+            )}
+
             {/* DRAWING MODE OVERLAY */}
             {state.isDrawingMode && (
                 <g>
@@ -963,6 +1412,39 @@ export const Canvas: React.FC = () => {
                 </g>
             )}
 
+            {/* SNAP INDICATOR */}
+            {snapIndicator && (state.isDrawingMode || draggedVertexRef.current) && (() => {
+                const { point, kind, label, guide } = snapIndicator;
+                const size = 7 / state.zoomLevel;
+                const stroke = 2 / state.zoomLevel;
+                return (
+                    <g pointerEvents="none" stroke="#d946ef" fill="none" strokeWidth={stroke}>
+                        {guide && (
+                            <line x1={guide.from.x} y1={guide.from.y} x2={guide.to.x} y2={guide.to.y} strokeWidth={1 / state.zoomLevel} strokeDasharray={`${4 / state.zoomLevel},${4 / state.zoomLevel}`} />
+                        )}
+                        {kind === 'vertex' && <rect x={point.x - size} y={point.y - size} width={size * 2} height={size * 2} />}
+                        {(kind === 'edge' || kind === 'intersection') && (
+                            <>
+                                <line x1={point.x - size} y1={point.y - size} x2={point.x + size} y2={point.y + size} />
+                                <line x1={point.x - size} y1={point.y + size} x2={point.x + size} y2={point.y - size} />
+                            </>
+                        )}
+                        {kind === 'grid' && (
+                            <>
+                                <line x1={point.x - size} y1={point.y} x2={point.x + size} y2={point.y} />
+                                <line x1={point.x} y1={point.y - size} x2={point.x} y2={point.y + size} />
+                            </>
+                        )}
+                        {(kind === 'perpendicular' || kind === 'parallel' || kind === 'angle') && <circle cx={point.x} cy={point.y} r={size * 0.7} />}
+                        {label && (
+                            <g transform={`translate(${point.x}, ${point.y}) rotate(${-rotationDeg})`}>
+                                <text x={size * 1.5} y={-size * 1.5} fill="#d946ef" stroke="none" fontSize={12 / state.zoomLevel} fontWeight="bold">{label}</text>
+                            </g>
+                        )}
+                    </g>
+                );
+            })()}
+
         </g>
     </svg>
   );
@@ -1,8 +1,20 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useSurvey } from '../context/SurveyContext';
-import { generateRegularPolygon, checkConnectionStatus, generateDXF } from '../utils/geometry';
-import { Plus, Ruler, RefreshCw, Trash2, Focus, Minus, Link2, Unlink, AlertTriangle, CheckCircle, X, Layers, Check, Undo2, Redo2, ArrowRightLeft, Square, Ban, PenTool, StopCircle, Split, MoveHorizontal, FileJson, FileType, Upload, FolderOpen, Sun, Moon, HelpCircle, Pencil, ChevronDown, ChevronRight, Lock, Unlock, ArrowRight, Copy, FlipHorizontal, FlipVertical, AlignStartVertical, Settings2, MoreHorizontal, Sparkles, Link, DoorOpen, LayoutGrid } from 'lucide-react';
-import { EdgeType, Polygon } from '../types';
+import { generateRegularPolygon, screenToWorld, checkConnectionStatus, getEdgeLabel, calculateInteriorAngle, findVertex, RESIDUAL_WARNING, RESIDUAL_ERROR } from '../utils/geometry';
+import { Plus, Ruler, RefreshCw, Trash2, Focus, Minus, Link2, Unlink, AlertTriangle, CheckCircle, X, Layers, Check, Undo2, Redo2, ArrowRightLeft, Square, Ban, PenTool, StopCircle, Split, MoveHorizontal, FileJson, FileType, Upload, FolderOpen, Sun, Moon, HelpCircle, Pencil, ChevronDown, ChevronRight, Lock, Unlock, ArrowRight, Copy, FlipHorizontal, FlipVertical, AlignStartVertical, Settings2, MoreHorizontal, Sparkles, Link, DoorOpen, LayoutGrid, Activity, FlipHorizontal2, Network, Waypoints, Cloud, CloudCheck, CloudOff, Printer, RulerDimensionLine, Image as ImageIcon, Magnet, Footprints, ClipboardList, TriangleDashed, FileSpreadsheet } from 'lucide-react';
+import { EdgeType, Polygon, Edge, Point } from '../types';
+import { INSTRUMENT_SIGMA, getEdgeSigma } from '../utils/adjustment';
+import { createProjectFile, parseProjectFile } from '../utils/projectFile';
+import { generateDXF, generatePlanDXF, parseDXF, DxfDrawing } from '../utils/dxf';
+import { DxfImportDialog } from './DxfImportDialog';
+import { PlanExportDialog } from './PlanExportDialog';
+import { TraverseDialog } from './TraverseDialog';
+import { computeTraverse } from '../utils/traverse';
+import { getUnmeasuredEdges } from '../utils/guidedMeasure';
+import { summariseReadings, READING_AVERAGE_LABELS } from '../utils/readings';
+import { parseLaserCsv } from '../utils/laserCsv';
+import { readUnderlayImage } from '../utils/underlay';
+import { parseLength, formatLength, formatLengthInput, formatResidual, formatThickness, DECIMAL_UNIT, THICKNESS_SLIDER } from '../utils/units';
 
 // Helper component for Angle Input to handle local state (decimals, empty string)
 const AngleInput = ({ 
@@ -29,7 +41,8 @@ const AngleInput = ({
             onUpdate(undefined);
         } else {
             const num = parseFloat(val);
-            if (!isNaN(num)) {
+            // Interior angles are strictly between 0° and 360° (reflex corners allowed)
+            if (!isNaN(num) && num > 0 && num < 360) {
                 onUpdate(num);
             }
         }
@@ -51,15 +64,90 @@ const AngleInput = ({
     );
 };
 
+// Raw readings of the selected edge: add repeated tapes, drop bad ones, choose how they are averaged
+const EdgeReadings = ({ edge }: { edge: Edge }) => {
+    const { state, dispatch } = useSurvey();
+    const [value, setValue] = useState('');
+    const [note, setNote] = useState('');
+
+    // A new edge starts with empty fields
+    useEffect(() => { setValue(''); setNote(''); }, [edge.id]);
+
+    const readings = edge.readings ?? [];
+    const summary = summariseReadings(readings, edge.readingAverage);
+    const length = parseLength(value, state.unitSystem);
+
+    const add = () => {
+        if (length === null || length <= 0) {
+            if (value.trim()) dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `Could not read length "${value}".` } });
+            return;
+        }
+        dispatch({ type: 'ADD_EDGE_READING', payload: { edgeId: edge.id, value: length, instrument: edge.instrument ?? 'tape', note: note.trim() || undefined } });
+        setValue('');
+        setNote('');
+    };
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        e.stopPropagation(); // Prevent global hotkeys while typing
+        if (e.key === 'Enter') add();
+    };
+
+    return (
+        <div className="pt-2 border-t border-slate-200 dark:border-slate-700 flex flex-col gap-1">
+            <div className="flex items-center justify-between text-[10px] text-slate-500 uppercase font-bold">
+                <span>Readings{readings.length > 0 && ` (${readings.length})`}</span>
+                {readings.length > 1 && (
+                    <div className="flex gap-0.5">
+                        {(['mean', 'median'] as const).map(average => (
+                            <button key={average} onClick={() => dispatch({ type: 'SET_READING_AVERAGE', payload: { edgeId: edge.id, average } })} className={`px-1.5 py-0.5 rounded ${(edge.readingAverage ?? 'mean') === average ? 'bg-brand-100 dark:bg-brand-900/50 text-brand-700 dark:text-brand-300' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>{READING_AVERAGE_LABELS[average]}</button>
+                        ))}
+                    </div>
+                )}
+            </div>
+            {readings.length > 0 && (
+                <div className="max-h-32 overflow-y-auto flex flex-col">
+                    {readings.map(r => {
+                        const isOutlier = summary?.outlierIds.includes(r.id);
+                        return (
+                            <div key={r.id} className={`flex items-center gap-1.5 text-xs py-0.5 ${isOutlier ? 'text-red-500' : ''}`}>
+                                {isOutlier ? <AlertTriangle size={10} className="shrink-0" /> : <span className="w-2.5 shrink-0" />}
+                                <span className={`font-mono ${isOutlier && summary?.isRejected ? 'line-through' : ''}`} title={isOutlier ? (summary?.isRejected ? 'Disagrees with the other readings; left out' : 'Readings disagree; none left out without a majority') : undefined}>{formatLength(r.value, state.unitSystem)}</span>
+                                <span className="text-[9px] uppercase text-slate-400">{r.instrument}</span>
+                                <span className="flex-1 truncate text-[10px] text-slate-400" title={`${new Date(r.timestamp).toLocaleString()}${r.note ? ` · ${r.note}` : ''}`}>{new Date(r.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}{r.note && ` · ${r.note}`}</span>
+                                <button onClick={() => dispatch({ type: 'REMOVE_EDGE_READING', payload: { edgeId: edge.id, readingId: r.id } })} className="p-0.5 rounded text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30" title="Remove reading"><X size={10} /></button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            {summary && readings.length > 1 && (
+                <div className="text-[10px] text-slate-400">Spread {formatResidual(summary.spread, state.unitSystem, false)}{summary.isRejected && ` · ${summary.outlierIds.length} left out`}</div>
+            )}
+            <div className="flex gap-1">
+                <input type="text" inputMode={state.unitSystem === 'metric' ? 'decimal' : 'text'} placeholder={readings.length > 0 ? 'Another reading' : 'Add reading'} value={value} onChange={(e) => setValue(e.target.value)} onKeyDown={handleKeyDown} className="w-24 bg-slate-100 dark:bg-slate-900 border-none rounded px-2 py-1 text-xs font-mono text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 outline-none" />
+                <input type="text" placeholder="Note" value={note} onChange={(e) => setNote(e.target.value)} onKeyDown={handleKeyDown} className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-900 border-none rounded px-2 py-1 text-xs text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 outline-none" />
+                <button onClick={add} disabled={length === null || length <= 0} className="p-1 rounded bg-brand-600 hover:bg-brand-700 text-white disabled:opacity-50" title="Add reading"><Plus size={14} /></button>
+            </div>
+        </div>
+    );
+};
+
+// Common angle-gauge readings offered as one-tap shortcuts
+const ANGLE_PRESETS = [45, 90, 135];
+
+// Validation problems listed in the import error message; the rest are summarised
+const MAX_IMPORT_ERRORS = 6;
+
 export const Controls: React.FC = () => {
   const { state, dispatch } = useSurvey();
   const [showAddMenu, setShowAddMenu] = useState(false);
   const [showLayerMenu, setShowLayerMenu] = useState(false);
+  const [showSnapMenu, setShowSnapMenu] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const [numSides, setNumSides] = useState(4);
   const [newPolyName, setNewPolyName] = useState('');
   const [localLength, setLocalLength] = useState<string>('');
+  const [localSigma, setLocalSigma] = useState<string>('');
   
   // Renaming State
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -68,10 +156,24 @@ export const Controls: React.FC = () => {
   // Collapsed Groups State
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
 
+  // Residual Report State
+  const [showResiduals, setShowResiduals] = useState(true);
+
   const addMenuRef = useRef<HTMLDivElement>(null);
   const layerMenuRef = useRef<HTMLDivElement>(null);
+  const snapMenuRef = useRef<HTMLDivElement>(null);
   const exportMenuRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const dxfInputRef = useRef<HTMLInputElement>(null);
+  const underlayInputRef = useRef<HTMLInputElement>(null);
+  const laserInputRef = useRef<HTMLInputElement>(null);
+  // Room the next chosen laser log is assigned to
+  const pendingLaserPolygonRef = useRef<string | null>(null);
+  const [dxfImport, setDxfImport] = useState<{ drawing: DxfDrawing; fileName: string } | null>(null);
+  const [showPlanExport, setShowPlanExport] = useState(false);
+  const [showTraverse, setShowTraverse] = useState(false);
+  // How the next chosen JSON file is applied: replace the survey, or merge (optionally at a canvas position)
+  const pendingImportRef = useRef<{ mode: 'replace' | 'merge'; position?: Point }>({ mode: 'replace' });
   const contextMenuRef = useRef<HTMLDivElement>(null);
   
   // Get selected polygon(s)
@@ -79,11 +181,15 @@ export const Controls: React.FC = () => {
   const selectedPoly = selectedPolyId ? state.polygons.find(p => p.id === selectedPolyId) : null;
   
   const multiSelectionCount = state.selectedPolygonIds.length;
+  // Rooms measured as length + angle traverses can also be closed by the compass/transit rules
+  const isTraverse = selectedPoly ? computeTraverse(selectedPoly).type === 'success' : false;
+  const unmeasuredCount = selectedPoly ? getUnmeasuredEdges(selectedPoly).length : 0;
   
   // Find edge details (only if 1 edge selected)
   const selectedEdgePoly = state.polygons.find(p => p.edges.some(e => state.selectedEdgeIds.includes(e.id)));
   const selectedEdges = selectedEdgePoly?.edges.filter(e => state.selectedEdgeIds.includes(e.id)) || [];
-  const selectedEdge = state.selectedEdgeIds.length === 1 && selectedEdges.length === 1 ? selectedEdges[0] : null; 
+  const selectedCrossEdge = state.selectedEdgeIds.length === 1 ? state.crossEdges.find(e => e.id === state.selectedEdgeIds[0]) : undefined;
+  const selectedEdge = state.selectedEdgeIds.length === 1 && selectedEdges.length === 1 ? selectedEdges[0] : (selectedCrossEdge || null); 
   
   const selectedVerticesCount = state.selectedVertexIds.length;
 
@@ -99,6 +205,15 @@ export const Controls: React.FC = () => {
       return true;
   }, [state.selectedEdgeIds, state.polygons]);
 
+  // Worst residuals of the selected (solved) polygon, largest first
+  const residualReport = useMemo(() => {
+      if (!selectedPoly || !selectedPoly.isLocked) return [];
+      return selectedPoly.edges
+          .filter(e => e.residual !== undefined && Math.abs(e.residual) >= 0.0005)
+          .sort((a, b) => Math.abs(b.residual!) - Math.abs(a.residual!))
+          .slice(0, 5);
+  }, [selectedPoly]);
+
   // Grouping Logic for List View
   const polygonGroups = useMemo(() => {
       const groups: Record<string, Polygon[]> = {};
@@ -130,6 +245,15 @@ export const Controls: React.FC = () => {
   useEffect(() => {
       const handleKeyDown = (e: KeyboardEvent) => {
           if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+          if (state.isProjectListOpen) {
+              if (e.key === 'Escape') dispatch({ type: 'TOGGLE_PROJECT_LIST', payload: undefined });
+              return;
+          }
+          // The guided measurement keypad takes the digit and editing keys
+          if (state.guidedMeasure) {
+              if (e.key === 'Escape') dispatch({ type: 'CANCEL_GUIDED_MEASURE', payload: undefined });
+              return;
+          }
           
           const key = e.key.toLowerCase();
           
@@ -153,26 +277,35 @@ export const Controls: React.FC = () => {
           if (key === 't') {
               dispatch({ type: 'TOGGLE_THEME', payload: undefined });
           }
+          if (key === 'm') {
+              dispatch({ type: 'TOGGLE_DIMENSIONS', payload: undefined });
+          }
+          if (key === 'n') {
+              dispatch({ type: 'SET_SNAP_SETTINGS', payload: { isEnabled: !state.snap.isEnabled } });
+          }
           if (key === 'h' || key === '?') {
               setShowHelp(prev => !prev);
           }
           if (e.key === 'Escape') {
               if (state.isDrawingMode) dispatch({ type: 'CANCEL_DRAWING', payload: undefined });
               if (state.isJoinMode) dispatch({ type: 'CANCEL_JOIN_CONFLICT', payload: undefined });
+              if (state.crossEdgeSourceVertexId) dispatch({ type: 'CANCEL_CROSS_EDGE', payload: undefined });
               if (state.alignState) dispatch({ type: 'CANCEL_ALIGNMENT', payload: undefined });
               if (state.contextMenu) dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined });
+              if (state.underlayCalibration) dispatch({ type: 'CANCEL_UNDERLAY_CALIBRATION', payload: undefined });
               if (state.openVertexMenuId) dispatch({ type: 'CLOSE_VERTEX_MENU', payload: undefined });
               if (showHelp) setShowHelp(false);
               setShowAddMenu(false);
               setShowLayerMenu(false);
               setShowExportMenu(false);
+              setShowSnapMenu(false);
               setEditingId(null);
           }
           if (e.key === 'Delete' || e.key === 'Backspace') {
               if (state.selectedPolygonIds.length > 0 && state.selectedEdgeIds.length === 0 && state.selectedVertexIds.length === 0 && !editingId) {
                   state.selectedPolygonIds.forEach(id => dispatch({ type: 'DELETE_POLYGON', payload: id }));
               }
-              if (selectedEdge && selectedEdge.type === EdgeType.DIAGONAL) {
+              if (selectedEdge && (selectedEdge.type === EdgeType.DIAGONAL || selectedEdge.type === EdgeType.CROSS)) {
                   dispatch({ type: 'DELETE_EDGE', payload: selectedEdge.id });
               }
               if (state.selectedVertexIds.length === 1 && state.selectedVertexIds[0]) {
@@ -182,7 +315,7 @@ export const Controls: React.FC = () => {
       };
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedPoly, selectedEdge, state.selectedPolygonIds, state.selectedEdgeIds, state.selectedVertexIds, state.isDrawingMode, state.isJoinMode, state.alignState, state.contextMenu, state.openVertexMenuId, showHelp, editingId]);
+  }, [selectedPoly, selectedEdge, state.selectedPolygonIds, state.selectedEdgeIds, state.selectedVertexIds, state.isDrawingMode, state.isJoinMode, state.crossEdgeSourceVertexId, state.alignState, state.contextMenu, state.openVertexMenuId, state.isProjectListOpen, state.underlayCalibration, state.snap.isEnabled, state.guidedMeasure, showHelp, editingId]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -192,6 +325,9 @@ export const Controls: React.FC = () => {
       if (layerMenuRef.current && !layerMenuRef.current.contains(event.target as Node)) {
         setShowLayerMenu(false);
       }
+      if (snapMenuRef.current && !snapMenuRef.current.contains(event.target as Node)) {
+        setShowSnapMenu(false);
+      }
       if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
         setShowExportMenu(false);
       }
@@ -199,13 +335,13 @@ export const Controls: React.FC = () => {
           dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined });
       }
     };
-    if (showAddMenu || showLayerMenu || showExportMenu || state.contextMenu) {
+    if (showAddMenu || showLayerMenu || showExportMenu || showSnapMenu || state.contextMenu) {
         document.addEventListener('mousedown', handleClickOutside);
     }
     return () => {
         document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [showAddMenu, showLayerMenu, showExportMenu, state.contextMenu]);
+  }, [showAddMenu, showLayerMenu, showExportMenu, showSnapMenu, state.contextMenu]);
 
   useEffect(() => {
     if (showAddMenu) {
@@ -215,11 +351,15 @@ export const Controls: React.FC = () => {
 
   useEffect(() => {
       if (selectedEdge) {
-          setLocalLength((selectedEdge.length * 100).toFixed(2));
+          setLocalLength(formatLengthInput(selectedEdge.length, state.unitSystem));
       } else {
           setLocalLength('');
       }
-  }, [selectedEdge?.length, selectedEdge?.id]);
+  }, [selectedEdge?.length, selectedEdge?.id, state.unitSystem]);
+
+  useEffect(() => {
+      setLocalSigma(selectedEdge?.sigma !== undefined ? (selectedEdge.sigma * 1000).toString() : '');
+  }, [selectedEdge?.sigma, selectedEdge?.id]);
 
   useEffect(() => {
       if (state.solverMsg?.type === 'success') {
@@ -232,9 +372,9 @@ export const Controls: React.FC = () => {
 
   // Edge Editor Position Calculation (Flying)
   const edgeEditorPos = React.useMemo(() => {
-      if (!selectedEdge || !selectedEdgePoly) return null;
-      const v1 = selectedEdgePoly.vertices.find(v => v.id === selectedEdge.startVertexId);
-      const v2 = selectedEdgePoly.vertices.find(v => v.id === selectedEdge.endVertexId);
+      if (!selectedEdge) return null;
+      const v1 = findVertex(state.polygons, selectedEdge.startVertexId)?.vertex;
+      const v2 = findVertex(state.polygons, selectedEdge.endVertexId)?.vertex;
       if (!v1 || !v2) return null;
 
       // Calculate midpoint in world space
@@ -266,7 +406,7 @@ export const Controls: React.FC = () => {
       safeY = Math.max(80, safeY); 
 
       return { x: safeX, y: safeY };
-  }, [selectedEdge, selectedEdgePoly, state.zoomLevel, state.panOffset, state.rotation]);
+  }, [selectedEdge, state.polygons, state.zoomLevel, state.panOffset, state.rotation]);
 
   // Vertex Editor Position
   const vertexEditorPos = useMemo(() => {
@@ -293,6 +433,21 @@ export const Controls: React.FC = () => {
     return { x: x + 15, y: y - 60 }; 
   }, [state.openVertexMenuId, state.polygons, state.panOffset, state.zoomLevel, state.rotation]);
 
+  const openVertex = state.openVertexMenuId
+      ? state.polygons.flatMap(p => p.vertices).find(v => v.id === state.openVertexMenuId)
+      : undefined;
+
+  // Whether a polygon takes part in any cross-polygon measurement
+  const hasCrossEdges = (poly: Polygon): boolean =>
+      state.crossEdges.some(e => poly.vertices.some(v => v.id === e.startVertexId || v.id === e.endVertexId));
+
+  // Current (sketched or solved) interior angle at a vertex, shown next to the fixed value
+  const getMeasuredAngle = (vertexId: string | null | undefined): number | null => {
+      if (!vertexId) return null;
+      const poly = state.polygons.find(p => p.vertices.some(v => v.id === vertexId));
+      return poly ? calculateInteriorAngle(poly.vertices, vertexId) : null;
+  };
+
 
   const handleAddPolygon = () => {
     const center = { 
@@ -305,35 +460,32 @@ export const Controls: React.FC = () => {
     setShowAddMenu(false);
   };
   
+  // World coordinates of the context menu click
+  const getContextWorldPoint = (): Point | null => {
+      if (!state.contextMenu) return null;
+      return screenToWorld(state.contextMenu, state.panOffset, state.zoomLevel, state.rotation);
+  };
+
   // Create Polygon at context click position
   const handleAddPolygonAtContext = () => {
-      if (!state.contextMenu) return;
-      const { x, y } = state.contextMenu;
-      const { panOffset, zoomLevel, rotation } = state;
-
-      // Inverse Transform
-      const dx = x - panOffset.x;
-      const dy = y - panOffset.y;
-      
-      // Rotate inverse (-rotation)
-      const cos = Math.cos(-rotation);
-      const sin = Math.sin(-rotation);
-      const rx = dx * cos - dy * sin;
-      const ry = dx * sin + dy * cos;
-      
-      // Scale inverse
-      const worldX = rx / zoomLevel;
-      const worldY = ry / zoomLevel;
+      const point = getContextWorldPoint();
+      if (!point) return;
 
       const finalName = `Polygon ${state.polygons.length + 1}`;
-      const newPoly = generateRegularPolygon({ x: worldX, y: worldY }, 4, `poly-${Date.now()}`, finalName);
+      const newPoly = generateRegularPolygon(point, 4, `poly-${Date.now()}`, finalName);
       
       dispatch({ type: 'ADD_POLYGON', payload: newPoly });
       dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined });
   };
   
-  const handleContextImport = () => {
+  const openImportDialog = (mode: 'replace' | 'merge', position?: Point) => {
+      pendingImportRef.current = { mode, position };
       fileInputRef.current?.click();
+      setShowExportMenu(false);
+  };
+
+  const handleContextImport = () => {
+      openImportDialog('merge', getContextWorldPoint() ?? undefined);
       dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined });
   };
 
@@ -343,16 +495,40 @@ export const Controls: React.FC = () => {
   };
 
   const commitEdgeUpdate = () => {
-    if (!selectedEdge) return;
-    const num = parseFloat(localLength);
-    if (!isNaN(num) && localLength !== '') {
+    // With readings the length is derived and the field is read-only
+    if (!selectedEdge || selectedEdge.readings?.length) return;
+    const length = parseLength(localLength, state.unitSystem);
+    if (length !== null && length > 0) {
         dispatch({
             type: 'UPDATE_EDGE_LENGTH',
-            payload: { edgeId: selectedEdge.id, length: num / 100 }
+            payload: { edgeId: selectedEdge.id, length }
         });
+    } else if (localLength.trim() !== '') {
+        dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `Could not read length "${localLength}".` } });
+        setLocalLength(formatLengthInput(selectedEdge.length, state.unitSystem));
     }
   };
 
+  // Standard deviation is typed in mm; an empty field falls back to the instrument default
+  const commitSigmaUpdate = () => {
+    if (!selectedEdge) return;
+    const val = parseFloat(localSigma);
+    const sigma = !isNaN(val) && val > 0 ? val / 1000 : undefined;
+    if (localSigma.trim() !== '' && sigma === undefined) {
+        dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `Could not read standard deviation "${localSigma}".` } });
+        setLocalSigma(selectedEdge.sigma !== undefined ? (selectedEdge.sigma * 1000).toString() : '');
+        return;
+    }
+    if (sigma === selectedEdge.sigma) return;
+    dispatch({ type: 'SET_EDGE_PRECISION', payload: { edgeId: selectedEdge.id, instrument: selectedEdge.instrument ?? 'tape', sigma } });
+  };
+
+  // Plain decimal inputs (feature width / position) in the project's unit
+  const decimalUnit = DECIMAL_UNIT[state.unitSystem];
+  const toDecimalUnit = (meters: number) => (meters / decimalUnit.meters).toFixed(2);
+  const fromDecimalUnit = (value: number) => value * decimalUnit.meters;
+  const thicknessSlider = THICKNESS_SLIDER[state.unitSystem];
+
   const handleEdgeKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
       if (e.key === 'Enter') {
           e.currentTarget.blur(); // Triggers onBlur which calls commitEdgeUpdate
@@ -360,23 +536,30 @@ export const Controls: React.FC = () => {
   };
 
   // ... (Export logic unchanged) ...
+  // Download name derived from the open project, e.g. "Smith Residence.json"
+  const exportFileName = (extension: string) =>
+      `${(state.currentProject?.name || 'survey_data').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'survey_data'}.${extension}`;
+
   const handleExportJSON = () => {
-      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(state.polygons, null, 2));
+      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(createProjectFile(state), null, 2));
       const downloadAnchorNode = document.createElement('a');
       downloadAnchorNode.setAttribute("href",     dataStr);
-      downloadAnchorNode.setAttribute("download", "survey_data.json");
+      downloadAnchorNode.setAttribute("download", exportFileName("json"));
       document.body.appendChild(downloadAnchorNode);
       downloadAnchorNode.click();
       downloadAnchorNode.remove();
       setShowExportMenu(false);
   };
 
-  const handleExportDXF = () => {
-      const dxfString = generateDXF(state.polygons);
+  // 'plan' is the CAD-ready drawing (rooms, double-line walls, openings); 'lines' is the raw edge network
+  const handleExportDXF = (mode: 'plan' | 'lines') => {
+      const dxfString = mode === 'plan'
+          ? generatePlanDXF(state.polygons, state.crossEdges, state.unitSystem, state.showDimensions)
+          : generateDXF(state.polygons, state.crossEdges, state.unitSystem);
       const dataStr = "data:text/plain;charset=utf-8," + encodeURIComponent(dxfString);
       const downloadAnchorNode = document.createElement('a');
       downloadAnchorNode.setAttribute("href",     dataStr);
-      downloadAnchorNode.setAttribute("download", "survey_data.dxf");
+      downloadAnchorNode.setAttribute("download", exportFileName("dxf"));
       document.body.appendChild(downloadAnchorNode);
       downloadAnchorNode.click();
       downloadAnchorNode.remove();
@@ -385,29 +568,105 @@ export const Controls: React.FC = () => {
 
   const handleImportJSON = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
+      // Clear the input so choosing the same file again still fires onChange
+      e.target.value = '';
       if (!file) return;
+      const { mode, position } = pendingImportRef.current;
+      pendingImportRef.current = { mode: 'replace' };
 
       const reader = new FileReader();
       reader.onload = (event) => {
-          try {
-              const json = JSON.parse(event.target?.result as string);
-              if (Array.isArray(json)) {
-                  const valid = json.every(p => p.id && Array.isArray(p.vertices) && Array.isArray(p.edges));
-                  if (valid) {
-                      dispatch({ type: 'IMPORT_DATA', payload: json as Polygon[] });
-                  } else {
-                      alert("Invalid JSON format");
-                  }
-              }
-          } catch (err) {
-              console.error(err);
-              alert("Failed to parse JSON");
+          const result = parseProjectFile(event.target?.result as string);
+          if (result.type === 'error') {
+              const shown = result.errors.slice(0, MAX_IMPORT_ERRORS);
+              const more = result.errors.length - shown.length;
+              dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: [`Import failed (${result.errors.length} problem${result.errors.length !== 1 ? 's' : ''}):`, ...shown, ...(more > 0 ? [`…and ${more} more.`] : [])].join('\n') } });
+              return;
+          }
+          const { file: project, migratedFrom, projectInfo } = result;
+          if (mode === 'merge') {
+              dispatch({ type: 'MERGE_DATA', payload: { polygons: project.polygons, crossEdges: project.crossEdges, position } });
+              return;
+          }
+          dispatch({ type: 'IMPORT_DATA', payload: { polygons: project.polygons, crossEdges: project.crossEdges, unitSystem: project.unitSystem, view: project.view, underlay: project.underlay } });
+          if (projectInfo) dispatch({ type: 'UPDATE_PROJECT_INFO', payload: projectInfo });
+          if (migratedFrom !== null) {
+              dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'success', text: `Imported "${project.project.name}" (upgraded from file version ${migratedFrom}).` } });
           }
       };
       reader.readAsText(file);
       setShowExportMenu(false);
   };
 
+  const handleImportDXF = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = (event) => {
+          const result = parseDXF(event.target?.result as string);
+          if (result.type === 'error') {
+              dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `DXF import failed: ${result.error}` } });
+              return;
+          }
+          setDxfImport({ drawing: result.drawing, fileName: file.name });
+      };
+      reader.readAsText(file);
+  };
+
+  const openLaserImport = (polygonId: string | null | undefined) => {
+      setShowExportMenu(false);
+      dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined });
+      if (!polygonId) {
+          dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: 'Select the room the laser readings belong to first.' } });
+          return;
+      }
+      pendingLaserPolygonRef.current = polygonId;
+      laserInputRef.current?.click();
+  };
+
+  const handleImportLaserCSV = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      const polygonId = pendingLaserPolygonRef.current;
+      pendingLaserPolygonRef.current = null;
+      if (!file || !polygonId) return;
+
+      const reader = new FileReader();
+      reader.onload = (event) => {
+          const result = parseLaserCsv(event.target?.result as string);
+          if (result.type === 'error') {
+              dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `Laser log import failed: ${result.error}` } });
+              return;
+          }
+          dispatch({ type: 'START_LASER_IMPORT', payload: { polygonId, fileName: file.name, readings: result.readings } });
+          if (result.skipped > 0) {
+              dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'success', text: `Read ${result.readings.length} distances from ${file.name}; ${result.skipped} other row${result.skipped !== 1 ? 's' : ''} (areas, angles, unreadable) skipped.` } });
+          }
+      };
+      reader.readAsText(file);
+  };
+
+  const handleLoadUnderlay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+          const { src, width, height } = await readUnderlayImage(file);
+          // Fit the image into 80% of the view until it is calibrated
+          const fit = Math.min(window.innerWidth * 0.8 / width, window.innerHeight * 0.8 / height) / state.zoomLevel;
+          const position = screenToWorld({ x: window.innerWidth / 2, y: window.innerHeight / 2 }, state.panOffset, state.zoomLevel, state.rotation);
+          dispatch({
+              type: 'SET_UNDERLAY',
+              payload: { src, name: file.name, width, height, position, scale: fit, rotation: -state.rotation, opacity: 0.5, isVisible: true, isLocked: false }
+          });
+      } catch (err) {
+          dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `Could not load the underlay: ${(err as Error).message}` } });
+      }
+  };
+
   const handleCenterView = () => {
       if (state.polygons.length === 0) {
           dispatch({ type: 'PAN_ZOOM', payload: { x: 0, y: 0, zoom: 1, rotation: 0 } });
@@ -525,7 +784,7 @@ export const Controls: React.FC = () => {
   
   const containerClass = "bg-slate-100/90 dark:bg-slate-800/90 backdrop-blur rounded-2xl p-1.5 shadow-xl border border-slate-200 dark:border-slate-700 flex flex-wrap justify-center items-center gap-1 sm:gap-2";
 
-  const showBottomToolbar = (selectedPoly || state.selectedVertexIds.length === 2) && !state.isJoinMode && !state.alignState && !state.isDrawingMode && !state.contextMenu;
+  const showBottomToolbar = (selectedPoly || state.selectedVertexIds.length === 2) && !state.isJoinMode && !state.alignState && !state.isDrawingMode && !state.guidedMeasure && !state.contextMenu;
 
   return (
     <div className="absolute inset-0 pointer-events-none flex flex-col justify-between z-10">
@@ -538,6 +797,27 @@ export const Controls: React.FC = () => {
              className="hidden pointer-events-auto" 
              onChange={handleImportJSON}
         />
+        <input 
+             ref={dxfInputRef}
+             type="file" 
+             accept=".dxf"
+             className="hidden pointer-events-auto" 
+             onChange={handleImportDXF}
+        />
+        <input 
+             ref={laserInputRef}
+             type="file" 
+             accept=".csv,.txt,text/csv"
+             className="hidden pointer-events-auto" 
+             onChange={handleImportLaserCSV}
+        />
+        <input 
+             ref={underlayInputRef}
+             type="file" 
+             accept="image/*"
+             className="hidden pointer-events-auto" 
+             onChange={handleLoadUnderlay}
+        />
 
         {/* ... Top Toolbar (No Changes) ... */}
         <div className="w-full flex flex-col items-center sm:block pt-2 px-2 sm:pt-4 sm:px-4 relative pointer-events-none">
@@ -680,19 +960,41 @@ export const Controls: React.FC = () => {
                                 </button>
                                 {showExportMenu && (
                                      <div ref={exportMenuRef} className="fixed left-4 right-4 top-20 sm:absolute sm:top-full sm:left-0 sm:right-auto sm:w-48 mt-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg p-2 shadow-xl z-50 animate-in fade-in zoom-in-95 duration-200 origin-top-left text-slate-800 dark:text-slate-200">
+                                         <button onClick={() => { dispatch({ type: 'TOGGLE_PROJECT_LIST', payload: undefined }); setShowExportMenu(false); }} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
+                                             <FolderOpen size={16}/> Projects…
+                                         </button>
+                                         <div className="h-px bg-slate-200 dark:bg-slate-700 my-1"></div>
                                          <button onClick={() => { dispatch({ type: 'RESET_CANVAS', payload: undefined }); setShowExportMenu(false); }} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm text-red-600 dark:text-red-400">
                                              <FileJson size={16}/> New / Reset
                                          </button>
                                          <div className="h-px bg-slate-200 dark:bg-slate-700 my-1"></div>
-                                         <label className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm cursor-pointer">
+                                         <button onClick={() => openImportDialog('replace')} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
                                              <Upload size={16}/> Import JSON
-                                         </label>
+                                         </button>
+                                         <button onClick={() => openImportDialog('merge')} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
+                                             <Layers size={16}/> Merge JSON
+                                         </button>
+                                         <button onClick={() => { dxfInputRef.current?.click(); setShowExportMenu(false); }} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
+                                             <FileType size={16}/> Import DXF
+                                         </button>
+                                         <button onClick={() => openLaserImport(selectedPolyId)} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
+                                             <FileSpreadsheet size={16}/> Import Laser Log (CSV)…
+                                         </button>
+                                         <button onClick={() => { underlayInputRef.current?.click(); setShowExportMenu(false); }} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
+                                             <ImageIcon size={16}/> {state.underlay ? 'Replace Underlay…' : 'Load Underlay Image…'}
+                                         </button>
                                          <div className="h-px bg-slate-200 dark:bg-slate-700 my-1"></div>
                                          <button onClick={handleExportJSON} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
                                              <FileJson size={16}/> Export JSON
                                          </button>
-                                         <button onClick={handleExportDXF} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
-                                             <FileType size={16}/> Export DXF
+                                         <button onClick={() => handleExportDXF('plan')} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
+                                             <FileType size={16}/> Export DXF (CAD Plan)
+                                         </button>
+                                         <button onClick={() => handleExportDXF('lines')} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
+                                             <FileType size={16}/> Export DXF (Lines)
+                                         </button>
+                                         <button onClick={() => { setShowPlanExport(true); setShowExportMenu(false); }} className="w-full flex items-center gap-2 p-2 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-sm">
+                                             <Printer size={16}/> Export Plan (SVG/PDF)…
                                          </button>
                                      </div>
                                 )}
@@ -756,6 +1058,13 @@ export const Controls: React.FC = () => {
 
             {/* Top Right Controls (Theme & Help) ... */}
             <div className="pointer-events-auto absolute top-2 right-2 sm:top-4 sm:right-4 z-20 flex gap-2">
+                 <button 
+                     onClick={() => dispatch({ type: 'SET_UNIT_SYSTEM', payload: state.unitSystem === 'metric' ? 'imperial' : 'metric' })}
+                     className="px-2 py-2 bg-white/80 dark:bg-slate-800/80 backdrop-blur rounded-lg border border-slate-200 dark:border-slate-700 shadow-md text-slate-700 dark:text-slate-200 hover:bg-white dark:hover:bg-slate-700 text-xs font-bold font-mono min-w-[36px]"
+                     title="Switch Units (Metric / Imperial)"
+                 >
+                     {state.unitSystem === 'metric' ? 'm' : 'ft'}
+                 </button>
                  <button 
                      onClick={() => dispatch({ type: 'TOGGLE_THEME', payload: undefined })}
                      className="p-2 bg-white/80 dark:bg-slate-800/80 backdrop-blur rounded-lg border border-slate-200 dark:border-slate-700 shadow-md text-slate-700 dark:text-slate-200 hover:bg-white dark:hover:bg-slate-700"
@@ -763,6 +1072,53 @@ export const Controls: React.FC = () => {
                  >
                      {state.theme === 'dark' ? <Sun size={18} /> : <Moon size={18} />}
                  </button>
+                 <button 
+                     onClick={() => dispatch({ type: 'TOGGLE_DIMENSIONS', payload: undefined })}
+                     className={`p-2 backdrop-blur rounded-lg border border-slate-200 dark:border-slate-700 shadow-md hover:bg-white dark:hover:bg-slate-700 ${state.showDimensions ? 'bg-brand-50/90 dark:bg-brand-900/40 text-brand-600 dark:text-brand-400' : 'bg-white/80 dark:bg-slate-800/80 text-slate-700 dark:text-slate-200'}`}
+                     title="Toggle Dimension Lines (M)"
+                 >
+                     <RulerDimensionLine size={18} />
+                 </button>
+                 <div ref={snapMenuRef} className="relative">
+                     <button 
+                         onClick={() => setShowSnapMenu(!showSnapMenu)}
+                         className={`p-2 backdrop-blur rounded-lg border border-slate-200 dark:border-slate-700 shadow-md hover:bg-white dark:hover:bg-slate-700 ${state.snap.isEnabled ? 'bg-brand-50/90 dark:bg-brand-900/40 text-brand-600 dark:text-brand-400' : 'bg-white/80 dark:bg-slate-800/80 text-slate-700 dark:text-slate-200'}`}
+                         title="Snapping (N to toggle)"
+                     >
+                         <Magnet size={18} />
+                     </button>
+                     {showSnapMenu && (
+                         <div className="absolute top-full right-0 mt-2 w-56 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg p-3 shadow-xl z-50 animate-in fade-in zoom-in-95 duration-200 origin-top-right text-slate-800 dark:text-slate-200">
+                             <label className="flex items-center justify-between text-sm font-bold mb-2 cursor-pointer">
+                                 Snapping
+                                 <input type="checkbox" checked={state.snap.isEnabled} onChange={e => dispatch({ type: 'SET_SNAP_SETTINGS', payload: { isEnabled: e.target.checked } })} className="accent-brand-500" />
+                             </label>
+                             <div className={`space-y-1.5 ${state.snap.isEnabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                                 {([['vertices', 'Room corners'], ['edges', 'Room edges'], ['perpendicular', 'Perpendicular / parallel'], ['grid', 'Grid']] as const).map(([setting, label]) => (
+                                     <label key={setting} className="flex items-center gap-2 text-xs cursor-pointer">
+                                         <input type="checkbox" checked={state.snap[setting]} onChange={e => dispatch({ type: 'SET_SNAP_SETTINGS', payload: { [setting]: e.target.checked } })} className="accent-brand-500" />
+                                         {label}
+                                     </label>
+                                 ))}
+                                 <div className="pt-1">
+                                     <span className="block text-[10px] uppercase font-bold text-slate-500 mb-1">Angle step</span>
+                                     <div className="grid grid-cols-4 gap-1">
+                                         {([0, 15, 45, 90] as const).map(step => (
+                                             <button
+                                                 key={step}
+                                                 onClick={() => dispatch({ type: 'SET_SNAP_SETTINGS', payload: { angleStep: step } })}
+                                                 className={`py-1 rounded text-xs font-bold ${state.snap.angleStep === step ? 'bg-brand-600 text-white' : 'bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600'}`}
+                                             >
+                                                 {step === 0 ? 'Off' : `${step}°`}
+                                             </button>
+                                         ))}
+                                     </div>
+                                 </div>
+                             </div>
+                             <p className="text-[10px] text-slate-400 mt-2">Hold Alt while drawing or dragging to place points freely.</p>
+                         </div>
+                     )}
+                 </div>
                  <button 
                      onClick={() => dispatch({type: 'TOGGLE_AI_PANEL', payload: undefined})}
                      className="p-2 bg-white/80 dark:bg-slate-800/80 backdrop-blur rounded-lg border border-slate-200 dark:border-slate-700 shadow-md text-purple-600 dark:text-purple-400 hover:bg-white dark:hover:bg-slate-700"
@@ -783,12 +1139,23 @@ export const Controls: React.FC = () => {
             <div className="pointer-events-auto mt-2 sm:mt-0 sm:absolute sm:top-4 sm:left-4 z-10 flex justify-center sm:block">
                 <div className="bg-white/80 dark:bg-slate-800/80 backdrop-blur rounded-lg px-3 py-1.5 border border-slate-200 dark:border-slate-700/50 text-center shadow-lg min-w-[120px]">
                     <h1 className="text-xs font-bold text-brand-600 dark:text-brand-500 uppercase tracking-wider">GeoSurvey</h1>
+                    {state.currentProject && (
+                        <button
+                            onClick={() => dispatch({ type: 'TOGGLE_PROJECT_LIST', payload: undefined })}
+                            className="block w-full max-w-[180px] mx-auto truncate text-xs font-bold text-slate-700 dark:text-slate-200 hover:text-brand-600 dark:hover:text-brand-400"
+                            title="Projects"
+                        >
+                            {state.currentProject.name}
+                        </button>
+                    )}
                     <div className="text-[10px] text-slate-500 dark:text-slate-400 font-mono mt-0.5">
                         {state.isDrawingMode ? (
                             <span className="text-brand-500 dark:text-brand-300 font-bold animate-pulse">DRAWING MODE ({state.drawingPoints.length} pts)</span>
                         ) : (
                             state.isJoinMode ? (
                                 <span className="text-yellow-600 dark:text-yellow-400 font-bold animate-pulse">SELECT TARGET EDGE</span>
+                            ) : state.crossEdgeSourceVertexId ? (
+                                <span className="text-teal-600 dark:text-teal-400 font-bold animate-pulse">SELECT TARGET VERTEX</span>
                             ) : (
                                 state.alignState ? (
                                     <span className="text-purple-600 dark:text-purple-400 font-bold animate-pulse">ALIGNING...</span>
@@ -802,6 +1169,16 @@ export const Controls: React.FC = () => {
                             )
                         )}
                     </div>
+                    {state.autosave.status !== 'idle' && (
+                        <div
+                            className={`flex items-center justify-center gap-1 text-[9px] font-mono mt-0.5 ${state.autosave.status === 'error' ? 'text-red-500' : 'text-slate-400'}`}
+                            title={state.autosave.savedAt ? `Last saved ${new Date(state.autosave.savedAt).toLocaleString()}` : undefined}
+                        >
+                            {state.autosave.status === 'saving' && <><Cloud size={10} className="animate-pulse" /> Saving…</>}
+                            {state.autosave.status === 'saved' && <><CloudCheck size={10} className="text-green-500" /> Saved {state.autosave.savedAt ? new Date(state.autosave.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : ''}</>}
+                            {state.autosave.status === 'error' && <><CloudOff size={10} /> {state.autosave.error || 'Not saved'}</>}
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -809,7 +1186,7 @@ export const Controls: React.FC = () => {
             {state.solverMsg && (
                 <div className={`pointer-events-auto mt-2 sm:absolute sm:top-20 sm:right-4 sm:mt-0 max-w-[90%] sm:max-w-xs p-3 rounded-xl shadow-2xl border flex items-start gap-3 animate-in slide-in-from-top-2 z-30 ${state.solverMsg.type === 'error' ? 'bg-red-50 dark:bg-red-900/95 border-red-200 dark:border-red-700 text-red-800 dark:text-red-100' : 'bg-green-50 dark:bg-green-900/95 border-green-200 dark:border-green-700 text-green-800 dark:text-green-100'}`}>
                     {state.solverMsg.type === 'error' ? <AlertTriangle size={20} className="shrink-0 mt-0.5" /> : <CheckCircle size={20} className="shrink-0 mt-0.5" />}
-                    <div className="flex-1 text-xs font-medium">
+                    <div className="flex-1 text-xs font-medium whitespace-pre-line">
                         {state.solverMsg.text}
                     </div>
                     <button onClick={() => dispatch({ type: 'DISMISS_MESSAGE', payload: undefined })} className="p-0.5 hover:bg-black/10 dark:hover:bg-white/20 rounded"><X size={14} /></button>
@@ -817,6 +1194,35 @@ export const Controls: React.FC = () => {
             )}
         </div>
 
+        {/* RESIDUAL REPORT (Blunder Detection) */}
+        {selectedPoly && residualReport.length > 0 && !state.isDrawingMode && !state.alignState && (
+            <div className="pointer-events-auto absolute bottom-28 left-4 z-20 w-56 bg-white/95 dark:bg-slate-800/95 backdrop-blur-md rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-100 animate-in fade-in">
+                <button onClick={() => setShowResiduals(!showResiduals)} className="w-full flex items-center gap-2 px-3 py-2 text-xs font-bold uppercase tracking-wider text-slate-500">
+                    <Activity size={14} className="text-orange-500" /> Residuals
+                    <span className="ml-auto">{showResiduals ? <ChevronDown size={14}/> : <ChevronRight size={14}/>}</span>
+                </button>
+                {showResiduals && (
+                    <div className="px-2 pb-2 space-y-0.5">
+                        {residualReport.map(edge => {
+                            const abs = Math.abs(edge.residual!);
+                            const color = abs >= RESIDUAL_ERROR ? 'text-red-500' : (abs >= RESIDUAL_WARNING ? 'text-orange-500' : 'text-slate-400');
+                            return (
+                                <div
+                                    key={edge.id}
+                                    onClick={() => dispatch({ type: 'SELECT_EDGE', payload: { edgeId: edge.id, multi: false } })}
+                                    className={`flex items-center justify-between px-2 py-1 rounded cursor-pointer text-xs font-mono hover:bg-slate-100 dark:hover:bg-slate-700 ${state.selectedEdgeIds.includes(edge.id) ? 'bg-brand-100 dark:bg-brand-900/50' : ''}`}
+                                >
+                                    <span className="font-bold">{getEdgeLabel(selectedPoly, edge)}{edge.type === EdgeType.DIAGONAL ? ' (diag)' : ''}</span>
+                                    <span className="text-slate-400">{formatLength(edge.length, state.unitSystem)}</span>
+                                    <span className={`font-bold ${color}`}>{formatResidual(edge.residual!, state.unitSystem)}</span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        )}
+
         {/* BOTTOM TOOLBAR ... (Unchanged) */}
         {showBottomToolbar && (
             <div className="pointer-events-auto absolute bottom-6 left-0 right-0 flex justify-center z-30 animate-in slide-in-from-bottom-4">
@@ -829,6 +1235,10 @@ export const Controls: React.FC = () => {
                           </>
                       )}
                       {selectedPoly && (<button onClick={() => dispatch({ type: 'RECONSTRUCT_GEOMETRY', payload: selectedPoly!.id })} className="p-3 rounded-xl flex flex-col items-center gap-1 min-w-[60px] hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"><RefreshCw size={20} className={selectedPoly.isLocked ? "text-green-500" : "text-slate-500"} /><span className="text-[9px] font-bold uppercase tracking-wider">Solve</span></button>)}
+                      {selectedPoly && selectedPoly.isClosed && !selectedPoly.isLocked && (<button onClick={() => dispatch({ type: 'SHOW_DIAGONAL_SUGGESTIONS', payload: state.diagonalSuggestionPolygonId === selectedPoly.id ? null : selectedPoly.id })} className={`p-3 rounded-xl flex flex-col items-center gap-1 min-w-[60px] ${state.diagonalSuggestionPolygonId === selectedPoly.id ? 'bg-brand-100 dark:bg-brand-900/50 text-brand-700 dark:text-brand-300' : 'hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200'}`}><TriangleDashed size={20} /><span className="text-[9px] font-bold uppercase tracking-wider">Diagonals</span></button>)}
+                      {selectedPoly && selectedPoly.isClosed && (<button onClick={() => dispatch({ type: 'START_GUIDED_MEASURE', payload: selectedPoly!.id })} className="p-3 rounded-xl flex flex-col items-center gap-1 min-w-[60px] hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"><ClipboardList size={20} className={unmeasuredCount > 0 ? "text-amber-500" : "text-slate-500"} /><span className="text-[9px] font-bold uppercase tracking-wider">Measure</span></button>)}
+                      {selectedPoly && isTraverse && (<button onClick={() => setShowTraverse(true)} className="p-3 rounded-xl flex flex-col items-center gap-1 min-w-[60px] hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"><Footprints size={20} className={selectedPoly.traverse ? "text-green-500" : "text-slate-500"} /><span className="text-[9px] font-bold uppercase tracking-wider">Traverse</span></button>)}
+                      {selectedPoly && (selectedPoly.groupId || hasCrossEdges(selectedPoly)) && (<button onClick={() => dispatch({ type: 'SOLVE_GROUP', payload: selectedPoly!.id })} className="p-3 rounded-xl flex flex-col items-center gap-1 min-w-[60px] hover:bg-slate-100 dark:hover:bg-slate-700 text-purple-600 dark:text-purple-400"><Network size={20} /><span className="text-[9px] font-bold uppercase tracking-wider">Group</span></button>)}
                       {selectedPoly && (<div className="w-px h-8 bg-slate-300 dark:bg-slate-600 mx-1"></div>)}
                       {selectedPoly && (<button onClick={() => dispatch({ type: 'START_ALIGN_MODE', payload: undefined })} disabled={!selectedPoly.isLocked} className={`p-3 rounded-xl flex flex-col items-center gap-1 min-w-[60px] ${!selectedPoly.isLocked ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-100 dark:hover:bg-slate-700 text-purple-600 dark:text-purple-400'}`}><AlignStartVertical size={20} /><span className="text-[9px] font-bold uppercase tracking-wider">Align</span></button>)}
                       {selectedPoly && (<button onClick={() => dispatch({ type: 'MIRROR_POLYGON', payload: { axis: 'X' } })} className="p-3 rounded-xl flex flex-col items-center gap-1 min-w-[60px] hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200"><FlipHorizontal size={20} /><span className="text-[9px] font-bold uppercase tracking-wider">Flip X</span></button>)}
@@ -853,12 +1263,12 @@ export const Controls: React.FC = () => {
                     {state.alignState.step === 'ADJUST' && (
                         <div className="space-y-4">
                              <div>
-                                <div className="flex justify-between text-xs font-bold text-slate-500 uppercase mb-1"><span>Offset (Slide)</span><span>{state.alignState.offset.toFixed(2)} m</span></div>
-                                <input type="range" min="-5" max="5" step="0.05" value={state.alignState.offset} onChange={(e) => dispatch({ type: 'UPDATE_ALIGN_PARAMS', payload: { offset: parseFloat(e.target.value) } })} className="w-full h-1 bg-slate-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer accent-purple-500" />
+                                <div className="flex justify-between text-xs font-bold text-slate-500 uppercase mb-1"><span>Offset (Slide)</span><span>{formatLength(state.alignState.offset, state.unitSystem)}</span></div>
+                                <input type="range" min={-Math.round(5 / decimalUnit.meters)} max={Math.round(5 / decimalUnit.meters)} step={decimalUnit.step} value={state.alignState.offset / decimalUnit.meters} onChange={(e) => dispatch({ type: 'UPDATE_ALIGN_PARAMS', payload: { offset: fromDecimalUnit(parseFloat(e.target.value)) } })} className="w-full h-1 bg-slate-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer accent-purple-500" />
                              </div>
                              <div>
-                                <div className="flex justify-between text-xs font-bold text-slate-500 uppercase mb-1"><span>Gap (Distance)</span><span>{state.alignState.dist.toFixed(2)} m</span></div>
-                                <input type="range" min="0" max="2" step="0.01" value={state.alignState.dist} onChange={(e) => dispatch({ type: 'UPDATE_ALIGN_PARAMS', payload: { dist: parseFloat(e.target.value) } })} className="w-full h-1 bg-slate-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer accent-purple-500" />
+                                <div className="flex justify-between text-xs font-bold text-slate-500 uppercase mb-1"><span>Gap (Distance)</span><span>{formatLength(state.alignState.dist, state.unitSystem)}</span></div>
+                                <input type="range" min="0" max={Math.round(2 / decimalUnit.meters)} step={decimalUnit.step / 5} value={state.alignState.dist / decimalUnit.meters} onChange={(e) => dispatch({ type: 'UPDATE_ALIGN_PARAMS', payload: { dist: fromDecimalUnit(parseFloat(e.target.value)) } })} className="w-full h-1 bg-slate-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer accent-purple-500" />
                              </div>
                              <button onClick={() => dispatch({ type: 'CONFIRM_ALIGNMENT', payload: undefined })} className="w-full py-3 bg-purple-600 hover:bg-purple-500 text-white font-bold rounded-xl shadow-lg mt-2">APPLY</button>
                         </div>
@@ -883,6 +1293,18 @@ export const Controls: React.FC = () => {
             </div>
         )}
         
+        {dxfImport && (
+            <DxfImportDialog drawing={dxfImport.drawing} fileName={dxfImport.fileName} onClose={() => setDxfImport(null)} />
+        )}
+
+        {showPlanExport && (
+            <PlanExportDialog fileName={exportFileName} onClose={() => setShowPlanExport(false)} />
+        )}
+
+        {showTraverse && selectedPoly && (
+            <TraverseDialog polygon={selectedPoly} onClose={() => setShowTraverse(false)} />
+        )}
+
         {/* CUSTOM CONTEXT MENU */}
         {state.contextMenu && (
             <div className="fixed inset-0 z-[100] pointer-events-auto">
@@ -898,7 +1320,7 @@ export const Controls: React.FC = () => {
                          <>
                             <div className="px-3 py-1.5 text-xs font-bold text-slate-400 uppercase tracking-wider">Canvas Actions</div>
                             <button onClick={handleAddPolygonAtContext} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><Plus size={16} className="text-brand-500" /> Add Polygon Here</button>
-                            <button onClick={handleContextImport} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><FileJson size={16} className="text-slate-400" /> Import Data</button>
+                            <button onClick={handleContextImport} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><FileJson size={16} className="text-slate-400" /> Import Data Here</button>
                          </>
                      )}
 
@@ -907,6 +1329,11 @@ export const Controls: React.FC = () => {
                             <div className="px-3 py-1.5 text-xs font-bold text-slate-400 uppercase tracking-wider">Polygon Actions</div>
                             <button onClick={() => { dispatch({ type: 'DUPLICATE_POLYGON', payload: state.contextMenu?.targetId }); dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined }); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><Copy size={16} className="text-slate-400" /> Duplicate</button>
                              <button onClick={() => { if (state.contextMenu?.targetId) { dispatch({ type: 'RECONSTRUCT_GEOMETRY', payload: state.contextMenu.targetId }); } dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined }); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><RefreshCw size={16} className="text-brand-500" /> Solve Geometry</button>
+                             <button onClick={() => { if (state.contextMenu?.targetId) { dispatch({ type: 'START_GUIDED_MEASURE', payload: state.contextMenu.targetId }); } }} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><ClipboardList size={16} className="text-amber-500" /> Guided Measurement</button>
+                             <button onClick={() => openLaserImport(state.contextMenu?.targetId)} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><FileSpreadsheet size={16} className="text-teal-500" /> Import Laser Log…</button>
+                             {(() => { const p = state.polygons.find(p => p.id === state.contextMenu?.targetId); return p && (p.groupId || hasCrossEdges(p)); })() && (
+                                <button onClick={() => { if (state.contextMenu?.targetId) { dispatch({ type: 'SOLVE_GROUP', payload: state.contextMenu.targetId }); } dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined }); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><Network size={16} className="text-purple-500" /> Solve Group</button>
+                             )}
                              <div className="h-px bg-slate-200 dark:bg-slate-700 my-1"></div>
                             <button onClick={() => { if (state.contextMenu?.targetId) { dispatch({ type: 'DELETE_POLYGON', payload: state.contextMenu.targetId }); } dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined }); }} className="w-full text-left px-3 py-2 text-sm text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 flex items-center gap-2"><Trash2 size={16} /> Delete</button>
                          </>
@@ -925,19 +1352,30 @@ export const Controls: React.FC = () => {
                      {state.contextMenu.type === 'VERTEX' && state.contextMenu.targetId && (
                          <>
                             <div className="px-3 py-1.5 text-xs font-bold text-slate-400 uppercase tracking-wider">Vertex Actions</div>
-                            <AngleInput 
-                                vertexId={state.contextMenu.targetId}
-                                initialAngle={
-                                    state.polygons.find(p => p.vertices.some(v => v.id === state.contextMenu?.targetId))
-                                    ?.vertices.find(v => v.id === state.contextMenu?.targetId)?.fixedAngle
-                                }
-                                onUpdate={(val) => {
-                                    if (state.contextMenu?.targetId) {
-                                        dispatch({ type: 'SET_VERTEX_ANGLE', payload: { vertexId: state.contextMenu.targetId, angle: val, shouldClose: false } });
+                            <div className="flex items-center gap-1 px-3 py-1.5">
+                                <AngleInput 
+                                    vertexId={state.contextMenu.targetId}
+                                    initialAngle={
+                                        state.polygons.find(p => p.vertices.some(v => v.id === state.contextMenu?.targetId))
+                                        ?.vertices.find(v => v.id === state.contextMenu?.targetId)?.fixedAngle
                                     }
-                                }}
-                            />
-                            <button onClick={() => { if (state.contextMenu?.targetId) { dispatch({ type: 'SET_VERTEX_ANGLE', payload: { vertexId: state.contextMenu.targetId, angle: 90 } }); } dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined }); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><Square size={16} className="text-amber-500" /> Fix 90°</button>
+                                    onUpdate={(val) => {
+                                        if (state.contextMenu?.targetId) {
+                                            dispatch({ type: 'SET_VERTEX_ANGLE', payload: { vertexId: state.contextMenu.targetId, angle: val, shouldClose: false } });
+                                        }
+                                    }}
+                                />
+                                <span className="text-[10px] text-slate-400 font-mono ml-1">meas. {getMeasuredAngle(state.contextMenu.targetId)?.toFixed(1) ?? '-'}°</span>
+                            </div>
+                            <div className="flex gap-1 px-3 pb-1">
+                                {ANGLE_PRESETS.map(angle => (
+                                    <button key={angle} onClick={() => { if (state.contextMenu?.targetId) { dispatch({ type: 'SET_VERTEX_ANGLE', payload: { vertexId: state.contextMenu.targetId, angle } }); } dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined }); }} className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs font-bold text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 hover:bg-amber-100 dark:hover:bg-amber-900/40">{angle === 90 && <Square size={12} className="text-amber-500" />}{angle}°</button>
+                                ))}
+                            </div>
+                            <button onClick={() => { if (state.contextMenu?.targetId) { dispatch({ type: 'TOGGLE_VERTEX_FLIP', payload: state.contextMenu.targetId }); } dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined }); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><FlipHorizontal2 size={16} className="text-purple-500" /> Flip Solution</button>
+                            {state.polygons.length > 1 && (
+                                <button onClick={() => { if (state.contextMenu?.targetId) { dispatch({ type: 'START_CROSS_EDGE', payload: state.contextMenu.targetId }); } dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined }); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><Waypoints size={16} className="text-teal-500" /> Measure to Other Room</button>
+                            )}
                             <button onClick={() => { if (state.contextMenu?.targetId) { dispatch({ type: 'SET_VERTEX_ANGLE', payload: { vertexId: state.contextMenu.targetId, angle: undefined } }); } dispatch({ type: 'CLOSE_CONTEXT_MENU', payload: undefined }); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"><Ban size={16} className="text-slate-400" /> Free Angle</button>
                          </>
                      )}
@@ -953,7 +1391,7 @@ export const Controls: React.FC = () => {
              >
                     {/* ... Edge Editor Content (Same as before) ... */}
                     <div className="flex justify-between items-center mb-1">
-                        <span className="text-brand-600 dark:text-brand-400 font-bold text-xs uppercase flex items-center gap-2"><Ruler size={14}/> Edit Edge</span>
+                        <span className="text-brand-600 dark:text-brand-400 font-bold text-xs uppercase flex items-center gap-2">{selectedEdge.type === EdgeType.CROSS ? <><Waypoints size={14}/> Measurement</> : <><Ruler size={14}/> Edit Edge</>}</span>
                         <div className="flex gap-1">
                             {selectedEdge.type === EdgeType.PERIMETER && (
                                 <>
@@ -966,27 +1404,38 @@ export const Controls: React.FC = () => {
                                 <button onClick={() => dispatch({ type: 'START_JOIN_MODE', payload: selectedEdge.id })} className="text-yellow-600 dark:text-yellow-400 hover:bg-yellow-50 dark:hover:bg-yellow-900/30 p-1.5 rounded" title="Join / Snap"><ArrowRightLeft size={14} /></button>
                             )}
                             {selectedEdge.linkedEdgeId && (<button onClick={() => dispatch({ type: 'UNLINK_EDGE', payload: selectedEdge.id })} className="text-[10px] bg-brand-50 dark:bg-brand-900/50 text-brand-600 dark:text-brand-200 px-2 py-1 rounded border border-brand-200 dark:border-brand-700 flex items-center gap-1 hover:bg-red-50 dark:hover:bg-red-900/50 hover:text-red-500" title="Unlink"><Unlink size={10} /> LINKED</button>)}
-                            {selectedEdge.type === EdgeType.DIAGONAL && (<button onClick={() => dispatch({ type: 'DELETE_EDGE', payload: selectedEdge.id })} className="text-red-500 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 p-1.5 rounded" title="Delete"><Trash2 size={14} /></button>)}
+                            {(selectedEdge.type === EdgeType.DIAGONAL || selectedEdge.type === EdgeType.CROSS) && (<button onClick={() => dispatch({ type: 'DELETE_EDGE', payload: selectedEdge.id })} className="text-red-500 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 p-1.5 rounded" title="Delete"><Trash2 size={14} /></button>)}
                             <button onClick={() => dispatch({ type: 'SELECT_EDGE', payload: null })} className="text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 p-1.5 rounded" title="Close"><X size={14} /></button>
                         </div>
                     </div>
                     <div className="flex gap-2">
-                        <input key={`len-${selectedEdge.id}`} type="number" inputMode="decimal" value={localLength} onChange={(e) => setLocalLength(e.target.value)} onBlur={commitEdgeUpdate} onKeyDown={handleEdgeKeyDown} className="flex-1 bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-2 text-lg font-mono text-slate-900 dark:text-white focus:border-brand-500 focus:outline-none" step="0.01"/>
-                        <div className="flex flex-col justify-center text-slate-500 dark:text-slate-400 font-bold text-xs">cm</div>
+                        <input key={`len-${selectedEdge.id}`} type="text" inputMode={state.unitSystem === 'metric' ? 'decimal' : 'text'} value={localLength} onChange={(e) => setLocalLength(e.target.value)} onBlur={commitEdgeUpdate} onKeyDown={handleEdgeKeyDown} readOnly={!!selectedEdge.readings?.length} title={selectedEdge.readings?.length ? `${READING_AVERAGE_LABELS[selectedEdge.readingAverage ?? 'mean']} of the readings below` : undefined} className="flex-1 read-only:text-slate-500 dark:read-only:text-slate-400 bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-2 text-lg font-mono text-slate-900 dark:text-white focus:border-brand-500 focus:outline-none"/>
+                        <div className="flex flex-col justify-center text-slate-500 dark:text-slate-400 font-bold text-xs">{state.unitSystem === 'imperial' ? 'ft-in' : 'cm'}</div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        {(['tape', 'laser'] as const).map(instrument => (
+                            <button key={instrument} onClick={() => dispatch({ type: 'SET_EDGE_PRECISION', payload: { edgeId: selectedEdge.id, instrument, sigma: undefined } })} className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${(selectedEdge.instrument ?? 'tape') === instrument ? 'bg-brand-100 dark:bg-brand-900/50 text-brand-700 dark:text-brand-300' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700'}`}>{instrument}</button>
+                        ))}
+                        <div className="ml-auto flex items-center bg-slate-100 dark:bg-slate-900 rounded px-1">
+                            <span className="text-[10px] text-slate-400">±</span>
+                            <input type="number" step="0.5" min="0.1" placeholder={(INSTRUMENT_SIGMA[selectedEdge.instrument ?? 'tape'] * 1000).toString()} value={localSigma} onChange={(e) => setLocalSigma(e.target.value)} onBlur={commitSigmaUpdate} onKeyDown={(e) => { e.stopPropagation(); handleEdgeKeyDown(e); }} className="w-12 bg-transparent border-none py-1 text-xs font-mono text-slate-900 dark:text-slate-100 focus:outline-none text-right" title={`Standard deviation (${(getEdgeSigma(selectedEdge) * 1000).toFixed(1)} mm)`} />
+                            <span className="text-[9px] text-slate-400">mm</span>
+                        </div>
                     </div>
+                    <EdgeReadings edge={selectedEdge} />
                     {selectedEdge.type === EdgeType.PERIMETER && (
                         <div className="pt-2 border-t border-slate-200 dark:border-slate-700 flex flex-col gap-1">
-                             <div className="flex justify-between text-[10px] text-slate-500 uppercase font-bold"><span>Thickness</span><span>{selectedEdge.thickness || 10} cm</span></div>
-                             <input type="range" min="1" max="100" value={selectedEdge.thickness || 10} onChange={(e) => dispatch({ type: 'UPDATE_EDGE_THICKNESS', payload: { edgeId: selectedEdge.id, thickness: parseInt(e.target.value) } })} className="w-full h-1.5 bg-slate-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer accent-brand-500"/>
+                             <div className="flex justify-between text-[10px] text-slate-500 uppercase font-bold"><span>Thickness</span><span>{formatThickness(selectedEdge.thickness || 10, state.unitSystem)}</span></div>
+                             <input type="range" min={thicknessSlider.min} max={thicknessSlider.max} step={thicknessSlider.step} value={(selectedEdge.thickness || 10) / thicknessSlider.cm} onChange={(e) => dispatch({ type: 'UPDATE_EDGE_THICKNESS', payload: { edgeId: selectedEdge.id, thickness: parseFloat((parseFloat(e.target.value) * thicknessSlider.cm).toFixed(2)) } })} className="w-full h-1.5 bg-slate-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer accent-brand-500"/>
                         </div>
                     )}
                     {selectedEdge.feature && (
                         <div className="pt-2 border-t border-slate-200 dark:border-slate-700 flex flex-col gap-2">
-                             <div className="flex gap-2 items-center"><span className="text-[10px] uppercase font-bold text-slate-500 w-16">Width</span><input className="flex-1 bg-slate-100 dark:bg-slate-900 border-none rounded px-2 py-1 text-sm font-mono text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 outline-none" type="number" step="0.05" value={selectedEdge.featureWidth || (selectedEdge.feature === 'door' ? 0.8 : 1.2)} onChange={(e) => dispatch({ type: 'SET_EDGE_FEATURE', payload: { edgeId: selectedEdge.id, feature: selectedEdge.feature, width: parseFloat(e.target.value) } })} /><span className="text-[10px] text-slate-400">m</span></div>
+                             <div className="flex gap-2 items-center"><span className="text-[10px] uppercase font-bold text-slate-500 w-16">Width</span><input className="flex-1 bg-slate-100 dark:bg-slate-900 border-none rounded px-2 py-1 text-sm font-mono text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 outline-none" type="number" step={decimalUnit.step} value={toDecimalUnit(selectedEdge.featureWidth || (selectedEdge.feature === 'door' ? 0.8 : 1.2))} onChange={(e) => dispatch({ type: 'SET_EDGE_FEATURE', payload: { edgeId: selectedEdge.id, feature: selectedEdge.feature, width: fromDecimalUnit(parseFloat(e.target.value)) } })} /><span className="text-[10px] text-slate-400">{decimalUnit.label}</span></div>
                              <div className="flex gap-1 items-center justify-between">
-                                 <div className="flex flex-col flex-1"><span className="text-[8px] uppercase font-bold text-slate-400 mb-0.5 ml-1">From {selectedEdgePoly?.vertices.find(v => v.id === selectedEdge.startVertexId)?.label || 'A'}</span><div className="flex items-center bg-slate-100 dark:bg-slate-900 rounded px-1"><input type="number" step="0.05" value={selectedEdge.featureDistance !== undefined ? selectedEdge.featureDistance.toFixed(2) : ((selectedEdge.length - (selectedEdge.featureWidth || 0.8))/2).toFixed(2)} onChange={(e) => { const val = parseFloat(e.target.value); if (!isNaN(val)) { dispatch({ type: 'SET_EDGE_FEATURE', payload: { edgeId: selectedEdge.id, feature: selectedEdge.feature, distance: val } }); } }} className="w-full bg-transparent border-none py-1 text-sm font-mono text-slate-900 dark:text-slate-100 focus:outline-none" /><span className="text-[9px] text-slate-400">m</span></div></div>
+                                 <div className="flex flex-col flex-1"><span className="text-[8px] uppercase font-bold text-slate-400 mb-0.5 ml-1">From {selectedEdgePoly?.vertices.find(v => v.id === selectedEdge.startVertexId)?.label || 'A'}</span><div className="flex items-center bg-slate-100 dark:bg-slate-900 rounded px-1"><input type="number" step={decimalUnit.step} value={toDecimalUnit(selectedEdge.featureDistance !== undefined ? selectedEdge.featureDistance : (selectedEdge.length - (selectedEdge.featureWidth || 0.8))/2)} onChange={(e) => { const val = parseFloat(e.target.value); if (!isNaN(val)) { dispatch({ type: 'SET_EDGE_FEATURE', payload: { edgeId: selectedEdge.id, feature: selectedEdge.feature, distance: fromDecimalUnit(val) } }); } }} className="w-full bg-transparent border-none py-1 text-sm font-mono text-slate-900 dark:text-slate-100 focus:outline-none" /><span className="text-[9px] text-slate-400">{decimalUnit.label}</span></div></div>
                                  <div className="text-slate-300 dark:text-slate-600 px-1 mt-3">↔</div>
-                                 <div className="flex flex-col flex-1"><span className="text-[8px] uppercase font-bold text-slate-400 mb-0.5 ml-1">From {selectedEdgePoly?.vertices.find(v => v.id === selectedEdge.endVertexId)?.label || 'B'}</span><div className="flex items-center bg-slate-100 dark:bg-slate-900 rounded px-1"><input type="number" step="0.05" value={(() => { const dist = selectedEdge.featureDistance !== undefined ? selectedEdge.featureDistance : (selectedEdge.length - (selectedEdge.featureWidth || 0.8))/2; const w = selectedEdge.featureWidth || (selectedEdge.feature === 'door' ? 0.8 : 1.2); return (selectedEdge.length - dist - w).toFixed(2); })()} onChange={(e) => { const val = parseFloat(e.target.value); if (!isNaN(val)) { const w = selectedEdge.featureWidth || (selectedEdge.feature === 'door' ? 0.8 : 1.2); const newStartDist = selectedEdge.length - w - val; dispatch({ type: 'SET_EDGE_FEATURE', payload: { edgeId: selectedEdge.id, feature: selectedEdge.feature, distance: newStartDist } }); } }} className="w-full bg-transparent border-none py-1 text-sm font-mono text-slate-900 dark:text-slate-100 focus:outline-none" /><span className="text-[9px] text-slate-400">m</span></div></div>
+                                 <div className="flex flex-col flex-1"><span className="text-[8px] uppercase font-bold text-slate-400 mb-0.5 ml-1">From {selectedEdgePoly?.vertices.find(v => v.id === selectedEdge.endVertexId)?.label || 'B'}</span><div className="flex items-center bg-slate-100 dark:bg-slate-900 rounded px-1"><input type="number" step={decimalUnit.step} value={(() => { const dist = selectedEdge.featureDistance !== undefined ? selectedEdge.featureDistance : (selectedEdge.length - (selectedEdge.featureWidth || 0.8))/2; const w = selectedEdge.featureWidth || (selectedEdge.feature === 'door' ? 0.8 : 1.2); return toDecimalUnit(selectedEdge.length - dist - w); })()} onChange={(e) => { const val = parseFloat(e.target.value); if (!isNaN(val)) { const w = selectedEdge.featureWidth || (selectedEdge.feature === 'door' ? 0.8 : 1.2); const newStartDist = selectedEdge.length - w - fromDecimalUnit(val); dispatch({ type: 'SET_EDGE_FEATURE', payload: { edgeId: selectedEdge.id, feature: selectedEdge.feature, distance: newStartDist } }); } }} className="w-full bg-transparent border-none py-1 text-sm font-mono text-slate-900 dark:text-slate-100 focus:outline-none" /><span className="text-[9px] text-slate-400">{decimalUnit.label}</span></div></div>
                              </div>
                         </div>
                     )}
@@ -1000,7 +1449,13 @@ export const Controls: React.FC = () => {
                 style={{ top: vertexEditorPos.y, left: vertexEditorPos.x }}
              >
                 <div className="flex items-center gap-1 border-r border-slate-200 dark:border-slate-700 pr-2 mr-0.5">
-                    <span className="text-[10px] font-bold uppercase text-slate-400">Angle</span>
+                    <div className="flex flex-col">
+                        <span className="text-[10px] font-bold uppercase text-slate-400">Angle</span>
+                        <span className="text-[9px] font-mono text-slate-400">meas. {getMeasuredAngle(state.openVertexMenuId)?.toFixed(1) ?? '-'}°</span>
+                        {openVertex?.errorEllipse && findVertex(state.polygons, openVertex.id)?.polygon.isLocked && (
+                            <span className="text-[9px] font-mono text-emerald-500" title="1σ error ellipse (semi-axes)">σ {(openVertex.errorEllipse.major * 1000).toFixed(1)}×{(openVertex.errorEllipse.minor * 1000).toFixed(1)}mm</span>
+                        )}
+                    </div>
                 </div>
                 
                 {/* Use Helper Component */}
@@ -1017,18 +1472,47 @@ export const Controls: React.FC = () => {
                     }}
                 />
 
+                {ANGLE_PRESETS.map(angle => (
+                    <button 
+                        key={angle}
+                        onClick={() => {
+                            if (state.openVertexMenuId) {
+                                dispatch({ type: 'SET_VERTEX_ANGLE', payload: { vertexId: state.openVertexMenuId, angle } });
+                            }
+                        }}
+                        className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 flex flex-col items-center gap-1"
+                        title={`Fix ${angle} Degrees`}
+                    >
+                        {angle === 90 ? <Square size={16} className="text-amber-500" /> : <span className="text-[11px] leading-4 font-bold text-amber-500">∠</span>}
+                        <span className="text-[9px] font-bold uppercase">{angle}°</span>
+                    </button>
+                ))}
                 <button 
                     onClick={() => {
                         if (state.openVertexMenuId) {
-                            dispatch({ type: 'SET_VERTEX_ANGLE', payload: { vertexId: state.openVertexMenuId, angle: 90 } });
+                            dispatch({ type: 'TOGGLE_VERTEX_FLIP', payload: state.openVertexMenuId });
                         }
                     }}
-                    className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 flex flex-col items-center gap-1"
-                    title="Fix 90 Degrees"
+                    className={`p-2 rounded-lg flex flex-col items-center gap-1 ${openVertex?.flipped ? 'bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                    title="Flip to alternative (mirror) solution"
                 >
-                    <Square size={16} className="text-amber-500" />
-                    <span className="text-[9px] font-bold uppercase">90°</span>
+                    <FlipHorizontal2 size={16} className="text-purple-500" />
+                    <span className="text-[9px] font-bold uppercase">Flip</span>
                 </button>
+                {state.polygons.length > 1 && (
+                    <button 
+                        onClick={() => {
+                            if (state.openVertexMenuId) {
+                                dispatch({ type: 'START_CROSS_EDGE', payload: state.openVertexMenuId });
+                            }
+                        }}
+                        className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 flex flex-col items-center gap-1"
+                        title="Measure to a vertex in another room"
+                    >
+                        <Waypoints size={16} className="text-teal-500" />
+                        <span className="text-[9px] font-bold uppercase">Measure</span>
+                    </button>
+                )}
                 <button 
                     onClick={() => {
                         if (state.openVertexMenuId) {
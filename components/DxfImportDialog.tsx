@@ -0,0 +1,86 @@
+import React, { useState, useMemo } from 'react';
+import { useSurvey } from '../context/SurveyContext';
+import { FileType, X } from 'lucide-react';
+import { DxfDrawing, DXF_UNIT_METERS, guessDxfUnits, polygonsFromDXF } from '../utils/dxf';
+import { screenToWorld } from '../utils/geometry';
+
+// Layers written by our own plan export that never contain room outlines
+const NON_ROOM_LAYERS = ['DOORS', 'WINDOWS', 'DIAGONALS', 'MEASUREMENTS', 'DIMENSIONS'];
+
+export const DxfImportDialog: React.FC<{ drawing: DxfDrawing; fileName: string; onClose: () => void }> = ({ drawing, fileName, onClose }) => {
+    const { state, dispatch } = useSurvey();
+    const [layers, setLayers] = useState<string[]>(() => {
+        const candidates = drawing.layers.map(l => l.name).filter(name => !NON_ROOM_LAYERS.includes(name.toUpperCase()));
+        // Room outlines from a GeoSurvey plan export are enough on their own
+        const roomLayers = candidates.filter(name => name.toUpperCase().startsWith('ROOM-'));
+        return roomLayers.length > 0 ? roomLayers : candidates;
+    });
+    const [unitCode, setUnitCode] = useState(() => guessDxfUnits(drawing));
+
+    const polygons = useMemo(
+        () => polygonsFromDXF(drawing, layers, DXF_UNIT_METERS[unitCode].meters),
+        [drawing, layers, unitCode]
+    );
+
+    const toggleLayer = (name: string) =>
+        setLayers(prev => prev.includes(name) ? prev.filter(l => l !== name) : [...prev, name]);
+
+    const handleImport = () => {
+        // Drop the plan in the middle of the current view
+        const position = screenToWorld({ x: window.innerWidth / 2, y: window.innerHeight / 2 }, state.panOffset, state.zoomLevel, state.rotation);
+        dispatch({ type: 'MERGE_DATA', payload: { polygons, crossEdges: [], position } });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 pointer-events-auto">
+            <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" onClick={onClose}></div>
+            <div className="relative bg-white dark:bg-slate-800 rounded-2xl shadow-2xl max-w-sm w-full p-6 border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-200">
+                <div className="flex items-start justify-between gap-2 mb-1">
+                    <h3 className="text-lg font-bold flex items-center gap-2"><FileType className="text-brand-500" size={24}/> Import DXF</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full"><X size={18} className="text-slate-500" /></button>
+                </div>
+                <p className="text-xs text-slate-500 mb-4 truncate">{fileName}</p>
+
+                <label className="block mb-4">
+                    <span className="text-xs font-bold text-slate-500 uppercase">Drawing Units</span>
+                    <select
+                        value={unitCode}
+                        onChange={e => setUnitCode(parseInt(e.target.value, 10))}
+                        className="mt-1 w-full bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded px-2 py-1.5 text-sm outline-none focus:border-brand-500"
+                    >
+                        {Object.entries(DXF_UNIT_METERS).map(([code, unit]) => (
+                            <option key={code} value={code}>{unit.label}{Number(code) === drawing.insUnits ? ' (from file)' : ''}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <div className="text-xs font-bold text-slate-500 uppercase mb-1">Layers</div>
+                <div className="max-h-48 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-700 mb-4">
+                    {drawing.layers.length === 0 && (
+                        <div className="p-3 text-sm text-slate-500">No lines or polylines found.</div>
+                    )}
+                    {drawing.layers.map(layer => (
+                        <label key={layer.name} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                            <input type="checkbox" checked={layers.includes(layer.name)} onChange={() => toggleLayer(layer.name)} className="accent-brand-500" />
+                            <span className="flex-1 truncate">{layer.name}</span>
+                            <span className="text-[10px] font-mono text-slate-400">{layer.segments}</span>
+                        </label>
+                    ))}
+                </div>
+
+                {drawing.hasCurves && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mb-4">Arcs and curved polyline segments are flattened to straight chords.</p>
+                )}
+
+                <button
+                    onClick={handleImport}
+                    disabled={polygons.length === 0}
+                    className="w-full py-2.5 rounded-xl bg-brand-600 hover:bg-brand-700 text-white text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {polygons.length === 0 ? 'No closed loops found' : `Import ${polygons.length} Room${polygons.length !== 1 ? 's' : ''}`}
+                </button>
+            </div>
+        </div>
+    );
+};
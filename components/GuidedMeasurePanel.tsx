@@ -0,0 +1,125 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useSurvey } from '../context/SurveyContext';
+import { ClipboardList, X, Delete, SkipForward, Check, RefreshCw } from 'lucide-react';
+import { getEdgeLabel, distance, PIXELS_PER_METER } from '../utils/geometry';
+import { getGuidedTarget, getUnmeasuredEdges } from '../utils/guidedMeasure';
+import { analyseRigidity } from '../utils/rigidity';
+import { parseLength, formatLength } from '../utils/units';
+import { EdgeType, UnitSystem } from '../types';
+
+// Extra keys beside the digits: unit marks for feet and inches, metres for metric
+const EXTRA_KEYS: Record<UnitSystem, string[]> = {
+    metric: ['m'],
+    imperial: ["'", '"', ' ', '/']
+};
+
+const keyClass = "h-12 rounded-lg text-lg font-bold bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 active:bg-slate-300 dark:active:bg-slate-500 flex items-center justify-center";
+
+// Step-by-step entry for a room: each unmeasured wall in turn, then the diagonals it still needs, then solve
+export const GuidedMeasurePanel: React.FC = () => {
+    const { state, dispatch } = useSurvey();
+    const [text, setText] = useState('');
+    const guided = state.guidedMeasure;
+    const poly = guided ? state.polygons.find(p => p.id === guided.polygonId) : undefined;
+    const target = poly && guided ? getGuidedTarget(poly, guided) : null;
+    const targetKey = target ? (target.type === 'edge' ? target.edge.id : `${target.startVertexId}:${target.endVertexId}`) : null;
+
+    // A new step starts with an empty display
+    useEffect(() => { setText(''); }, [targetKey]);
+
+    const length = parseLength(text, state.unitSystem);
+    const canRecord = length !== null && length > 0;
+
+    const record = () => {
+        if (!canRecord || length === null) return;
+        dispatch({ type: 'RECORD_GUIDED_LENGTH', payload: length });
+    };
+    const press = (key: string) => setText(t => t + key);
+    const backspace = () => setText(t => t.slice(0, -1));
+
+    // Physical keyboard works too, unless another field has focus
+    const handlers = useRef({ record, press, backspace });
+    handlers.current = { record, press, backspace };
+    useEffect(() => {
+        if (!guided) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            const el = e.target as HTMLElement;
+            if (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || e.ctrlKey || e.metaKey || e.altKey) return;
+            if (e.key === 'Enter') handlers.current.record();
+            else if (e.key === 'Backspace') handlers.current.backspace();
+            else if (/^[0-9.,'" /m]$/.test(e.key)) handlers.current.press(e.key);
+            else return;
+            e.preventDefault();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [guided]);
+
+    if (!guided || !poly || !target || state.isDrawingMode) return null;
+
+    const start = poly.vertices.find(v => v.id === (target.type === 'edge' ? target.edge.startVertexId : target.startVertexId));
+    const end = poly.vertices.find(v => v.id === (target.type === 'edge' ? target.edge.endVertexId : target.endVertexId));
+    const title = target.type === 'edge'
+        ? `${target.edge.type === EdgeType.DIAGONAL ? 'Diagonal' : 'Wall'} ${getEdgeLabel(poly, target.edge)}`
+        : `New diagonal ${start?.label ?? '?'}-${end?.label ?? '?'}`;
+    const sketchLength = target.type === 'edge'
+        ? target.edge.length
+        : start && end ? distance(start, end) / PIXELS_PER_METER : 0;
+
+    const edgesLeft = getUnmeasuredEdges(poly).filter(e => !guided.skipped.includes(e.id)).length;
+    const diagonalsLeft = analyseRigidity(poly, guided.skipped).suggestions.length;
+    const progress = [
+        edgesLeft > 0 && `${edgesLeft} edge${edgesLeft !== 1 ? 's' : ''} to measure`,
+        diagonalsLeft > 0 && `${diagonalsLeft} new diagonal${diagonalsLeft !== 1 ? 's' : ''} needed`
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div className="pointer-events-auto absolute bottom-4 left-1/2 -translate-x-1/2 z-30 w-72 max-w-[calc(100%-2rem)] bg-white/95 dark:bg-slate-800/95 backdrop-blur-md rounded-xl shadow-xl border border-amber-400/60 text-slate-800 dark:text-slate-100 p-3 space-y-2 animate-in fade-in">
+            <div className="flex items-center gap-2">
+                <ClipboardList size={14} className="text-amber-500" />
+                <span className="flex-1 text-xs font-bold uppercase tracking-wider text-slate-500 truncate">Measure {poly.name}</span>
+                <button onClick={() => dispatch({ type: 'CANCEL_GUIDED_MEASURE', payload: undefined })} className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500" title="Stop without solving"><X size={14} /></button>
+            </div>
+
+            <div>
+                <div className="text-lg font-bold">{title}</div>
+                <div className="text-[11px] text-slate-500 dark:text-slate-400">
+                    Sketch: ~{formatLength(sketchLength, state.unitSystem)}{target.type === 'diagonal' && ' · needed to make the room rigid'}
+                </div>
+            </div>
+
+            <div className={`h-14 rounded-lg border-2 px-3 flex items-center justify-between font-mono ${text && !canRecord ? 'border-red-500' : 'border-amber-400'} bg-white dark:bg-slate-900`}>
+                <span className={`text-2xl font-bold truncate ${text ? '' : 'text-slate-300 dark:text-slate-600'}`}>{text || (state.unitSystem === 'imperial' ? `12' 6"` : '0')}</span>
+                <span className="text-xs text-slate-400 shrink-0 ml-2">{canRecord ? formatLength(length!, state.unitSystem) : state.unitSystem === 'imperial' ? 'in' : 'cm'}</span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-1.5">
+                {['7', '8', '9', '4', '5', '6', '1', '2', '3', '.', '0'].map(key => (
+                    <button key={key} onClick={() => press(key)} className={keyClass}>{key}</button>
+                ))}
+                <button onClick={backspace} className={keyClass} title="Delete"><Delete size={20} /></button>
+            </div>
+            <div className="grid grid-cols-4 gap-1.5">
+                {EXTRA_KEYS[state.unitSystem].map(key => (
+                    <button key={key} onClick={() => press(key)} className={`${keyClass} h-9 text-base font-mono`}>{key === ' ' ? '␣' : key}</button>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => dispatch({ type: 'SKIP_GUIDED_STEP', payload: undefined })} className="flex items-center justify-center gap-1 py-3 rounded-lg bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-sm font-bold text-slate-600 dark:text-slate-300">
+                    <SkipForward size={16} /> Skip
+                </button>
+                <button onClick={record} disabled={!canRecord} className="flex items-center justify-center gap-1 py-3 rounded-lg bg-amber-500 hover:bg-amber-600 text-white text-sm font-bold disabled:opacity-50">
+                    <Check size={16} /> OK
+                </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-2 text-[10px] text-slate-400">
+                <span>{progress}</span>
+                <button onClick={() => dispatch({ type: 'FINISH_GUIDED_MEASURE', payload: undefined })} className="flex items-center gap-1 font-bold text-brand-600 dark:text-brand-400 hover:underline shrink-0">
+                    <RefreshCw size={10} /> Solve now
+                </button>
+            </div>
+        </div>
+    );
+};
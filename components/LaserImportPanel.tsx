@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { useSurvey } from '../context/SurveyContext';
+import { FileSpreadsheet, X, GripVertical, ListOrdered, Check } from 'lucide-react';
+import { getEdgeLabel, getPerimeterEdgesInOrder } from '../utils/geometry';
+import { LASER_READING_MIME } from '../utils/laserCsv';
+import { formatLength } from '../utils/units';
+import { EdgeType, LaserReading } from '../types';
+
+const readingName = (reading: LaserReading, index: number) => `#${reading.label ?? index + 1}`;
+
+// Assigns the readings of a laser meter log to the edges of a room, then applies them as one undo step
+export const LaserImportPanel: React.FC = () => {
+    const { state, dispatch } = useSurvey();
+    const [startIndex, setStartIndex] = useState(0);
+    const [dropEdgeId, setDropEdgeId] = useState<string | null>(null);
+
+    const laserImport = state.laserImport;
+    const poly = laserImport ? state.polygons.find(p => p.id === laserImport.polygonId) : undefined;
+    if (!laserImport || !poly || state.isDrawingMode) return null;
+
+    const { readings, assignments } = laserImport;
+    const edges = [...getPerimeterEdgesInOrder(poly), ...poly.edges.filter(e => e.type === EdgeType.DIAGONAL)];
+    const edgeByReading = new Map(Object.entries(assignments).map(([edgeId, index]) => [index, poly.edges.find(e => e.id === edgeId)]));
+    const assignedCount = edges.filter(e => assignments[e.id] !== undefined).length;
+
+    const assign = (edgeId: string, readingIndex: number | null) =>
+        dispatch({ type: 'ASSIGN_LASER_READING', payload: { edgeId, readingIndex } });
+
+    const handleDrop = (e: React.DragEvent, edgeId: string) => {
+        e.preventDefault();
+        setDropEdgeId(null);
+        const index = parseInt(e.dataTransfer.getData(LASER_READING_MIME));
+        if (!isNaN(index)) assign(edgeId, index);
+    };
+
+    return (
+        <div className="pointer-events-auto absolute top-24 right-4 z-30 w-72 max-w-[calc(100%-2rem)] max-h-[calc(100%-8rem)] flex flex-col bg-white/95 dark:bg-slate-800/95 backdrop-blur-md rounded-xl shadow-xl border border-teal-400/60 text-slate-800 dark:text-slate-100 animate-in fade-in">
+            <div className="flex items-center gap-2 pl-3 pr-1 py-1 border-b border-slate-200 dark:border-slate-700">
+                <FileSpreadsheet size={14} className="text-teal-500 shrink-0" />
+                <span className="flex-1 min-w-0 text-xs font-bold uppercase tracking-wider text-slate-500 truncate" title={laserImport.fileName}>Laser log → {poly.name}</span>
+                <button onClick={() => dispatch({ type: 'CANCEL_LASER_IMPORT', payload: undefined })} className="p-1.5 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500" title="Cancel import"><X size={14} /></button>
+            </div>
+
+            <div className="flex items-center gap-1 px-3 py-2 text-xs">
+                <span className="text-slate-500">Walls in order from</span>
+                <select value={startIndex} onChange={(e) => setStartIndex(parseInt(e.target.value))} className="bg-slate-100 dark:bg-slate-900 rounded px-1 py-0.5 font-mono">
+                    {readings.map((r, i) => <option key={i} value={i}>{readingName(r, i)}</option>)}
+                </select>
+                <button onClick={() => dispatch({ type: 'ASSIGN_LASER_READINGS_IN_ORDER', payload: startIndex })} className="ml-auto flex items-center gap-1 px-2 py-1 rounded font-bold text-teal-700 dark:text-teal-300 bg-teal-50 dark:bg-teal-900/30 hover:bg-teal-100 dark:hover:bg-teal-900/50"><ListOrdered size={12} /> Fill</button>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto px-3 grid grid-cols-2 gap-3 text-xs">
+                <div>
+                    <div className="text-[10px] font-bold uppercase text-slate-400 mb-1">Readings ({readings.length})</div>
+                    {readings.map((r, i) => {
+                        const edge = edgeByReading.get(i);
+                        return (
+                            <div
+                                key={i}
+                                draggable
+                                onDragStart={(e) => { e.dataTransfer.setData(LASER_READING_MIME, i.toString()); e.dataTransfer.effectAllowed = 'link'; }}
+                                className={`flex items-center gap-1 py-0.5 rounded cursor-grab ${edge ? 'text-slate-400' : ''}`}
+                                title={r.timestamp ? new Date(r.timestamp).toLocaleString() : undefined}
+                            >
+                                <GripVertical size={10} className="text-slate-300 shrink-0" />
+                                <span className="text-[10px] text-slate-400 w-6 shrink-0 truncate">{readingName(r, i)}</span>
+                                <span className="font-mono truncate">{formatLength(r.value, state.unitSystem)}</span>
+                                {edge && <span className="ml-auto text-[9px] text-teal-600 dark:text-teal-400 shrink-0">{getEdgeLabel(poly, edge)}</span>}
+                            </div>
+                        );
+                    })}
+                </div>
+                <div>
+                    <div className="text-[10px] font-bold uppercase text-slate-400 mb-1">Edges</div>
+                    {edges.map(edge => (
+                        <div
+                            key={edge.id}
+                            onDragOver={(e) => { if (e.dataTransfer.types.includes(LASER_READING_MIME)) { e.preventDefault(); setDropEdgeId(edge.id); } }}
+                            onDragLeave={() => setDropEdgeId(null)}
+                            onDrop={(e) => handleDrop(e, edge.id)}
+                            className={`flex items-center gap-1 py-0.5 rounded ${dropEdgeId === edge.id ? 'bg-teal-100 dark:bg-teal-900/50' : ''}`}
+                        >
+                            <span className={`w-8 shrink-0 font-bold ${edge.type === EdgeType.DIAGONAL ? 'italic text-slate-500' : ''}`}>{getEdgeLabel(poly, edge)}</span>
+                            <select
+                                value={assignments[edge.id] ?? ''}
+                                onChange={(e) => assign(edge.id, e.target.value === '' ? null : parseInt(e.target.value))}
+                                className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-900 rounded px-1 py-0.5 font-mono text-[11px]"
+                                title={`Current: ${formatLength(edge.length, state.unitSystem)}`}
+                            >
+                                <option value="">—</option>
+                                {readings.map((r, i) => <option key={i} value={i}>{readingName(r, i)} {formatLength(r.value, state.unitSystem)}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="px-3 py-2 space-y-2 border-t border-slate-200 dark:border-slate-700 mt-2">
+                <p className="text-[10px] text-slate-400">Drag a reading onto an edge here or on the plan.</p>
+                <button onClick={() => dispatch({ type: 'APPLY_LASER_IMPORT', payload: undefined })} disabled={assignedCount === 0} className="w-full flex items-center justify-center gap-1 py-2 rounded-lg bg-teal-600 hover:bg-teal-700 text-white text-sm font-bold disabled:opacity-50">
+                    <Check size={16} /> Apply {assignedCount} length{assignedCount !== 1 ? 's' : ''}
+                </button>
+            </div>
+        </div>
+    );
+};
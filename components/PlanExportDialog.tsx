@@ -0,0 +1,120 @@
+import React, { useState, useMemo } from 'react';
+import { useSurvey } from '../context/SurveyContext';
+import { Printer, Download, X } from 'lucide-react';
+import { PaperSize, PaperOrientation, PlanExportOptions, PLAN_SCALES, getPlanFit, suggestPlanScale, generatePlanSVG, generatePlanPDF } from '../utils/planExport';
+import { getUnderlayJpeg } from '../utils/underlay';
+
+const selectClass = "mt-1 w-full bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded px-2 py-1.5 text-sm outline-none focus:border-brand-500";
+
+export const PlanExportDialog: React.FC<{ fileName: (extension: string) => string; onClose: () => void }> = ({ fileName, onClose }) => {
+    const { state, dispatch } = useSurvey();
+    const [paper, setPaper] = useState<PaperSize>('A4');
+    const [orientation, setOrientation] = useState<PaperOrientation>('landscape');
+    const [dimensions, setDimensions] = useState(state.showDimensions);
+    const [scale, setScale] = useState(() => suggestPlanScale(state.polygons, 'A4', 'landscape', state.showDimensions) ?? 100);
+    const [includeUnderlay, setIncludeUnderlay] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const fit = useMemo(() => getPlanFit(state.polygons, paper, orientation, scale, dimensions), [state.polygons, paper, orientation, scale, dimensions]);
+    const suggested = useMemo(() => suggestPlanScale(state.polygons, paper, orientation, dimensions), [state.polygons, paper, orientation, dimensions]);
+
+    const download = async (format: 'svg' | 'pdf') => {
+        const underlay = includeUnderlay && state.underlay ? state.underlay : undefined;
+        const options: PlanExportOptions = {
+            paper,
+            orientation,
+            scale,
+            unitSystem: state.unitSystem,
+            title: state.currentProject?.name ?? 'Untitled Survey',
+            metadata: state.currentProject?.metadata,
+            dimensions,
+            underlay
+        };
+        if (underlay && format === 'pdf') {
+            setIsExporting(true);
+            try {
+                options.underlayJpeg = await getUnderlayJpeg(underlay.src, underlay.width, underlay.height);
+            } catch (err) {
+                dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `Could not embed the underlay: ${(err as Error).message}` } });
+                return;
+            } finally {
+                setIsExporting(false);
+            }
+        }
+        const blob = format === 'svg'
+            ? new Blob([generatePlanSVG(state.polygons, options)], { type: 'image/svg+xml' })
+            // The PDF writer returns one character per byte
+            : new Blob([Uint8Array.from(generatePlanPDF(state.polygons, options), ch => ch.charCodeAt(0))], { type: 'application/pdf' });
+        const url = URL.createObjectURL(blob);
+        const downloadAnchorNode = document.createElement('a');
+        downloadAnchorNode.setAttribute("href", url);
+        downloadAnchorNode.setAttribute("download", fileName(format));
+        document.body.appendChild(downloadAnchorNode);
+        downloadAnchorNode.click();
+        downloadAnchorNode.remove();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 pointer-events-auto">
+            <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" onClick={onClose}></div>
+            <div className="relative bg-white dark:bg-slate-800 rounded-2xl shadow-2xl max-w-sm w-full p-6 border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-200">
+                <div className="flex items-start justify-between gap-2 mb-4">
+                    <h3 className="text-lg font-bold flex items-center gap-2"><Printer className="text-brand-500" size={24}/> Export Plan</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full"><X size={18} className="text-slate-500" /></button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 mb-4">
+                    <label className="block">
+                        <span className="text-xs font-bold text-slate-500 uppercase">Paper</span>
+                        <select value={paper} onChange={e => setPaper(e.target.value as PaperSize)} className={selectClass}>
+                            <option value="A4">A4</option>
+                            <option value="A3">A3</option>
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="text-xs font-bold text-slate-500 uppercase">Orientation</span>
+                        <select value={orientation} onChange={e => setOrientation(e.target.value as PaperOrientation)} className={selectClass}>
+                            <option value="landscape">Landscape</option>
+                            <option value="portrait">Portrait</option>
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="text-xs font-bold text-slate-500 uppercase">Scale</span>
+                        <select value={scale} onChange={e => setScale(parseInt(e.target.value, 10))} className={selectClass}>
+                            {PLAN_SCALES.map(s => <option key={s} value={s}>1:{s}</option>)}
+                        </select>
+                    </label>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm mb-4 cursor-pointer">
+                    <input type="checkbox" checked={dimensions} onChange={() => setDimensions(prev => !prev)} className="accent-brand-500" />
+                    Dimension lines
+                </label>
+
+                {state.underlay && (
+                    <label className="flex items-center gap-2 text-sm mb-4 cursor-pointer">
+                        <input type="checkbox" checked={includeUnderlay} onChange={e => setIncludeUnderlay(e.target.checked)} className="accent-brand-500" />
+                        Include underlay image
+                    </label>
+                )}
+
+                <div className={`text-xs rounded-lg p-3 mb-4 ${fit.fits ? 'bg-slate-100 dark:bg-slate-900 text-slate-600 dark:text-slate-400' : 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400'}`}>
+                    Plan size {Math.round(fit.width)} × {Math.round(fit.height)} mm.
+                    {!fit.fits && (suggested
+                        ? <> Too large for this sheet; <button onClick={() => setScale(suggested)} className="font-bold underline">use 1:{suggested}</button>.</>
+                        : ' Too large for this sheet at any scale; try a larger paper size.')}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => download('svg')} disabled={isExporting} className="flex items-center justify-center gap-2 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-sm font-bold">
+                        <Download size={16}/> SVG
+                    </button>
+                    <button onClick={() => download('pdf')} disabled={isExporting} className="flex items-center justify-center gap-2 py-2.5 rounded-xl bg-brand-600 hover:bg-brand-700 text-white text-sm font-bold">
+                        <Download size={16}/> PDF
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSurvey } from '../context/SurveyContext';
+import { FolderOpen, FolderPlus, Copy, Trash2, X, Loader2, AlertTriangle } from 'lucide-react';
+import { ProjectInfo, ProjectMetadata } from '../types';
+import { listProjects, loadProject, saveProject, deleteProject, duplicateProject, createProjectInfo, createSavedSurvey, createEmptySurvey } from '../utils/storage';
+
+const METADATA_FIELDS: { key: Exclude<keyof ProjectMetadata, 'notes'>; label: string; type: string }[] = [
+    { key: 'client', label: 'Client', type: 'text' },
+    { key: 'address', label: 'Address', type: 'text' },
+    { key: 'date', label: 'Survey Date', type: 'date' },
+    { key: 'surveyor', label: 'Surveyor', type: 'text' }
+];
+
+// Storage failures (quota, private browsing) with the browser's reason when it gives one
+const describeFailure = (failure: string, err: unknown) =>
+    err instanceof Error && err.message ? `${failure} ${err.message}` : failure;
+
+const inputClass = "w-full bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded px-2 py-1.5 text-sm text-slate-800 dark:text-slate-200 focus:border-brand-500 outline-none";
+
+export const ProjectList: React.FC = () => {
+    const { state, dispatch } = useSurvey();
+    const [projects, setProjects] = useState<ProjectInfo[]>([]);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const current = state.currentProject;
+
+    const refresh = useCallback(() => {
+        listProjects()
+            .then(setProjects)
+            .catch(err => setError(describeFailure('Could not load the project list.', err)));
+    }, []);
+
+    useEffect(() => {
+        setError(null);
+        if (state.isProjectListOpen) refresh();
+    }, [state.isProjectListOpen, refresh]);
+
+    if (!state.isProjectListOpen || !current) return null;
+
+    const close = () => dispatch({ type: 'TOGGLE_PROJECT_LIST', payload: undefined });
+
+    // Writes pending edits of the open project before leaving it (the autosave is debounced)
+    const flushCurrent = () => {
+        const now = Date.now();
+        return saveProject({ ...current, updatedAt: now, survey: createSavedSurvey(state, now) });
+    };
+
+    const runTask = async (task: () => Promise<void>, failure: string) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await task();
+        } catch (err) {
+            setError(describeFailure(failure, err));
+        } finally {
+            setIsBusy(false);
+            refresh();
+        }
+    };
+
+    const handleOpen = (id: string) => runTask(async () => {
+        await flushCurrent();
+        const stored = await loadProject(id);
+        if (!stored) throw new Error(`Project ${id} not found`);
+        const { survey, ...project } = stored;
+        dispatch({ type: 'OPEN_PROJECT', payload: { project, survey } });
+    }, 'Could not open the project.');
+
+    const handleCreate = () => runTask(async () => {
+        await flushCurrent();
+        const project = createProjectInfo(`Survey ${projects.length + 1}`);
+        const survey = createEmptySurvey(state.unitSystem, project.createdAt);
+        await saveProject({ ...project, survey });
+        dispatch({ type: 'OPEN_PROJECT', payload: { project, survey } });
+    }, 'Could not create the project.');
+
+    const handleDuplicate = (id: string) => runTask(async () => {
+        if (id === current.id) await flushCurrent();
+        const copy = await duplicateProject(id);
+        if (copy) dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'success', text: `Created "${copy.name}".` } });
+    }, 'Could not duplicate the project.');
+
+    const handleDelete = (project: ProjectInfo) => {
+        if (!window.confirm(`Delete project "${project.name}"? This cannot be undone.`)) return;
+        runTask(async () => {
+            if (project.id === current.id) {
+                // Leave the open project first so a pending autosave cannot bring it back
+                const next = (await listProjects()).find(p => p.id !== project.id);
+                const stored = next ? await loadProject(next.id) : null;
+                if (stored) {
+                    const { survey, ...info } = stored;
+                    dispatch({ type: 'OPEN_PROJECT', payload: { project: info, survey } });
+                } else {
+                    const blank = createProjectInfo('Untitled Survey');
+                    const survey = createEmptySurvey(state.unitSystem, blank.createdAt);
+                    await saveProject({ ...blank, survey });
+                    dispatch({ type: 'OPEN_PROJECT', payload: { project: blank, survey } });
+                }
+            }
+            await deleteProject(project.id);
+        }, 'Could not delete the project.');
+    };
+
+    const updateMetadata = (metadata: Partial<ProjectMetadata>) => dispatch({ type: 'UPDATE_PROJECT_INFO', payload: { metadata } });
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={close}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden text-slate-800 dark:text-slate-200" onClick={e => e.stopPropagation()}>
+                {/* Header */}
+                <div className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-900">
+                    <div className="flex items-center gap-2 font-bold text-brand-600 dark:text-brand-400">
+                        <FolderOpen size={20} />
+                        <span>Projects</span>
+                        {isBusy && <Loader2 size={16} className="animate-spin text-slate-400" />}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button onClick={handleCreate} disabled={isBusy} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-brand-600 hover:bg-brand-700 text-white text-sm font-bold disabled:opacity-50">
+                            <FolderPlus size={16} /> New Project
+                        </button>
+                        <button onClick={close} className="p-1 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full">
+                            <X size={20} className="text-slate-500" />
+                        </button>
+                    </div>
+                </div>
+
+                {error && (
+                    <div className="flex items-start gap-2 px-4 py-2 text-sm bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 border-b border-red-200 dark:border-red-900/50">
+                        <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                        <span className="flex-1">{error}</span>
+                        <button onClick={() => setError(null)} className="p-0.5 rounded hover:bg-red-100 dark:hover:bg-red-900/40" title="Dismiss"><X size={14} /></button>
+                    </div>
+                )}
+
+                <div className="flex-1 overflow-y-auto grid sm:grid-cols-2">
+                    {/* Current project details */}
+                    <div className="p-4 space-y-3 border-b sm:border-b-0 sm:border-r border-slate-200 dark:border-slate-700">
+                        <div className="text-xs font-bold text-slate-500 uppercase">Open Project</div>
+                        <label className="block">
+                            <span className="text-xs text-slate-500">Name</span>
+                            <input
+                                key={current.id}
+                                type="text"
+                                defaultValue={current.name}
+                                onBlur={e => dispatch({ type: 'UPDATE_PROJECT_INFO', payload: { name: e.target.value } })}
+                                onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                className={`${inputClass} font-bold`}
+                            />
+                        </label>
+                        {METADATA_FIELDS.map(field => (
+                            <label key={field.key} className="block">
+                                <span className="text-xs text-slate-500">{field.label}</span>
+                                <input
+                                    type={field.type}
+                                    value={current.metadata[field.key]}
+                                    onChange={e => updateMetadata({ [field.key]: e.target.value })}
+                                    className={inputClass}
+                                />
+                            </label>
+                        ))}
+                        <label className="block">
+                            <span className="text-xs text-slate-500">Notes</span>
+                            <textarea
+                                value={current.metadata.notes}
+                                onChange={e => updateMetadata({ notes: e.target.value })}
+                                rows={4}
+                                className={`${inputClass} resize-none`}
+                            />
+                        </label>
+                    </div>
+
+                    {/* All projects */}
+                    <div className="p-4 space-y-2">
+                        <div className="text-xs font-bold text-slate-500 uppercase">All Projects ({projects.length})</div>
+                        {projects.map(project => {
+                            const isCurrent = project.id === current.id;
+                            const name = isCurrent ? current.name : project.name;
+                            const metadata = isCurrent ? current.metadata : project.metadata;
+                            return (
+                                <div key={project.id} className={`p-3 rounded-lg border ${isCurrent ? 'border-brand-500 bg-brand-50 dark:bg-brand-900/20' : 'border-slate-200 dark:border-slate-700'}`}>
+                                    <div className="flex items-start justify-between gap-2">
+                                        <div className="min-w-0">
+                                            <div className="font-bold text-sm truncate">{name}</div>
+                                            {(metadata.client || metadata.address) && (
+                                                <div className="text-xs text-slate-500 truncate">{[metadata.client, metadata.address].filter(Boolean).join(' · ')}</div>
+                                            )}
+                                            <div className="text-[10px] text-slate-400 font-mono mt-0.5">
+                                                {metadata.date && `${metadata.date} · `}Updated {new Date(project.updatedAt).toLocaleString()}
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-1 shrink-0">
+                                            {isCurrent ? (
+                                                <span className="text-[10px] font-bold text-brand-600 dark:text-brand-400 uppercase px-1">Open</span>
+                                            ) : (
+                                                <button onClick={() => handleOpen(project.id)} disabled={isBusy} className="p-1.5 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-brand-600 dark:text-brand-400 disabled:opacity-50" title="Open">
+                                                    <FolderOpen size={16} />
+                                                </button>
+                                            )}
+                                            <button onClick={() => handleDuplicate(project.id)} disabled={isBusy} className="p-1.5 rounded hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50" title="Duplicate">
+                                                <Copy size={16} />
+                                            </button>
+                                            <button onClick={() => handleDelete(project)} disabled={isBusy} className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-red-500 disabled:opacity-50" title="Delete">
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,101 @@
+import React, { useState, useMemo } from 'react';
+import { useSurvey } from '../context/SurveyContext';
+import { Footprints, X, CheckCircle } from 'lucide-react';
+import { Polygon, TraverseMethod } from '../types';
+import { computeTraverse, distributeMisclosure, TRAVERSE_METHOD_LABELS } from '../utils/traverse';
+import { formatLength, formatResidual, formatClosureRatio } from '../utils/units';
+
+const METHOD_HINTS: Record<TraverseMethod, string> = {
+    bowditch: 'In proportion to the distance walked. The usual choice when lengths and angles are equally reliable.',
+    transit: 'In proportion to each wall\'s extent along X and Y. Suits precise angles with less reliable lengths.'
+};
+
+export const TraverseDialog: React.FC<{ polygon: Polygon; onClose: () => void }> = ({ polygon, onClose }) => {
+    const { state, dispatch } = useSurvey();
+    const [method, setMethod] = useState<TraverseMethod>(polygon.traverse?.method ?? 'bowditch');
+
+    const result = useMemo(() => computeTraverse(polygon), [polygon]);
+    const corrections = useMemo(() => result.type === 'success' ? distributeMisclosure(result.traverse, method) : [], [result, method]);
+
+    const apply = () => {
+        dispatch({ type: 'ADJUST_TRAVERSE', payload: { polygonId: polygon.id, method } });
+        onClose();
+    };
+
+    const traverse = result.type === 'success' ? result.traverse : null;
+    const gap = traverse ? Math.hypot(traverse.misclosure.x, traverse.misclosure.y) : 0;
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 pointer-events-auto">
+            <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" onClick={onClose}></div>
+            <div className="relative bg-white dark:bg-slate-800 rounded-2xl shadow-2xl max-w-md w-full p-6 border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-200 max-h-[90vh] overflow-y-auto">
+                <div className="flex items-start justify-between gap-2 mb-4">
+                    <h3 className="text-lg font-bold flex items-center gap-2"><Footprints className="text-brand-500" size={24}/> Close Traverse</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full"><X size={18} className="text-slate-500" /></button>
+                </div>
+
+                {!traverse ? (
+                    <p className="text-sm text-red-600 dark:text-red-400">{result.type === 'error' && result.error}</p>
+                ) : (
+                    <>
+                        {polygon.traverse && (
+                            <div className="flex items-center gap-2 text-xs rounded-lg p-2 mb-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400">
+                                <CheckCircle size={14} className="shrink-0" /> Closed by the {TRAVERSE_METHOD_LABELS[polygon.traverse.method]}.
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs mb-4 font-mono">
+                            <span className="text-slate-500 font-sans">Perimeter</span><span>{formatLength(traverse.perimeter, state.unitSystem)}</span>
+                            {traverse.angularMisclosure !== undefined ? (
+                                <><span className="text-slate-500 font-sans">Angular misclosure</span><span>{traverse.angularMisclosure >= 0 ? '+' : ''}{traverse.angularMisclosure.toFixed(2)}° (balanced)</span></>
+                            ) : (
+                                <><span className="text-slate-500 font-sans">Start corner</span><span>{polygon.vertices[traverse.order[0]].label} (no angle)</span></>
+                            )}
+                            <span className="text-slate-500 font-sans">Misclosure ΔX / ΔY</span><span>{formatResidual(traverse.misclosure.x, state.unitSystem)} / {formatResidual(traverse.misclosure.y, state.unitSystem)}</span>
+                            <span className="text-slate-500 font-sans">Linear misclosure</span><span>{formatResidual(gap, state.unitSystem, false)}</span>
+                            <span className="text-slate-500 font-sans">Precision</span><span className="font-bold">{formatClosureRatio(gap, traverse.perimeter)}</span>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2 mb-2">
+                            {(['bowditch', 'transit'] as const).map(m => (
+                                <button
+                                    key={m}
+                                    onClick={() => setMethod(m)}
+                                    className={`py-2 rounded-lg text-xs font-bold border-2 ${method === m ? 'border-brand-500 bg-brand-50 dark:bg-brand-900/20 text-brand-700 dark:text-brand-300' : 'border-slate-200 dark:border-slate-600 hover:border-slate-300 dark:hover:border-slate-500'}`}
+                                >
+                                    {TRAVERSE_METHOD_LABELS[m]}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[11px] text-slate-500 dark:text-slate-400 mb-3">{METHOD_HINTS[method]}</p>
+
+                        <table className="w-full text-xs font-mono mb-4">
+                            <thead>
+                                <tr className="text-slate-500 font-sans text-[10px] uppercase">
+                                    <th className="text-left font-bold py-1">Corner</th>
+                                    <th className="text-right font-bold py-1">ΔX</th>
+                                    <th className="text-right font-bold py-1">ΔY</th>
+                                    <th className="text-right font-bold py-1">Shift</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {traverse.order.map((index, k) => (
+                                    <tr key={polygon.vertices[index].id} className="border-t border-slate-100 dark:border-slate-700">
+                                        <td className="py-1 font-sans font-bold">{polygon.vertices[index].label}</td>
+                                        <td className="py-1 text-right">{formatResidual(corrections[k].x, state.unitSystem)}</td>
+                                        <td className="py-1 text-right">{formatResidual(corrections[k].y, state.unitSystem)}</td>
+                                        <td className="py-1 text-right">{formatResidual(Math.hypot(corrections[k].x, corrections[k].y), state.unitSystem, false)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <button onClick={apply} className="w-full py-2.5 rounded-xl bg-brand-600 hover:bg-brand-700 text-white text-sm font-bold">
+                            Apply {TRAVERSE_METHOD_LABELS[method]}
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
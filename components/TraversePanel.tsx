@@ -0,0 +1,118 @@
+import React, { useState, useRef } from 'react';
+import { useSurvey } from '../context/SurveyContext';
+import { Route, CornerUpLeft, CornerUpRight, ArrowUp, Plus } from 'lucide-react';
+import { screenToWorld, getTraverseClosure } from '../utils/geometry';
+import { TraverseLeg } from '../types';
+import { parseLength, formatLength, formatResidual, formatClosureRatio } from '../utils/units';
+
+type TurnSide = 'left' | 'straight' | 'right';
+
+const turnButtonClass = (active: boolean) =>
+    `flex-1 flex items-center justify-center gap-1 py-1.5 rounded text-xs font-bold ${active ? 'bg-brand-600 text-white' : 'bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-600 dark:text-slate-300'}`;
+
+// Numeric entry for drawing mode: walk each wall by its length after turning at the current corner
+export const TraversePanel: React.FC = () => {
+    const { state, dispatch } = useSurvey();
+    const [lengthText, setLengthText] = useState('');
+    const [turnSide, setTurnSide] = useState<TurnSide>('right');
+    const [turnText, setTurnText] = useState('90');
+    const lengthInputRef = useRef<HTMLInputElement>(null);
+
+    if (!state.isDrawingMode) return null;
+
+    const points = state.drawingPoints;
+    // The first wall has no previous wall to turn from
+    const canTurn = points.length >= 2;
+    const length = parseLength(lengthText, state.unitSystem);
+    const turnAngle = turnSide === 'straight' ? 0 : parseFloat(turnText);
+    const isTurnValid = !canTurn || (Number.isFinite(turnAngle) && turnAngle >= 0 && turnAngle < 180);
+    const canAdd = length !== null && length > 0 && isTurnValid;
+
+    const typedLegs = state.drawingLegs.filter((leg): leg is TraverseLeg => leg !== null);
+    const closure = typedLegs.length > 0 ? getTraverseClosure(points) : null;
+
+    const addLeg = () => {
+        if (!canAdd || length === null) return;
+        const turn = !canTurn ? 0 : turnSide === 'left' ? -turnAngle : turnAngle;
+        const start = points.length === 0
+            ? screenToWorld({ x: window.innerWidth / 2, y: window.innerHeight / 2 }, state.panOffset, state.zoomLevel, state.rotation)
+            : undefined;
+        dispatch({ type: 'ADD_TRAVERSE_LEG', payload: { length, turn, start } });
+        setLengthText('');
+        lengthInputRef.current?.focus();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') addLeg();
+    };
+
+    return (
+        <div className="pointer-events-auto absolute bottom-4 left-1/2 -translate-x-1/2 z-20 w-80 max-w-[calc(100%-2rem)] bg-white/95 dark:bg-slate-800/95 backdrop-blur-md rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-100 p-3 space-y-2 animate-in fade-in">
+            <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-slate-500">
+                <Route size={14} className="text-brand-500" /> Walls by numbers
+            </div>
+
+            {canTurn && (
+                <div className="flex gap-1">
+                    <button onClick={() => setTurnSide('left')} className={turnButtonClass(turnSide === 'left')}><CornerUpLeft size={14} /> Left</button>
+                    <button onClick={() => setTurnSide('straight')} className={turnButtonClass(turnSide === 'straight')}><ArrowUp size={14} /> Straight</button>
+                    <button onClick={() => setTurnSide('right')} className={turnButtonClass(turnSide === 'right')}>Right <CornerUpRight size={14} /></button>
+                    {turnSide !== 'straight' && (
+                        <div className="relative w-16">
+                            <input
+                                type="number"
+                                min="0"
+                                max="179.9"
+                                step="0.5"
+                                value={turnText}
+                                onChange={(e) => setTurnText(e.target.value)}
+                                onKeyDown={handleKeyDown}
+                                className={`w-full bg-white dark:bg-slate-900 border rounded pl-2 pr-4 py-1 text-sm font-mono outline-none ${isTurnValid ? 'border-slate-300 dark:border-slate-600 focus:border-brand-500' : 'border-red-500'}`}
+                                title="Turn angle (degrees)"
+                            />
+                            <span className="absolute right-1.5 top-1/2 -translate-y-1/2 text-xs text-slate-400">°</span>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                <input
+                    ref={lengthInputRef}
+                    type="text"
+                    value={lengthText}
+                    onChange={(e) => setLengthText(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={state.unitSystem === 'imperial' ? `Wall length, e.g. 13' 9"` : 'Wall length, e.g. 420 or 4.2m'}
+                    className={`flex-1 min-w-0 bg-white dark:bg-slate-900 border rounded px-2 py-1.5 text-sm outline-none ${lengthText && length === null ? 'border-red-500' : 'border-slate-300 dark:border-slate-600 focus:border-brand-500'}`}
+                />
+                <button onClick={addLeg} disabled={!canAdd} className="flex items-center gap-1 px-3 rounded bg-brand-600 hover:bg-brand-500 text-white text-xs font-bold disabled:opacity-50">
+                    <Plus size={14} /> Add
+                </button>
+            </div>
+
+            {typedLegs.length > 0 && (
+                <div className="text-[10px] font-mono text-slate-500 dark:text-slate-400 leading-relaxed">
+                    {typedLegs.length > 6 && '… → '}
+                    {typedLegs.slice(-6).map((leg, i) => (
+                        <span key={i}>
+                            {i > 0 && ' → '}
+                            {leg.turn !== 0 && `${leg.turn > 0 ? 'R' : 'L'}${Math.abs(leg.turn)}° → `}
+                            {formatLength(leg.length, state.unitSystem)}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            <p className={`text-[10px] ${closure?.isClosed ? 'text-green-600 dark:text-green-400 font-bold' : 'text-slate-400'}`}>
+                {points.length === 0
+                    ? 'Click the start corner, or type the first wall to start at the view center.'
+                    : closure?.isClosed
+                        ? `Back at the start: misclosure ${formatResidual(closure.gap, state.unitSystem, false)} (${formatClosureRatio(closure.gap, closure.length)}). Finish to create the room.`
+                        : closure
+                            ? `Gap to start: ${formatLength(closure.gap, state.unitSystem)}. Finishing now closes the room with that wall.`
+                            : 'Turns are taken from the direction of the previous wall.'}
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { useSurvey } from '../context/SurveyContext';
+import { Image as ImageIcon, Eye, EyeOff, Lock, Unlock, Ruler, Trash2, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { distance, PIXELS_PER_METER } from '../utils/geometry';
+import { parseLength, formatLength } from '../utils/units';
+
+const iconButtonClass = "p-1.5 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400";
+
+export const UnderlayPanel: React.FC = () => {
+    const { state, dispatch } = useSurvey();
+    const [isExpanded, setIsExpanded] = useState(true);
+    const [distanceText, setDistanceText] = useState('');
+
+    const underlay = state.underlay;
+    if (!underlay) return null;
+
+    const calibration = state.underlayCalibration;
+    const rotationDeg = Math.round(underlay.rotation * 180 / Math.PI * 10) / 10;
+    const parsedDistance = parseLength(distanceText, state.unitSystem);
+
+    const applyCalibration = () => {
+        if (parsedDistance === null || parsedDistance <= 0) return;
+        dispatch({ type: 'CALIBRATE_UNDERLAY', payload: parsedDistance });
+        setDistanceText('');
+    };
+
+    const handleRemove = () => {
+        if (!window.confirm(`Remove the underlay "${underlay.name}"?`)) return;
+        dispatch({ type: 'SET_UNDERLAY', payload: null });
+    };
+
+    return (
+        <div className="pointer-events-auto absolute bottom-28 right-4 z-20 w-64 bg-white/95 dark:bg-slate-800/95 backdrop-blur-md rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-100 animate-in fade-in">
+            <div className="flex items-center gap-1 pl-3 pr-1 py-1">
+                <button onClick={() => setIsExpanded(!isExpanded)} className="flex-1 min-w-0 flex items-center gap-2 py-1 text-xs font-bold uppercase tracking-wider text-slate-500">
+                    <ImageIcon size={14} className="text-pink-500 shrink-0" />
+                    <span className="truncate">Underlay</span>
+                    {isExpanded ? <ChevronDown size={14} className="shrink-0" /> : <ChevronRight size={14} className="shrink-0" />}
+                </button>
+                <button onClick={() => dispatch({ type: 'UPDATE_UNDERLAY', payload: { isVisible: !underlay.isVisible } })} className={iconButtonClass} title={underlay.isVisible ? 'Hide' : 'Show'}>
+                    {underlay.isVisible ? <Eye size={16} /> : <EyeOff size={16} />}
+                </button>
+                <button onClick={() => dispatch({ type: 'UPDATE_UNDERLAY', payload: { isLocked: !underlay.isLocked } })} className={iconButtonClass} title={underlay.isLocked ? 'Unlock to drag' : 'Lock position'}>
+                    {underlay.isLocked ? <Lock size={16} /> : <Unlock size={16} />}
+                </button>
+                <button onClick={handleRemove} className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-red-500" title="Remove">
+                    <Trash2 size={16} />
+                </button>
+            </div>
+
+            {isExpanded && (
+                <div className="px-3 pb-3 space-y-3">
+                    <div className="text-[10px] text-slate-400 font-mono truncate" title={underlay.name}>
+                        {underlay.name} · {formatLength(underlay.width * underlay.scale / PIXELS_PER_METER, state.unitSystem)} wide
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between text-xs font-bold text-slate-500 uppercase mb-1"><span>Opacity</span><span>{Math.round(underlay.opacity * 100)}%</span></div>
+                        <input type="range" min="0.1" max="1" step="0.05" value={underlay.opacity} onChange={(e) => dispatch({ type: 'UPDATE_UNDERLAY', payload: { opacity: parseFloat(e.target.value) } })} className="w-full h-1 bg-slate-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer accent-pink-500" />
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between text-xs font-bold text-slate-500 uppercase mb-1"><span>Rotation</span><span>{rotationDeg}°</span></div>
+                        <input type="range" min="-180" max="180" step="0.5" value={rotationDeg} onChange={(e) => dispatch({ type: 'UPDATE_UNDERLAY', payload: { rotation: parseFloat(e.target.value) * Math.PI / 180 } })} className="w-full h-1 bg-slate-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer accent-pink-500" />
+                    </div>
+
+                    {!calibration ? (
+                        <button onClick={() => dispatch({ type: 'START_UNDERLAY_CALIBRATION', payload: undefined })} className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-pink-50 dark:bg-pink-900/20 text-pink-600 dark:text-pink-400 hover:bg-pink-100 dark:hover:bg-pink-900/40 text-xs font-bold uppercase tracking-wider">
+                            <Ruler size={14} /> Calibrate Scale
+                        </button>
+                    ) : (
+                        <div className="rounded-lg border border-pink-500/40 p-2 space-y-2">
+                            <div className="flex items-start justify-between gap-2">
+                                <p className="text-xs text-slate-600 dark:text-slate-300">
+                                    {calibration.length < 2
+                                        ? <>Click the <strong>{calibration.length === 0 ? 'first' : 'second'}</strong> end of a known distance on the image.</>
+                                        : <>Picked {formatLength(distance(calibration[0], calibration[1]) / PIXELS_PER_METER, state.unitSystem)}. Enter the real distance:</>}
+                                </p>
+                                <button onClick={() => dispatch({ type: 'CANCEL_UNDERLAY_CALIBRATION', payload: undefined })} className="p-0.5 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500 shrink-0"><X size={14} /></button>
+                            </div>
+                            {calibration.length === 2 && (
+                                <div className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        autoFocus
+                                        value={distanceText}
+                                        onChange={(e) => setDistanceText(e.target.value)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') applyCalibration(); }}
+                                        placeholder={state.unitSystem === 'imperial' ? `e.g. 12' 6"` : 'e.g. 350 or 3.5m'}
+                                        className={`flex-1 min-w-0 bg-white dark:bg-slate-900 border rounded px-2 py-1 text-sm outline-none ${distanceText && parsedDistance === null ? 'border-red-500' : 'border-slate-300 dark:border-slate-600 focus:border-pink-500'}`}
+                                    />
+                                    <button onClick={applyCalibration} disabled={parsedDistance === null || parsedDistance <= 0} className="px-3 py-1 rounded bg-pink-600 hover:bg-pink-500 text-white text-xs font-bold disabled:opacity-50">Set</button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,11 +1,24 @@
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
-import { AppState, Action, Polygon, EdgeType, Edge, HistoryEntry, Vertex } from '../types';
-import { solveGeometry, distance, checkConnectionStatus, alignPolygonToEdge, calculateCentroid, midPoint, calculatePolygonArea, rotatePolygon, PIXELS_PER_METER, rotatePoint, translatePolygon, recalculateGroups, getConnectedPolygonGroup, duplicatePolygon, mirrorPolygon, calculateAlignmentTransform, calculateProjectedOffset } from '../utils/geometry';
+import React, { createContext, useContext, useReducer, useEffect, useRef, useState, ReactNode } from 'react';
+import { AppState, Action, Polygon, EdgeType, Edge, HistoryEntry, Vertex, EdgeResidual } from '../types';
+import { solveGeometry, distance, checkConnectionStatus, alignPolygonToEdge, calculateCentroid, midPoint, calculatePolygonArea, rotatePolygon, PIXELS_PER_METER, rotatePoint, translatePolygon, recalculateGroups, getConnectedPolygonGroup, getPolygonSignedArea, getTraverseLegEnd, getTraverseClosure, duplicatePolygon, mirrorPolygon, calculateAlignmentTransform, calculateProjectedOffset, calculateEdgeResiduals, applyEdgeResiduals, getEdgeLabel, RESIDUAL_WARNING, getMeasurementNetwork, findVertex, pruneCrossEdges, calculateCrossEdgeResiduals, remapSurveyIds, resolveNameConflicts, getPolygonsBounds } from '../utils/geometry';
+import { adjustGeometry, adjustGroup, calculateResidualRMS, buildCrossEdgeObservations, estimateUncertainty, clearUncertainty } from '../utils/adjustment';
+import { adjustTraverse, clearTraverse, TRAVERSE_METHOD_LABELS } from '../utils/traverse';
+import { getGuidedTarget, isEdgeMeasured } from '../utils/guidedMeasure';
+import { createReading, setEdgeReadings } from '../utils/readings';
+import { assignInPerimeterOrder } from '../utils/laserCsv';
+import { analyseRigidity, getDiagonalKey } from '../utils/rigidity';
+import { diagnoseGeometry, describeDiagnostics } from '../utils/diagnostics';
+import { formatArea, formatLength, formatResidual, formatClosureRatio } from '../utils/units';
+import { createProjectInfo, createSavedSurvey, createEmptySurvey, getLastProjectId, listProjects, loadProject, saveProject, setLastProjectId } from '../utils/storage';
 
 const initialState: AppState = {
   theme: 'light',
+  unitSystem: 'metric',
   isAiPanelOpen: false,
+  showDimensions: true,
+  snap: { isEnabled: true, grid: false, vertices: true, edges: true, perpendicular: true, angleStep: 45 },
   polygons: [],
+  crossEdges: [],
   selectedPolygonIds: [],
   selectedEdgeIds: [],
   selectedVertexIds: [],
@@ -18,11 +31,21 @@ const initialState: AppState = {
   isFocused: false,
   isJoinMode: false,
   joinSourceEdgeId: null,
+  crossEdgeSourceVertexId: null,
   joinConflict: null,
   alignState: null,
+  guidedMeasure: null,
+  laserImport: null,
+  diagonalSuggestionPolygonId: null,
   contextMenu: null,
   isDrawingMode: false,
   drawingPoints: [],
+  drawingLegs: [],
+  underlay: null,
+  underlayCalibration: null,
+  currentProject: null,
+  isProjectListOpen: false,
+  autosave: { status: 'idle', savedAt: null },
   past: [],
   future: []
 };
@@ -30,6 +53,7 @@ const initialState: AppState = {
 // Helper to create a lightweight snapshot of the domain data
 const createSnapshot = (state: AppState): HistoryEntry => ({
     polygons: state.polygons,
+    crossEdges: state.crossEdges,
     selectedPolygonIds: state.selectedPolygonIds,
     selectedEdgeIds: state.selectedEdgeIds,
     selectedVertexIds: state.selectedVertexIds
@@ -139,6 +163,43 @@ const executeJoin = (state: AppState, sourceEdgeId: string, targetEdgeId: string
     };
 };
 
+// --- EDGE READINGS ---
+// A change of readings is a change of length: room edges unlock their polygon, cross edges lose their residual
+const updateEdgeReadings = (state: AppState, edgeId: string, update: (edge: Edge) => Edge): AppState => {
+    const poly = state.polygons.find(p => p.edges.some(e => e.id === edgeId));
+    if (!poly) {
+        if (!state.crossEdges.some(e => e.id === edgeId)) return state;
+        return {
+            ...withHistory(state),
+            crossEdges: state.crossEdges.map(e => e.id === edgeId ? { ...update(e), residual: undefined } : e)
+        };
+    }
+    const newPolygons = state.polygons.map(p => p.id === poly.id
+        ? { ...p, isLocked: false, edges: p.edges.map(e => e.id === edgeId ? update(e) : e) }
+        : p);
+    return { ...withHistory(state), polygons: newPolygons, solverMsg: null };
+};
+
+// --- GUIDED MEASUREMENT ---
+// Solving the room ends the session, whether everything was measured or the user finished early
+const finishGuidedMeasure = (state: AppState): AppState => {
+    if (!state.guidedMeasure) return state;
+    const polygonId = state.guidedMeasure.polygonId;
+    const ended: AppState = { ...state, guidedMeasure: null, selectedEdgeIds: [] };
+    if (!state.polygons.some(p => p.id === polygonId)) return ended;
+    return surveyReducer(ended, { type: 'RECONSTRUCT_GEOMETRY', payload: polygonId });
+};
+
+// Highlights the next edge to measure, or solves once nothing is left
+const advanceGuidedMeasure = (state: AppState): AppState => {
+    if (!state.guidedMeasure) return state;
+    const poly = state.polygons.find(p => p.id === state.guidedMeasure!.polygonId);
+    if (!poly) return { ...state, guidedMeasure: null };
+    const target = getGuidedTarget(poly, state.guidedMeasure);
+    if (!target) return finishGuidedMeasure(state);
+    return { ...state, selectedPolygonIds: [poly.id], selectedEdgeIds: target.type === 'edge' ? [target.edge.id] : [], selectedVertexIds: [] };
+};
+
 const surveyReducer = (state: AppState, action: Action): AppState => {
   switch (action.type) {
     case 'TOGGLE_THEME':
@@ -147,6 +208,15 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
     case 'TOGGLE_AI_PANEL':
         return { ...state, isAiPanelOpen: !state.isAiPanelOpen };
 
+    case 'TOGGLE_DIMENSIONS':
+        return { ...state, showDimensions: !state.showDimensions };
+
+    case 'SET_UNIT_SYSTEM':
+        return { ...state, unitSystem: action.payload };
+
+    case 'SET_SNAP_SETTINGS':
+        return { ...state, snap: { ...state.snap, ...action.payload } };
+
     case 'UNDO': {
         if (state.past.length === 0) return state;
         const previous = state.past[state.past.length - 1];
@@ -163,6 +233,7 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             openVertexMenuId: null,
             isDrawingMode: false, // Cancel drawing on Undo global
             drawingPoints: [],
+            drawingLegs: [],
             joinConflict: null,
             contextMenu: null
         };
@@ -193,7 +264,17 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
     case 'IMPORT_DATA': {
         return {
             ...withHistory(state),
-            polygons: action.payload,
+            polygons: action.payload.polygons,
+            crossEdges: pruneCrossEdges(action.payload.crossEdges || [], action.payload.polygons),
+            unitSystem: action.payload.unitSystem || state.unitSystem,
+            panOffset: action.payload.view?.panOffset ?? state.panOffset,
+            zoomLevel: action.payload.view?.zoomLevel ?? state.zoomLevel,
+            rotation: action.payload.view?.rotation ?? state.rotation,
+            underlay: action.payload.underlay ?? null,
+            underlayCalibration: null,
+            guidedMeasure: null,
+            laserImport: null,
+            diagonalSuggestionPolygonId: null,
             selectedPolygonIds: [],
             selectedEdgeIds: [],
             selectedVertexIds: [],
@@ -201,10 +282,49 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
         };
     }
 
+    case 'MERGE_DATA': {
+        const { position } = action.payload;
+        // Fresh IDs so nothing collides with the current survey, then unique names
+        const remapped = remapSurveyIds(action.payload.polygons, action.payload.crossEdges || []);
+        const { polygons: named, renamed } = resolveNameConflicts(state.polygons, remapped.polygons);
+        if (named.length === 0) {
+            return { ...state, solverMsg: { type: 'error', text: 'The file contains no polygons to merge.' } };
+        }
+
+        const incoming = getPolygonsBounds(named);
+        const existing = getPolygonsBounds(state.polygons);
+        let dx = 0, dy = 0;
+        if (incoming && position) {
+            // Center on the clicked canvas position
+            dx = position.x - (incoming.minX + incoming.maxX) / 2;
+            dy = position.y - (incoming.minY + incoming.maxY) / 2;
+        } else if (incoming && existing) {
+            // Place beside the current survey, 1m to the right
+            dx = existing.maxX + PIXELS_PER_METER - incoming.minX;
+            dy = existing.minY - incoming.minY;
+        }
+        const merged = named.map(p => translatePolygon(p, dx, dy));
+
+        const renameText = renamed.length > 0
+            ? ` Renamed: ${renamed.map(r => `"${r.from}" → "${r.to}"`).join(', ')}.`
+            : '';
+        return {
+            ...withHistory(state),
+            polygons: [...state.polygons, ...merged],
+            crossEdges: [...state.crossEdges, ...pruneCrossEdges(remapped.crossEdges, merged)],
+            selectedPolygonIds: merged.map(p => p.id),
+            selectedEdgeIds: [],
+            selectedVertexIds: [],
+            contextMenu: null,
+            solverMsg: { type: 'success', text: `Merged ${merged.length} polygon${merged.length !== 1 ? 's' : ''}.${renameText}` }
+        };
+    }
+
     case 'RESET_CANVAS': {
         return {
             ...withHistory(state),
             polygons: [],
+            crossEdges: [],
             selectedPolygonIds: [],
             selectedEdgeIds: [],
             selectedVertexIds: [],
@@ -215,14 +335,65 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             rotation: 0,
             isDrawingMode: false,
             drawingPoints: [],
+            drawingLegs: [],
+            underlayCalibration: null, // The underlay itself stays; it is removed explicitly
             isJoinMode: false,
             joinSourceEdgeId: null,
+            crossEdgeSourceVertexId: null,
             joinConflict: null,
+            guidedMeasure: null,
+            laserImport: null,
+            diagonalSuggestionPolygonId: null,
             isFocused: false,
             contextMenu: null
         };
     }
 
+    case 'OPEN_PROJECT': {
+        const { project, survey, restored } = action.payload;
+        // Switching projects starts from a clean canvas and an empty history
+        const cleared = surveyReducer(state, { type: 'RESET_CANVAS', payload: undefined });
+        const text = restored
+            ? `Restored "${project.name}" from ${new Date(survey.savedAt).toLocaleString()}.`
+            : `Opened project "${project.name}".`;
+        return {
+            ...cleared,
+            currentProject: project,
+            polygons: survey.polygons,
+            crossEdges: pruneCrossEdges(survey.crossEdges || [], survey.polygons),
+            unitSystem: survey.unitSystem || state.unitSystem,
+            panOffset: survey.panOffset || cleared.panOffset,
+            zoomLevel: survey.zoomLevel || cleared.zoomLevel,
+            rotation: survey.rotation || 0,
+            underlay: survey.underlay ?? null,
+            alignState: null,
+            isProjectListOpen: false,
+            autosave: { status: 'saved', savedAt: survey.savedAt },
+            solverMsg: survey.polygons.length > 0 ? { type: 'success', text } : null,
+            past: [],
+            future: []
+        };
+    }
+
+    case 'UPDATE_PROJECT_INFO': {
+        if (!state.currentProject) return state;
+        const { name, metadata } = action.payload;
+        return {
+            ...state,
+            currentProject: {
+                ...state.currentProject,
+                name: name !== undefined ? (name.trim() || state.currentProject.name) : state.currentProject.name,
+                metadata: { ...state.currentProject.metadata, ...metadata }
+            }
+        };
+    }
+
+    case 'TOGGLE_PROJECT_LIST':
+        return { ...state, isProjectListOpen: !state.isProjectListOpen, contextMenu: null };
+
+    case 'SET_AUTOSAVE_STATUS':
+        return { ...state, autosave: action.payload };
+
     // --- DRAWING ACTIONS ---
 
     case 'START_DRAWING':
@@ -230,6 +401,11 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             ...state,
             isDrawingMode: true,
             drawingPoints: [],
+            drawingLegs: [],
+            underlayCalibration: null,
+            guidedMeasure: null,
+            laserImport: null,
+            diagonalSuggestionPolygonId: null,
             selectedPolygonIds: [], // Deselect everything to focus on drawing
             selectedEdgeIds: [],
             selectedVertexIds: [],
@@ -241,20 +417,39 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
     case 'ADD_DRAWING_POINT':
         return {
             ...state,
-            drawingPoints: [...state.drawingPoints, action.payload]
+            drawingPoints: [...state.drawingPoints, action.payload],
+            drawingLegs: [...state.drawingLegs, null]
+        };
+
+    case 'ADD_TRAVERSE_LEG': {
+        const { length, turn, start } = action.payload;
+        if (!(length > 0)) return state;
+        // Without a clicked start point the traverse starts at 'start' (the view center)
+        const points = state.drawingPoints.length > 0 ? state.drawingPoints : start ? [start] : [];
+        if (points.length === 0) return state;
+        const legs = state.drawingPoints.length > 0 ? state.drawingLegs : [null];
+        // The first leg heads right on screen, whatever the view rotation
+        const end = getTraverseLegEnd(points, { length, turn }, -state.rotation);
+        return {
+            ...state,
+            drawingPoints: [...points, end],
+            drawingLegs: [...legs, { length, turn }]
         };
+    }
 
     case 'UNDO_DRAWING_POINT':
         return {
             ...state,
-            drawingPoints: state.drawingPoints.slice(0, -1)
+            drawingPoints: state.drawingPoints.slice(0, -1),
+            drawingLegs: state.drawingLegs.slice(0, -1)
         };
 
     case 'CANCEL_DRAWING':
         return {
             ...state,
             isDrawingMode: false,
-            drawingPoints: []
+            drawingPoints: [],
+            drawingLegs: []
         };
 
     case 'FINISH_DRAWING': {
@@ -265,8 +460,20 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             };
         }
 
+        // A traverse that returns to its start closes on the first point; its last leg becomes the closing wall
+        let points = state.drawingPoints;
+        let legs = state.drawingLegs;
+        const closure = legs.some(leg => leg) ? getTraverseClosure(points) : null;
+        if (closure?.isClosed) {
+            points = points.slice(0, -1);
+            legs = [legs[legs.length - 1], ...legs.slice(1, -1)];
+        }
+        // legs[i] is the wall arriving at point i, so the wall leaving it is legs[i + 1]
+        const incoming = (i: number) => legs[i] ?? null;
+        const outgoing = (i: number) => legs[(i + 1) % points.length] ?? null;
+
         const idBase = `poly-${Date.now()}`;
-        const newVertices: Vertex[] = state.drawingPoints.map((p, i) => ({
+        const newVertices: Vertex[] = points.map((p, i) => ({
             id: `${idBase}-v${i}`,
             x: p.x,
             y: p.y,
@@ -274,6 +481,16 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             solved: true
         }));
 
+        // A typed turn between two typed walls fixes the interior angle (right turns are convex on a clockwise room)
+        const isCW = getPolygonSignedArea(newVertices) > 0;
+        newVertices.forEach((v, i) => {
+            const leg = outgoing(i);
+            // The first leg's turn is relative to the screen, not to a wall
+            if (i === 0 || !leg || !incoming(i)) return;
+            const angle = isCW ? 180 - leg.turn : 180 + leg.turn;
+            v.fixedAngle = ((angle % 360) + 360) % 360;
+        });
+
         const newEdges: Edge[] = [];
         const numPoints = newVertices.length;
 
@@ -287,12 +504,17 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
                 id: `${idBase}-e-p${i}`,
                 startVertexId: v1.id,
                 endVertexId: v2.id,
-                length: parseFloat((len / PIXELS_PER_METER).toFixed(2)),
+                length: outgoing(i)?.length ?? parseFloat((len / PIXELS_PER_METER).toFixed(2)),
                 type: EdgeType.PERIMETER,
-                thickness: 10
+                thickness: 10,
+                isMeasured: !!outgoing(i)
             });
         }
 
+        const closureText = closure && (closure.isClosed
+            ? `Traverse misclosure ${formatResidual(closure.gap, state.unitSystem, false)} over ${formatLength(closure.length, state.unitSystem)} (${formatClosureRatio(closure.gap, closure.length)}).`
+            : `Open traverse: the closing wall (${formatLength(closure.gap, state.unitSystem)}) was taken from the sketch.`);
+
         const newPoly: Polygon = {
             id: idBase,
             name: action.payload || `Sketch ${state.polygons.length + 1}`,
@@ -308,11 +530,71 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             polygons: [...state.polygons, newPoly],
             isDrawingMode: false,
             drawingPoints: [],
+            drawingLegs: [],
             selectedPolygonIds: [newPoly.id],
-            solverMsg: { type: 'success', text: 'Polygon created! Measurements can be edited.' }
+            solverMsg: { type: 'success', text: closureText ? `Polygon created! ${closureText}` : 'Polygon created! Measurements can be edited.' }
         };
     }
 
+    // --- UNDERLAY ACTIONS ---
+    // The underlay is a tracing aid, not survey data: it is saved with the project but not undoable
+
+    case 'SET_UNDERLAY':
+        return {
+            ...state,
+            underlay: action.payload,
+            underlayCalibration: null,
+            solverMsg: action.payload ? { type: 'success', text: `Underlay "${action.payload.name}" loaded. Calibrate it with a known distance before tracing.` } : null
+        };
+
+    case 'UPDATE_UNDERLAY':
+        if (!state.underlay) return state;
+        return { ...state, underlay: { ...state.underlay, ...action.payload } };
+
+    case 'START_UNDERLAY_CALIBRATION':
+        if (!state.underlay) return state;
+        return {
+            ...state,
+            underlay: { ...state.underlay, isVisible: true },
+            underlayCalibration: [],
+            isDrawingMode: false,
+            drawingPoints: [],
+            drawingLegs: [],
+            isJoinMode: false,
+            contextMenu: null
+        };
+
+    case 'ADD_CALIBRATION_POINT':
+        if (!state.underlayCalibration || state.underlayCalibration.length >= 2) return state;
+        return { ...state, underlayCalibration: [...state.underlayCalibration, action.payload] };
+
+    case 'CALIBRATE_UNDERLAY': {
+        const points = state.underlayCalibration;
+        if (!state.underlay || !points || points.length < 2) return state;
+        const [p1, p2] = points;
+        const pickedPx = distance(p1, p2);
+        const realDistance = action.payload;
+        if (pickedPx < 1e-6 || !(realDistance > 0)) {
+            return { ...state, solverMsg: { type: 'error', text: 'Pick two different points and enter a distance greater than zero.' } };
+        }
+        // Scale about the first picked point so it stays where it was
+        const factor = realDistance * PIXELS_PER_METER / pickedPx;
+        const { position, scale } = state.underlay;
+        return {
+            ...state,
+            underlay: {
+                ...state.underlay,
+                scale: scale * factor,
+                position: { x: p1.x + (position.x - p1.x) * factor, y: p1.y + (position.y - p1.y) * factor }
+            },
+            underlayCalibration: null,
+            solverMsg: { type: 'success', text: `Underlay calibrated to ${formatLength(realDistance, state.unitSystem)} between the picked points.` }
+        };
+    }
+
+    case 'CANCEL_UNDERLAY_CALIBRATION':
+        return { ...state, underlayCalibration: null };
+
     // --- STANDARD ACTIONS ---
 
     case 'ADD_POLYGON':
@@ -407,7 +689,18 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
       }
       
       const poly = state.polygons.find(p => p.edges.some(e => e.id === edgeId));
-      if (!poly) return state;
+      if (!poly) {
+          // Cross-polygon measurements belong to no polygon; they are selected on their own
+          if (!state.crossEdges.some(e => e.id === edgeId)) return state;
+          return {
+              ...state,
+              selectedPolygonIds: [],
+              selectedEdgeIds: [edgeId],
+              selectedVertexIds: [],
+              openVertexMenuId: null,
+              contextMenu: null
+          };
+      }
 
       // Update Polygon Selection logic
       let newSelectedPolyIds = [...state.selectedPolygonIds];
@@ -493,6 +786,7 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             length: parseFloat((dist1 / PIXELS_PER_METER).toFixed(2)),
             type: EdgeType.PERIMETER,
             thickness: edge.thickness,
+            isMeasured: false,
             feature: edge.feature // Preserve feature style if needed, or reset. Let's reset for split.
         };
 
@@ -502,7 +796,8 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             endVertexId: vEnd.id,
             length: parseFloat((dist2 / PIXELS_PER_METER).toFixed(2)),
             type: EdgeType.PERIMETER,
-            thickness: edge.thickness
+            thickness: edge.thickness,
+            isMeasured: false
         };
 
         // 4. Update Edges list (Remove old, add new ones)
@@ -533,6 +828,10 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
         const poly = state.polygons.find(p => p.vertices.some(v => v.id === vId));
         if (!poly) return state;
 
+        if (state.crossEdgeSourceVertexId) {
+            return surveyReducer(state, { type: 'ADD_CROSS_EDGE', payload: { startVertexId: state.crossEdgeSourceVertexId, endVertexId: vId } });
+        }
+
         const isNewPoly = !state.selectedPolygonIds.includes(poly.id);
         
         let newSelection = isNewPoly ? [] : [...state.selectedVertexIds];
@@ -596,7 +895,8 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             endVertexId: nextV.id,
             length: parseFloat((newLen / PIXELS_PER_METER).toFixed(2)),
             type: EdgeType.PERIMETER,
-            thickness: 10
+            thickness: 10,
+            isMeasured: false
         };
 
         const newVertices = poly.vertices.filter(v => v.id !== vertexId);
@@ -620,6 +920,7 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
         return {
             ...withHistory(state),
             polygons: newPolygons,
+            crossEdges: pruneCrossEdges(state.crossEdges, newPolygons),
             selectedVertexIds: [],
             openVertexMenuId: null,
             solverMsg: null,
@@ -663,6 +964,28 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
         };
     }
 
+    case 'TOGGLE_VERTEX_FLIP': {
+        const vertexId = action.payload;
+        const poly = state.polygons.find(p => p.vertices.some(v => v.id === vertexId));
+        if (!poly) return state;
+
+        const flippedPoly = {
+            ...poly,
+            isLocked: false,
+            vertices: poly.vertices.map(v => v.id === vertexId ? { ...v, flipped: !v.flipped } : v)
+        };
+        const toggledState = { ...state, polygons: state.polygons.map(p => p.id === poly.id ? flippedPoly : p) };
+
+        // Re-solve immediately so the alternative solution is visible; a single undo restores the previous state
+        const solvedState = surveyReducer(toggledState, { type: 'RECONSTRUCT_GEOMETRY', payload: poly.id });
+        return {
+            ...solvedState,
+            past: withHistory(state).past,
+            future: [],
+            openVertexMenuId: null
+        };
+    }
+
     case 'START_JOIN_MODE': {
         const sourceEdgeId = action.payload;
         const sourcePoly = state.polygons.find(p => p.edges.some(e => e.id === sourceEdgeId));
@@ -827,6 +1150,63 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             isJoinMode: false,
             joinSourceEdgeId: null
         };
+
+    // --- CROSS-POLYGON MEASUREMENTS ---
+
+    case 'START_CROSS_EDGE': {
+        if (!findVertex(state.polygons, action.payload)) return state;
+        return {
+            ...state,
+            crossEdgeSourceVertexId: action.payload,
+            selectedVertexIds: [action.payload],
+            selectedEdgeIds: [],
+            openVertexMenuId: null,
+            contextMenu: null,
+            solverMsg: { type: 'success', text: 'Select a vertex in another polygon to measure to.' }
+        };
+    }
+
+    case 'CANCEL_CROSS_EDGE':
+        return { ...state, crossEdgeSourceVertexId: null };
+
+    case 'ADD_CROSS_EDGE': {
+        const { startVertexId, endVertexId } = action.payload;
+        const start = findVertex(state.polygons, startVertexId);
+        const end = findVertex(state.polygons, endVertexId);
+        if (!start || !end) return { ...state, crossEdgeSourceVertexId: null };
+
+        if (start.polygon.id === end.polygon.id) {
+            return { ...state, solverMsg: { type: 'error', text: 'Both vertices are in the same polygon. Use Connect to add a diagonal.' } };
+        }
+
+        const exists = state.crossEdges.some(e =>
+            (e.startVertexId === startVertexId && e.endVertexId === endVertexId) ||
+            (e.startVertexId === endVertexId && e.endVertexId === startVertexId)
+        );
+        if (exists) {
+            return { ...state, crossEdgeSourceVertexId: null, solverMsg: { type: 'error', text: 'These vertices are already connected by a measurement.' } };
+        }
+
+        const newEdge: Edge = {
+            id: `edge-cross-${Date.now()}`,
+            startVertexId,
+            endVertexId,
+            length: parseFloat((distance(start.vertex, end.vertex) / PIXELS_PER_METER).toFixed(2)),
+            type: EdgeType.CROSS,
+            isMeasured: false
+        };
+
+        return {
+            ...withHistory(state),
+            crossEdges: [...state.crossEdges, newEdge],
+            crossEdgeSourceVertexId: null,
+            selectedPolygonIds: [],
+            selectedVertexIds: [],
+            selectedEdgeIds: [newEdge.id],
+            openVertexMenuId: null,
+            solverMsg: { type: 'success', text: `Measurement ${start.polygon.name} ${start.vertex.label} → ${end.polygon.name} ${end.vertex.label} added. Enter the taped length.` }
+        };
+    }
     
     case 'UNLINK_EDGE': {
         const edgeId = action.payload;
@@ -942,7 +1322,8 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             startVertexId: v1.id,
             endVertexId: v2.id,
             length: parseFloat((len / PIXELS_PER_METER).toFixed(2)),
-            type: EdgeType.DIAGONAL
+            type: EdgeType.DIAGONAL,
+            isMeasured: false
         };
 
         const updatedPoly = { ...poly, edges: [...poly.edges, newEdge] };
@@ -956,10 +1337,60 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
         };
     }
 
+    case 'SHOW_DIAGONAL_SUGGESTIONS': {
+        const poly = action.payload ? state.polygons.find(p => p.id === action.payload) : undefined;
+        if (!poly) return { ...state, diagonalSuggestionPolygonId: null, contextMenu: null };
+        const { freedom, suggestions } = analyseRigidity(poly);
+        if (freedom === 0) {
+            return { ...state, diagonalSuggestionPolygonId: null, contextMenu: null, solverMsg: { type: 'success', text: `${poly.name} is already rigid: no more diagonals are needed.` } };
+        }
+        if (suggestions.length === 0) {
+            return { ...state, diagonalSuggestionPolygonId: null, contextMenu: null, solverMsg: { type: 'error', text: `${poly.name} can still flex ${freedom} way${freedom !== 1 ? 's' : ''}, but no diagonal inside the room removes it. Fix the angle at a corner instead.` } };
+        }
+        return {
+            ...state,
+            diagonalSuggestionPolygonId: poly.id,
+            selectedPolygonIds: [poly.id],
+            contextMenu: null,
+            solverMsg: { type: 'success', text: `${suggestions.length} diagonal${suggestions.length !== 1 ? 's' : ''} will make ${poly.name} rigid. Click a dashed line to add it.` }
+        };
+    }
+
+    case 'ACCEPT_DIAGONAL_SUGGESTION': {
+        const { startVertexId, endVertexId } = action.payload;
+        const polyId = state.diagonalSuggestionPolygonId;
+        if (!polyId) return state;
+        const added = surveyReducer(
+            { ...state, selectedPolygonIds: [polyId], selectedVertexIds: [startVertexId, endVertexId] },
+            { type: 'ADD_DIAGONAL', payload: undefined }
+        );
+        const poly = added.polygons.find(p => p.id === polyId);
+        const newEdge = poly && added.polygons !== state.polygons ? poly.edges[poly.edges.length - 1] : undefined;
+        if (!poly || !newEdge) return { ...added, selectedVertexIds: state.selectedVertexIds };
+
+        // Hide the ghosts once the room no longer needs them
+        const remaining = analyseRigidity(poly).suggestions.length;
+        return {
+            ...added,
+            selectedEdgeIds: [newEdge.id],
+            diagonalSuggestionPolygonId: remaining > 0 ? polyId : null,
+            solverMsg: { type: 'success', text: `Diagonal ${getEdgeLabel(poly, newEdge)} added. Enter the taped length.${remaining > 0 ? ` ${remaining} more suggested.` : ''}` }
+        };
+    }
+
     case 'DELETE_EDGE': {
         const edgeId = action.payload; 
         const poly = state.polygons.find(p => p.edges.some(e => e.id === edgeId));
-        if (!poly) return state;
+        if (!poly) {
+            if (!state.crossEdges.some(e => e.id === edgeId)) return state;
+            return {
+                ...withHistory(state),
+                crossEdges: state.crossEdges.filter(e => e.id !== edgeId),
+                selectedEdgeIds: [],
+                solverMsg: null,
+                contextMenu: null
+            };
+        }
         
         if (poly.isLocked) {
              return { ...state, solverMsg: { type: 'error', text: 'Cannot delete edge of locked polygon.' }, contextMenu: null };
@@ -988,8 +1419,21 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
     
     case 'UPDATE_EDGE_LENGTH': {
         const { edgeId, length } = action.payload;
+        // Once an edge keeps readings, a typed length is one more reading
+        const edge = [...state.polygons.flatMap(p => p.edges), ...state.crossEdges].find(e => e.id === edgeId);
+        if (edge?.readings?.length) {
+            return surveyReducer(state, { type: 'ADD_EDGE_READING', payload: { edgeId, value: length, instrument: edge.instrument ?? 'tape' } });
+        }
+
         const poly = state.polygons.find(p => p.edges.some(e => e.id === edgeId));
-        if (!poly) return state;
+        if (!poly) {
+            // Cross-polygon measurement: only the stored value changes, rooms stay where they are
+            if (!state.crossEdges.some(e => e.id === edgeId)) return state;
+            return {
+                ...withHistory(state),
+                crossEdges: state.crossEdges.map(e => e.id === edgeId ? { ...e, length, residual: undefined, isMeasured: true } : e)
+            };
+        }
 
         let newPolygons = [...state.polygons];
 
@@ -998,13 +1442,49 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
             return {
                 ...p,
                 isLocked: false, // Modification unlocks the polygon
-                edges: p.edges.map(e => e.id === edgeId ? { ...e, length } : e)
+                edges: p.edges.map(e => e.id === edgeId ? { ...e, length, isMeasured: true } : e)
             };
         });
 
         return { ...withHistory(state), polygons: newPolygons, solverMsg: null };
     }
 
+    case 'SET_EDGE_PRECISION': {
+        const { edgeId, instrument, sigma } = action.payload;
+        const update = (e: Edge): Edge => e.id === edgeId ? { ...e, instrument, sigma } : e;
+
+        const poly = state.polygons.find(p => p.edges.some(e => e.id === edgeId));
+        if (!poly) {
+            if (!state.crossEdges.some(e => e.id === edgeId)) return state;
+            return { ...withHistory(state), crossEdges: state.crossEdges.map(update) };
+        }
+
+        // Weights change the adjusted solution and its uncertainty, so the polygon needs re-solving
+        const newPolygons = state.polygons.map(p => p.id === poly.id ? { ...p, isLocked: false, edges: p.edges.map(update) } : p);
+        return { ...withHistory(state), polygons: newPolygons, solverMsg: null };
+    }
+
+    case 'ADD_EDGE_READING': {
+        const { edgeId, value, instrument, note, timestamp } = action.payload;
+        return updateEdgeReadings(state, edgeId, edge => {
+            // The first extra reading keeps a length measured earlier as a reading of its own
+            const existing = edge.readings ?? (isEdgeMeasured(edge)
+                ? [createReading(edge.length, edge.instrument ?? 'tape', 'Entered before readings were kept')]
+                : []);
+            return setEdgeReadings(edge, [...existing, createReading(value, instrument, note, timestamp)]);
+        });
+    }
+
+    case 'REMOVE_EDGE_READING': {
+        const { edgeId, readingId } = action.payload;
+        return updateEdgeReadings(state, edgeId, edge => setEdgeReadings(edge, (edge.readings ?? []).filter(r => r.id !== readingId)));
+    }
+
+    case 'SET_READING_AVERAGE': {
+        const { edgeId, average } = action.payload;
+        return updateEdgeReadings(state, edgeId, edge => setEdgeReadings({ ...edge, readingAverage: average }, edge.readings ?? []));
+    }
+
     case 'UPDATE_EDGE_THICKNESS': {
         const { edgeId, thickness } = action.payload;
         const poly = state.polygons.find(p => p.edges.some(e => e.id === edgeId));
@@ -1226,13 +1706,31 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
     case 'RECONSTRUCT_GEOMETRY': {
         const polyId = action.payload;
         let msg = null;
+        let suggestionPolygonId = state.diagonalSuggestionPolygonId === polyId ? null : state.diagonalSuggestionPolygonId;
         const stateWithHistory = withHistory(state);
 
         const newPolygons = state.polygons.map(p => {
             if (p.id !== polyId) return p;
-            
-            const result = solveGeometry(p);
-            const solvedPoly = result.polygon;
+
+            const totalV = p.vertices.length;
+            const diagonals = p.edges.filter(e => e.type === EdgeType.DIAGONAL).length;
+            const fixedAngles = p.vertices.filter(v => v.fixedAngle !== undefined).length;
+            const totalConstraints = diagonals + fixedAngles;
+            const needed = Math.max(0, totalV - 3);
+            const isOverDetermined = totalConstraints > needed;
+
+            // Redundant measurements: adjust the whole network instead of trilaterating greedily
+            let adjustment: ReturnType<typeof adjustGeometry> | null = null;
+            let result: { polygon: Polygon, metricError?: string, approximated?: boolean };
+            if (isOverDetermined) {
+                adjustment = adjustGeometry(p);
+                result = adjustment;
+            } else {
+                result = solveGeometry(p);
+            }
+
+            // Trilateration or least squares replaces any earlier traverse closure
+            let solvedPoly = clearTraverse(result.polygon);
             const error = result.metricError;
             const approx = result.approximated;
 
@@ -1246,37 +1744,256 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
 
             if (error) {
                 msg = { type: 'error', text: error } as const;
-                return solvedPoly;
+                return { ...clearUncertainty(applyEdgeResiduals(solvedPoly, null)), diagnostics: undefined };
             }
 
-            const totalV = solvedPoly.vertices.length;
             const solvedV = solvedPoly.vertices.filter(v => v.solved).length;
-            const diagonals = solvedPoly.edges.filter(e => e.type === EdgeType.DIAGONAL).length;
-            const fixedAngles = solvedPoly.vertices.filter(v => v.fixedAngle !== undefined).length;
-            const totalConstraints = diagonals + fixedAngles;
-            const needed = Math.max(0, totalV - 3);
 
             if (solvedV < totalV) {
+                // Point at the diagonals that would make the sketch rigid
+                const { suggestions } = analyseRigidity(p);
+                const labelOf = (id: string) => p.vertices.find(v => v.id === id)?.label ?? '?';
+                const hint = suggestions.length > 0
+                    ? ` Measure ${suggestions.map(d => `${labelOf(d.startVertexId)}-${labelOf(d.endVertexId)}`).join(', ')} (shown dashed).`
+                    : '';
+                if (suggestions.length > 0) suggestionPolygonId = p.id;
                 if (totalConstraints < needed) {
-                     msg = { type: 'error', text: `Unstable Geometry: Found ${totalConstraints} constraints, need ${needed}.` } as const;
+                     msg = { type: 'error', text: `Unstable Geometry: Found ${totalConstraints} constraints, need ${needed}.${hint}` } as const;
                 } else {
-                     msg = { type: 'error', text: `Unstable Geometry: Connectivity issue. Ensure the shape is rigid.` } as const;
+                     msg = { type: 'error', text: `Unstable Geometry: Connectivity issue. Ensure the shape is rigid.${hint}` } as const;
                 }
                 solvedPoly.isLocked = false;
+                solvedPoly = { ...clearUncertainty(applyEdgeResiduals(solvedPoly, null)), diagnostics: undefined };
             } else {
-                 if (totalConstraints > needed) {
-                     msg = { type: 'success', text: approx ? 'Geometry reconstructed! (Over-determined, Approx. applied)' : 'Geometry reconstructed! (Over-determined)' } as const;
+                 const residuals = calculateEdgeResiduals(solvedPoly);
+                 solvedPoly = estimateUncertainty([applyEdgeResiduals(solvedPoly, residuals)]).polygons[0];
+                 solvedPoly = { ...solvedPoly, diagnostics: diagnoseGeometry(solvedPoly) };
+                 const worst = residuals.reduce<EdgeResidual | null>((w, r) => !w || Math.abs(r.residual) > Math.abs(w.residual) ? r : w, null);
+
+                 if (adjustment) {
+                     const rms = formatResidual(calculateResidualRMS(adjustment.residuals), state.unitSystem, false);
+                     msg = { type: 'success', text: `Geometry adjusted! (Over-determined, ${adjustment.redundancy} redundant, RMS ${rms})` } as const;
                  } else {
                      msg = { type: 'success', text: approx ? 'Geometry reconstructed! (Approx. applied)' : 'Geometry successfully reconstructed!' } as const;
                  }
                  if (solvedPoly.area) {
-                     msg = { type: 'success', text: `${msg.text} Area: ${solvedPoly.area.toFixed(2)}m²` } as const;
+                     msg = { type: 'success', text: `${msg.text} Area: ${formatArea(solvedPoly.area, state.unitSystem, solvedPoly.areaSigma)}` } as const;
+                 }
+                 if (worst && Math.abs(worst.residual) >= RESIDUAL_WARNING) {
+                     const worstEdge = solvedPoly.edges.find(e => e.id === worst.edgeId)!;
+                     msg = { type: 'success', text: `${msg.text} Largest residual ${getEdgeLabel(solvedPoly, worstEdge)}: ${formatResidual(worst.residual, state.unitSystem)}` } as const;
+                 }
+                 const weakness = describeDiagnostics(solvedPoly, solvedPoly.diagnostics!, state.unitSystem);
+                 if (weakness) {
+                     msg = { type: 'success', text: `${msg.text} ${weakness}` } as const;
                  }
             }
 
             return solvedPoly;
         });
-        return { ...stateWithHistory, polygons: newPolygons, solverMsg: msg, contextMenu: null };
+        return { ...stateWithHistory, polygons: newPolygons, solverMsg: msg, contextMenu: null, diagonalSuggestionPolygonId: suggestionPolygonId };
+    }
+
+    case 'ADJUST_TRAVERSE': {
+        const { polygonId, method } = action.payload;
+        const poly = state.polygons.find(p => p.id === polygonId);
+        if (!poly) return state;
+
+        const result = adjustTraverse(poly, method);
+        if (result.type === 'error') {
+            return { ...state, solverMsg: { type: 'error', text: result.error }, contextMenu: null };
+        }
+
+        const adjusted = { ...clearUncertainty(applyEdgeResiduals(result.polygon, calculateEdgeResiduals(result.polygon))), diagnostics: undefined };
+        adjusted.area = calculatePolygonArea(adjusted.vertices);
+        adjusted.isLocked = true;
+
+        const { misclosure, perimeter } = result.polygon.traverse!;
+        const gap = Math.hypot(misclosure.x, misclosure.y);
+        return {
+            ...withHistory(state),
+            polygons: state.polygons.map(p => p.id === polygonId ? adjusted : p),
+            solverMsg: { type: 'success', text: `Traverse closed by the ${TRAVERSE_METHOD_LABELS[method]}: misclosure ${formatResidual(gap, state.unitSystem, false)} (${formatClosureRatio(gap, perimeter)}) distributed. Area: ${formatArea(adjusted.area, state.unitSystem)}` },
+            contextMenu: null
+        };
+    }
+
+    case 'START_GUIDED_MEASURE': {
+        const poly = state.polygons.find(p => p.id === action.payload);
+        if (!poly) return state;
+        if (!poly.isClosed) {
+            return { ...state, solverMsg: { type: 'error', text: 'Guided measurement needs a closed room.' }, contextMenu: null };
+        }
+        return advanceGuidedMeasure({
+            ...state,
+            guidedMeasure: { polygonId: poly.id, skipped: [] },
+            laserImport: null,
+            isJoinMode: false,
+            joinSourceEdgeId: null,
+            crossEdgeSourceVertexId: null,
+            alignState: null,
+            openVertexMenuId: null,
+            contextMenu: null,
+            solverMsg: null
+        });
+    }
+
+    case 'RECORD_GUIDED_LENGTH': {
+        const length = action.payload;
+        const guided = state.guidedMeasure;
+        const poly = guided && state.polygons.find(p => p.id === guided.polygonId);
+        if (!guided || !poly || !(length > 0)) return state;
+        const target = getGuidedTarget(poly, guided);
+        if (!target) return finishGuidedMeasure(state);
+
+        if (target.type === 'edge') {
+            return advanceGuidedMeasure(surveyReducer(state, { type: 'UPDATE_EDGE_LENGTH', payload: { edgeId: target.edge.id, length } }));
+        }
+
+        const newEdge: Edge = {
+            id: `edge-${Date.now()}`,
+            startVertexId: target.startVertexId,
+            endVertexId: target.endVertexId,
+            length,
+            type: EdgeType.DIAGONAL,
+            isMeasured: true
+        };
+        return advanceGuidedMeasure({
+            ...withHistory(state),
+            polygons: state.polygons.map(p => p.id === poly.id ? { ...p, isLocked: false, edges: [...p.edges, newEdge] } : p),
+            solverMsg: null
+        });
+    }
+
+    case 'SKIP_GUIDED_STEP': {
+        const guided = state.guidedMeasure;
+        const poly = guided && state.polygons.find(p => p.id === guided.polygonId);
+        if (!guided || !poly) return state;
+        const target = getGuidedTarget(poly, guided);
+        if (!target) return finishGuidedMeasure(state);
+        const key = target.type === 'edge' ? target.edge.id : getDiagonalKey(target.startVertexId, target.endVertexId);
+        return advanceGuidedMeasure({ ...state, guidedMeasure: { ...guided, skipped: [...guided.skipped, key] } });
+    }
+
+    case 'FINISH_GUIDED_MEASURE':
+        return finishGuidedMeasure(state);
+
+    case 'CANCEL_GUIDED_MEASURE':
+        return { ...state, guidedMeasure: null, selectedEdgeIds: [] };
+
+    case 'START_LASER_IMPORT': {
+        const { polygonId, fileName, readings } = action.payload;
+        const poly = state.polygons.find(p => p.id === polygonId);
+        if (!poly) return state;
+        return {
+            ...state,
+            laserImport: { polygonId, fileName, readings, assignments: assignInPerimeterOrder(poly, readings.length, 0) },
+            guidedMeasure: null,
+            selectedPolygonIds: [polygonId],
+            selectedEdgeIds: [],
+            contextMenu: null
+        };
+    }
+
+    case 'ASSIGN_LASER_READING': {
+        if (!state.laserImport) return state;
+        const { edgeId, readingIndex } = action.payload;
+        // A reading goes to one edge only, so assigning it again moves it
+        const assignments = Object.fromEntries(Object.entries(state.laserImport.assignments)
+            .filter(([id, index]) => id !== edgeId && index !== readingIndex));
+        if (readingIndex !== null) assignments[edgeId] = readingIndex;
+        return { ...state, laserImport: { ...state.laserImport, assignments } };
+    }
+
+    case 'ASSIGN_LASER_READINGS_IN_ORDER': {
+        if (!state.laserImport) return state;
+        const poly = state.polygons.find(p => p.id === state.laserImport!.polygonId);
+        if (!poly) return state;
+        const assignments = assignInPerimeterOrder(poly, state.laserImport.readings.length, action.payload);
+        return { ...state, laserImport: { ...state.laserImport, assignments } };
+    }
+
+    case 'APPLY_LASER_IMPORT': {
+        if (!state.laserImport) return state;
+        const { polygonId, readings, assignments } = state.laserImport;
+        const poly = state.polygons.find(p => p.id === polygonId);
+        const entries = poly ? Object.entries(assignments).filter(([edgeId]) => poly.edges.some(e => e.id === edgeId)) : [];
+        if (!poly || entries.length === 0) {
+            return { ...state, solverMsg: { type: 'error', text: 'Assign at least one reading to an edge first.' } };
+        }
+
+        // One undo step for the whole log: the batch is recorded once, not per edge
+        const recorded = withHistory(state);
+        const updated = entries.reduce((s, [edgeId, index]) => {
+            const edge = poly.edges.find(e => e.id === edgeId)!;
+            const reading = readings[index];
+            // A sigma override set for another instrument does not describe a laser reading
+            const sigma = edge.instrument === 'laser' ? edge.sigma : undefined;
+            const laser = surveyReducer(s, { type: 'SET_EDGE_PRECISION', payload: { edgeId, instrument: 'laser', sigma } });
+            // Edges that keep readings record the log's own time and label for the audit trail
+            return edge.readings?.length
+                ? surveyReducer(laser, { type: 'ADD_EDGE_READING', payload: { edgeId, value: reading.value, instrument: 'laser', timestamp: reading.timestamp, note: reading.label && `Laser log #${reading.label}` } })
+                : surveyReducer(laser, { type: 'UPDATE_EDGE_LENGTH', payload: { edgeId, length: reading.value } });
+        }, recorded);
+
+        return {
+            ...updated,
+            past: recorded.past,
+            future: [],
+            laserImport: null,
+            solverMsg: { type: 'success', text: `Applied ${entries.length} laser reading${entries.length !== 1 ? 's' : ''} to ${poly.name}. Solve to update its shape.` }
+        };
+    }
+
+    case 'CANCEL_LASER_IMPORT':
+        return { ...state, laserImport: null };
+
+    case 'SOLVE_GROUP': {
+        const poly = state.polygons.find(p => p.id === action.payload);
+        if (!poly) return state;
+
+        // Rooms tied by a joined wall or by a cross-polygon measurement form one network
+        const groupIds = getMeasurementNetwork(poly.id, state.polygons, state.crossEdges);
+        if (groupIds.size < 2) {
+            return surveyReducer(state, { type: 'RECONSTRUCT_GEOMETRY', payload: poly.id });
+        }
+
+        const members = state.polygons.filter(p => groupIds.has(p.id));
+        const crossObservations = buildCrossEdgeObservations(state.crossEdges);
+        const result = adjustGroup(members, crossObservations);
+
+        if (result.metricError) {
+            return { ...state, solverMsg: { type: 'error', text: result.metricError }, contextMenu: null };
+        }
+
+        const uncertainty = estimateUncertainty(result.polygons, crossObservations);
+        const adjustedById = new Map(uncertainty.polygons.map(p => [p.id, p]));
+        const newPolygons = state.polygons.map(p => {
+            const solved = adjustedById.get(p.id);
+            if (!solved) return p;
+            // The network solve replaces any traverse closure, so its report and corrections no longer apply
+            const adjusted = clearTraverse(solved);
+            return {
+                ...applyEdgeResiduals(adjusted, calculateEdgeResiduals(adjusted)),
+                area: calculatePolygonArea(adjusted.vertices),
+                diagnostics: diagnoseGeometry(adjusted),
+                isLocked: true
+            };
+        });
+
+        const crossResiduals = new Map(calculateCrossEdgeResiduals(state.crossEdges, newPolygons, groupIds).map(r => [r.edgeId, r.residual]));
+        const newCrossEdges = state.crossEdges.map(e => crossResiduals.has(e.id) ? { ...e, residual: crossResiduals.get(e.id) } : e);
+
+        const totalArea = newPolygons.filter(p => groupIds.has(p.id)).reduce((sum, p) => sum + (p.area || 0), 0);
+        const rms = formatResidual(calculateResidualRMS(result.residuals), state.unitSystem, false);
+
+        return {
+            ...withHistory(state),
+            polygons: newPolygons,
+            crossEdges: newCrossEdges,
+            solverMsg: { type: 'success', text: `Group solved as one network (${members.length} rooms, ${result.redundancy} redundant, RMS ${rms}). Total Area: ${formatArea(totalArea, state.unitSystem, uncertainty.totalAreaSigma)}` },
+            contextMenu: null
+        };
     }
 
     case 'PAN_ZOOM':
@@ -1302,6 +2019,7 @@ const surveyReducer = (state: AppState, action: Action): AppState => {
         return {
             ...withHistory(state),
             polygons: updatedPolygons,
+            crossEdges: pruneCrossEdges(state.crossEdges, updatedPolygons),
             selectedPolygonIds: newSelected, 
             selectedEdgeIds: isSelected ? [] : state.selectedEdgeIds,
             solverMsg: null,
@@ -1511,8 +2229,104 @@ const SurveyContext = createContext<{
   dispatch: React.Dispatch<Action>;
 } | undefined>(undefined);
 
+// Delay before persisting continuous changes (dragging, panning); history changes save immediately
+const AUTOSAVE_DEBOUNCE_MS = 800;
+
+// IndexedDB failures (quota, private browsing) as a short reason for the user
+const describeStorageError = (err: unknown): string => err instanceof Error && err.message ? err.message : 'storage unavailable';
+
 export const SurveyProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(surveyReducer, initialState);
+
+  // Nothing is written until the previous session has been restored, so a reload never overwrites it
+  const [isHydrated, setIsHydrated] = useState(false);
+  const lastPastRef = useRef(state.past);
+  const lastProjectIdRef = useRef<string | null>(null);
+  // Autosave failures are announced once, not on every following change
+  const saveFailedRef = useRef(false);
+
+  // Crash recovery: reopen the last used project on startup, or start a new one
+  useEffect(() => {
+      let cancelled = false;
+      const findLastProject = async () => {
+          const lastId = await getLastProjectId();
+          const last = lastId ? await loadProject(lastId) : null;
+          if (last) return last;
+          const [latest] = await listProjects();
+          return latest ? loadProject(latest.id) : null;
+      };
+      findLastProject()
+          .then(stored => {
+              if (cancelled) return;
+              if (stored) {
+                  const { survey, ...project } = stored;
+                  dispatch({ type: 'OPEN_PROJECT', payload: { project, survey, restored: true } });
+              } else {
+                  const project = createProjectInfo('Untitled Survey');
+                  const survey = createEmptySurvey(initialState.unitSystem, project.createdAt);
+                  dispatch({ type: 'OPEN_PROJECT', payload: { project, survey } });
+                  saveProject({ ...project, survey }).catch(err => {
+                      if (cancelled) return;
+                      dispatch({ type: 'SET_AUTOSAVE_STATUS', payload: { status: 'error', savedAt: null, error: 'Not saved' } });
+                      dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `The new project could not be saved (${describeStorageError(err)}). Export JSON to keep a copy.` } });
+                  });
+              }
+          })
+          .catch(err => {
+              if (cancelled) return;
+              dispatch({ type: 'OPEN_PROJECT', payload: { project: createProjectInfo('Untitled Survey'), survey: createEmptySurvey(initialState.unitSystem) } });
+              dispatch({ type: 'SET_AUTOSAVE_STATUS', payload: { status: 'error', savedAt: null, error: 'Autosave unavailable' } });
+              dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `The last project could not be restored and changes will not be saved (${describeStorageError(err)}).` } });
+          })
+          .finally(() => {
+              if (!cancelled) setIsHydrated(true);
+          });
+      return () => { cancelled = true; };
+  }, []);
+
+  // Remember the open project for the next session
+  const currentProjectId = state.currentProject?.id;
+  useEffect(() => {
+      if (!isHydrated || !currentProjectId) return;
+      setLastProjectId(currentProjectId).catch(err =>
+          dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `This project will not reopen automatically (${describeStorageError(err)}).` } }));
+  }, [isHydrated, currentProjectId]);
+
+  // Autosave into the open project
+  useEffect(() => {
+      const project = state.currentProject;
+      if (!isHydrated || !project) return;
+
+      const persist = () => {
+          const savedAt = Date.now();
+          dispatch({ type: 'SET_AUTOSAVE_STATUS', payload: { status: 'saving', savedAt: state.autosave.savedAt } });
+          saveProject({ ...project, updatedAt: savedAt, survey: createSavedSurvey(state, savedAt) })
+              .then(() => {
+                  saveFailedRef.current = false;
+                  dispatch({ type: 'SET_AUTOSAVE_STATUS', payload: { status: 'saved', savedAt } });
+              })
+              .catch(err => {
+                  dispatch({ type: 'SET_AUTOSAVE_STATUS', payload: { status: 'error', savedAt: state.autosave.savedAt, error: 'Autosave failed' } });
+                  if (saveFailedRef.current) return;
+                  saveFailedRef.current = true;
+                  dispatch({ type: 'SHOW_MESSAGE', payload: { type: 'error', text: `Autosave failed (${describeStorageError(err)}). Export JSON to keep a copy.` } });
+              });
+      };
+
+      const isHistoryChange = lastPastRef.current !== state.past;
+      lastPastRef.current = state.past;
+      // A freshly opened project is already stored as loaded
+      const isProjectSwitch = lastProjectIdRef.current !== project.id;
+      lastProjectIdRef.current = project.id;
+      if (isProjectSwitch) return;
+      if (isHistoryChange) {
+          persist();
+          return;
+      }
+      const timer = setTimeout(persist, AUTOSAVE_DEBOUNCE_MS);
+      return () => clearTimeout(timer);
+  }, [isHydrated, state.currentProject, state.past, state.polygons, state.crossEdges, state.unitSystem, state.panOffset, state.zoomLevel, state.rotation, state.underlay]);
+
   return (
     <SurveyContext.Provider value={{ state, dispatch }}>
       {children}
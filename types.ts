@@ -12,11 +12,62 @@ export interface Vertex {
   label: string; // e.g., "A", "B", "C"
   solved?: boolean;
   fixedAngle?: number; // In degrees, e.g., 90
+  flipped?: boolean; // Use the alternative (mirror) trilateration solution instead of the one nearest the sketch
+  errorEllipse?: ErrorEllipse; // Propagated positional uncertainty, set when the polygon is solved
+  traverseCorrection?: Point; // Shift applied by the last traverse adjustment (meters)
 }
 
+// 1-sigma standard error ellipse of a solved vertex
+export interface ErrorEllipse {
+  major: number; // Semi-major axis (meters)
+  minor: number; // Semi-minor axis (meters)
+  angle: number; // Direction of the major axis from +X (radians, screen coordinates)
+}
+
+// Triangle of measured edges with a very small angle: trilaterating its apex is badly conditioned
+export interface SliverTriangle {
+  vertexIds: [string, string, string];
+  minAngle: number; // degrees
+}
+
+// Conditioning of a solved polygon, set by RECONSTRUCT_GEOMETRY
+export interface GeometryDiagnostics {
+  slivers: SliverTriangle[];
+  sensitivity: Record<string, Record<string, number>>; // vertexId -> edgeId -> vertex shift per unit length error
+}
+
+export type MeasurementInstrument = 'tape' | 'laser';
+
+// One raw length reading of an edge, kept for audit
+export interface LengthReading {
+  id: string;
+  value: number; // meters
+  instrument: MeasurementInstrument;
+  timestamp: string; // ISO 8601
+  note?: string;
+}
+
+// How an edge's length is derived from its readings
+export type ReadingAverage = 'mean' | 'median';
+
+// How a traverse misclosure is spread over the corners
+export type TraverseMethod = 'bowditch' | 'transit';
+
+// Summary of the last traverse adjustment of a room (per-vertex shifts live on Vertex.traverseCorrection)
+export interface TraverseAdjustment {
+  method: TraverseMethod;
+  misclosure: Point; // Linear misclosure before adjustment (meters, screen axes)
+  perimeter: number; // Traversed length (meters)
+  angularMisclosure?: number; // Degrees; set when every interior angle was measured and balanced
+}
+
+// Display/entry units. Storage stays canonical (meters, thickness in cm).
+export type UnitSystem = 'metric' | 'imperial';
+
 export enum EdgeType {
   PERIMETER = 'PERIMETER',
   DIAGONAL = 'DIAGONAL',
+  CROSS = 'CROSS', // Measured between vertices of two different polygons (stored in AppState.crossEdges)
 }
 
 export interface Edge {
@@ -31,6 +82,20 @@ export interface Edge {
   feature?: 'door' | 'window' | null; // New property for architectural features
   featureWidth?: number; // Width of the feature in meters
   featureDistance?: number; // Distance from startVertexId to the start of the feature (meters)
+  residual?: number; // Entered length minus solved length (meters), set by RECONSTRUCT_GEOMETRY
+  instrument?: MeasurementInstrument; // Defaults to 'tape'; selects the default standard deviation
+  sigma?: number; // Standard deviation of the length (meters), overrides the instrument default
+  isMeasured?: boolean; // False while the length is only scaled from the sketch; older data without it counts as measured
+  readings?: LengthReading[]; // Raw readings; when present, length is derived from those that agree
+  readingAverage?: ReadingAverage; // Defaults to 'mean'
+}
+
+// Result of a least-squares adjustment for a single edge
+export interface EdgeResidual {
+  edgeId: string;
+  measured: number; // Entered length (meters)
+  adjusted: number; // Distance between adjusted vertices (meters)
+  residual: number; // measured - adjusted (meters)
 }
 
 export interface Polygon {
@@ -42,18 +107,133 @@ export interface Polygon {
   isClosed: boolean;
   metricError?: string;
   area?: number;
+  areaSigma?: number; // 1-sigma area uncertainty (m²) propagated from the measurement sigmas
   isLocked?: boolean; // If true, vertices cannot be moved individually. Required for Join.
   groupId?: string; // If set, moves as a rigid body with others in the same group.
+  traverse?: TraverseAdjustment; // Set when the room was closed as a length + angle traverse
+  diagnostics?: GeometryDiagnostics; // Conditioning of the last successful solve
 }
 
 // Data required to restore a previous state
 export interface HistoryEntry {
   polygons: Polygon[];
+  crossEdges: Edge[];
   selectedPolygonIds: string[];
   selectedEdgeIds: string[]; 
   selectedVertexIds: string[];
 }
 
+// Descriptive fields shown in the project list
+export interface ProjectMetadata {
+  client: string;
+  address: string;
+  date: string; // Survey date (YYYY-MM-DD)
+  surveyor: string;
+  notes: string;
+}
+
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  metadata: ProjectMetadata;
+  createdAt: number; // Timestamp (ms)
+  updatedAt: number; // Timestamp (ms)
+}
+
+// Survey data persisted to IndexedDB by the autosave
+export interface SavedSurvey {
+  polygons: Polygon[];
+  crossEdges: Edge[];
+  unitSystem: UnitSystem;
+  panOffset: Point;
+  zoomLevel: number;
+  rotation: number;
+  underlay?: Underlay | null;
+  savedAt: number; // Timestamp (ms)
+}
+
+// Scanned plan or sketch photo shown under the drawing for tracing
+export interface Underlay {
+  src: string; // Image data URL
+  name: string; // Original file name
+  width: number; // Natural image size (image pixels)
+  height: number;
+  position: Point; // World position of the image center
+  scale: number; // World px per image pixel (set by calibration)
+  rotation: number; // radians
+  opacity: number; // 0..1
+  isVisible: boolean;
+  isLocked: boolean; // Locked underlays cannot be dragged
+}
+
+// Wall entered by numbers while drawing: walk 'length' after turning at the current point
+export interface TraverseLeg {
+  length: number; // meters
+  turn: number; // degrees, positive = right (clockwise on screen), relative to the previous segment
+}
+
+// Which targets the pointer snaps to while drawing or dragging vertices
+export interface SnapSettings {
+  isEnabled: boolean; // Master switch (Alt temporarily bypasses snapping)
+  grid: boolean;
+  vertices: boolean; // Vertices of other rooms
+  edges: boolean; // Edges of other rooms
+  perpendicular: boolean; // Perpendicular / parallel to the previous segment
+  angleStep: 0 | 15 | 45 | 90; // Angle increments in degrees (0 = off)
+}
+
+// Canvas view saved with a project
+export interface ViewState {
+  panOffset: Point;
+  zoomLevel: number;
+  rotation: number; // radians
+}
+
+// Exported JSON project file (see utils/projectFile.ts for validation and migrations)
+export interface ProjectFile {
+  format: 'geosurvey-project';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  unitSystem: UnitSystem;
+  project: { name: string; metadata: ProjectMetadata };
+  polygons: Polygon[];
+  crossEdges: Edge[];
+  view: ViewState;
+  underlay?: Underlay;
+}
+
+// A project as stored in the workspace: its info plus the last saved survey
+export interface StoredProject extends ProjectInfo {
+  survey: SavedSurvey;
+}
+
+export interface AutosaveState {
+  status: 'idle' | 'saving' | 'saved' | 'error';
+  savedAt: number | null;
+  error?: string;
+}
+
+// Guided measurement: walks the unmeasured edges of one room, then the diagonals it still needs
+export interface GuidedMeasureState {
+    polygonId: string;
+    skipped: string[]; // Edge IDs, or "vertexId:vertexId" keys of suggested diagonals, passed over this session
+}
+
+// One distance from a laser meter's measurement log
+export interface LaserReading {
+    value: number; // meters
+    timestamp?: string; // ISO 8601, when the log has a readable date and time
+    label?: string; // Number or name the meter gave the reading
+}
+
+// Laser log being assigned to the edges of one room before the lengths are applied
+export interface LaserImportState {
+    polygonId: string;
+    fileName: string;
+    readings: LaserReading[];
+    assignments: Record<string, number>; // Edge ID -> index into readings
+}
+
 export interface AlignState {
     step: 'SELECT_SOURCE' | 'SELECT_TARGET' | 'ADJUST';
     sourcePolyId?: string;
@@ -73,8 +253,12 @@ export interface ContextMenuState {
 
 export interface AppState {
   theme: 'light' | 'dark'; // New theme state
+  unitSystem: UnitSystem; // Project-level unit setting for entry, labels and export
   isAiPanelOpen: boolean; // AI Assistant visibility
+  showDimensions: boolean; // Architectural dimension lines on the canvas and in plan exports
+  snap: SnapSettings;
   polygons: Polygon[];
+  crossEdges: Edge[]; // Survey-level measurements connecting vertices of different polygons
   selectedPolygonIds: string[]; // Replaced single ID with array for multi-select
   selectedEdgeIds: string[]; 
   selectedVertexIds: string[]; 
@@ -89,10 +273,22 @@ export interface AppState {
   // Interaction Modes
   isJoinMode: boolean; 
   joinSourceEdgeId: string | null; 
+
+  // Cross Measurement Mode (vertex in one polygon -> vertex in another)
+  crossEdgeSourceVertexId: string | null;
   
   // Alignment Mode (Rotate & Translate)
   alignState: AlignState | null;
 
+  // Guided Measurement Mode
+  guidedMeasure: GuidedMeasureState | null;
+
+  // Laser Meter Log Import
+  laserImport: LaserImportState | null;
+
+  // Room whose suggested diagonals are drawn as ghost edges
+  diagonalSuggestionPolygonId: string | null;
+
   // Context Menu
   contextMenu: ContextMenuState | null;
 
@@ -110,7 +306,19 @@ export interface AppState {
   // Drawing Mode
   isDrawingMode: boolean;
   drawingPoints: Point[];
+  drawingLegs: (TraverseLeg | null)[]; // How each drawing point was reached (null = placed by clicking)
+
+  // Tracing Underlay
+  underlay: Underlay | null;
+  underlayCalibration: Point[] | null; // World points picked so far while calibrating
   
+  // Workspace
+  currentProject: ProjectInfo | null; // Set once the workspace has loaded
+  isProjectListOpen: boolean;
+
+  // Persistence
+  autosave: AutosaveState;
+
   // History Stacks
   past: HistoryEntry[];
   future: HistoryEntry[];
@@ -119,6 +327,9 @@ export interface AppState {
 export type Action =
   | { type: 'TOGGLE_THEME'; payload: void }
   | { type: 'TOGGLE_AI_PANEL'; payload: void }
+  | { type: 'TOGGLE_DIMENSIONS'; payload: void }
+  | { type: 'SET_UNIT_SYSTEM'; payload: UnitSystem }
+  | { type: 'SET_SNAP_SETTINGS'; payload: Partial<SnapSettings> }
   | { type: 'ADD_POLYGON'; payload: Polygon }
   | { type: 'SELECT_POLYGON'; payload: string | null | { id: string | null; shouldFocus?: boolean; multi?: boolean } }
   | { type: 'SELECT_EDGE'; payload: string | null | { edgeId: string; multi: boolean } }
@@ -127,11 +338,16 @@ export type Action =
   | { type: 'OPEN_VERTEX_MENU'; payload: string }
   | { type: 'CLOSE_VERTEX_MENU'; payload: void }
   | { type: 'SET_VERTEX_ANGLE'; payload: { vertexId: string; angle: number | undefined; shouldClose?: boolean } }
+  | { type: 'TOGGLE_VERTEX_FLIP'; payload: string }
   | { type: 'DELETE_VERTEX'; payload: string }
   | { type: 'ADD_DIAGONAL'; payload: void } 
   | { type: 'DELETE_EDGE'; payload: string } 
   | { type: 'UNLINK_EDGE'; payload: string }
   | { type: 'UPDATE_EDGE_LENGTH'; payload: { edgeId: string; length: number } }
+  | { type: 'SET_EDGE_PRECISION'; payload: { edgeId: string; instrument: MeasurementInstrument; sigma?: number } }
+  | { type: 'ADD_EDGE_READING'; payload: { edgeId: string; value: number; instrument: MeasurementInstrument; note?: string; timestamp?: string } }
+  | { type: 'REMOVE_EDGE_READING'; payload: { edgeId: string; readingId: string } }
+  | { type: 'SET_READING_AVERAGE'; payload: { edgeId: string; average: ReadingAverage } }
   | { type: 'UPDATE_EDGE_THICKNESS'; payload: { edgeId: string; thickness: number } }
   | { type: 'UPDATE_EDGE_ALIGNMENT'; payload: { edgeId: string; offset: number } }
   | { type: 'SET_EDGE_FEATURE'; payload: { edgeId: string; feature: 'door' | 'window' | null; width?: number; distance?: number } } 
@@ -140,6 +356,20 @@ export type Action =
   | { type: 'ROTATE_POLYGON'; payload: { polygonId: string; rotationDelta: number } }
   | { type: 'RENAME_POLYGON'; payload: { polygonId: string; name: string } }
   | { type: 'RECONSTRUCT_GEOMETRY'; payload: string }
+  | { type: 'SOLVE_GROUP'; payload: string }
+  | { type: 'ADJUST_TRAVERSE'; payload: { polygonId: string; method: TraverseMethod } }
+  | { type: 'SHOW_DIAGONAL_SUGGESTIONS'; payload: string | null }
+  | { type: 'ACCEPT_DIAGONAL_SUGGESTION'; payload: { startVertexId: string; endVertexId: string } }
+  | { type: 'START_GUIDED_MEASURE'; payload: string }
+  | { type: 'RECORD_GUIDED_LENGTH'; payload: number }
+  | { type: 'SKIP_GUIDED_STEP'; payload: void }
+  | { type: 'FINISH_GUIDED_MEASURE'; payload: void }
+  | { type: 'CANCEL_GUIDED_MEASURE'; payload: void }
+  | { type: 'START_LASER_IMPORT'; payload: { polygonId: string; fileName: string; readings: LaserReading[] } }
+  | { type: 'ASSIGN_LASER_READING'; payload: { edgeId: string; readingIndex: number | null } }
+  | { type: 'ASSIGN_LASER_READINGS_IN_ORDER'; payload: number } // Index of the reading for the first wall
+  | { type: 'APPLY_LASER_IMPORT'; payload: void }
+  | { type: 'CANCEL_LASER_IMPORT'; payload: void }
   | { type: 'PAN_ZOOM'; payload: { x: number; y: number; zoom: number; rotation: number } }
   | { type: 'DELETE_POLYGON'; payload: string }
   | { type: 'DISMISS_MESSAGE'; payload: void }
@@ -150,15 +380,30 @@ export type Action =
   | { type: 'START_JOIN_MODE'; payload: string } 
   | { type: 'COMPLETE_JOIN'; payload: string }
   | { type: 'JOIN_SELECTED_EDGES'; payload: void } 
+  | { type: 'START_CROSS_EDGE'; payload: string }
+  | { type: 'ADD_CROSS_EDGE'; payload: { startVertexId: string; endVertexId: string } }
+  | { type: 'CANCEL_CROSS_EDGE'; payload: void }
   | { type: 'RESOLVE_JOIN_CONFLICT'; payload: number } 
   | { type: 'CANCEL_JOIN_CONFLICT'; payload: void }
   | { type: 'START_DRAWING'; payload: void }
   | { type: 'ADD_DRAWING_POINT'; payload: Point }
+  | { type: 'ADD_TRAVERSE_LEG'; payload: TraverseLeg & { start?: Point } }
   | { type: 'UNDO_DRAWING_POINT'; payload: void }
   | { type: 'CANCEL_DRAWING'; payload: void }
   | { type: 'FINISH_DRAWING'; payload: string }
-  | { type: 'IMPORT_DATA'; payload: Polygon[] }
+  | { type: 'SET_UNDERLAY'; payload: Underlay | null }
+  | { type: 'UPDATE_UNDERLAY'; payload: Partial<Omit<Underlay, 'src' | 'width' | 'height'>> }
+  | { type: 'START_UNDERLAY_CALIBRATION'; payload: void }
+  | { type: 'ADD_CALIBRATION_POINT'; payload: Point }
+  | { type: 'CALIBRATE_UNDERLAY'; payload: number }
+  | { type: 'CANCEL_UNDERLAY_CALIBRATION'; payload: void }
+  | { type: 'IMPORT_DATA'; payload: { polygons: Polygon[]; crossEdges?: Edge[]; unitSystem?: UnitSystem; view?: ViewState; underlay?: Underlay } }
+  | { type: 'MERGE_DATA'; payload: { polygons: Polygon[]; crossEdges?: Edge[]; position?: Point } }
   | { type: 'RESET_CANVAS'; payload: void }
+  | { type: 'OPEN_PROJECT'; payload: { project: ProjectInfo; survey: SavedSurvey; restored?: boolean } }
+  | { type: 'UPDATE_PROJECT_INFO'; payload: { name?: string; metadata?: Partial<ProjectMetadata> } }
+  | { type: 'TOGGLE_PROJECT_LIST'; payload: void }
+  | { type: 'SET_AUTOSAVE_STATUS'; payload: AutosaveState }
   | { type: 'DUPLICATE_POLYGON'; payload: string | undefined }
   | { type: 'MIRROR_POLYGON'; payload: { axis: 'X' | 'Y' } }
   | { type: 'START_ALIGN_MODE'; payload: void }
@@ -0,0 +1,765 @@
+import { Point, Polygon, Vertex, Edge, EdgeResidual, ErrorEllipse, MeasurementInstrument } from '../types';
+import { PIXELS_PER_METER, calculateCentroid, getInteriorAngleNeighbours, getPolygonSignedArea, solveGeometry, findCrossingPerimeterEdges, mirrorAmbiguityMessage, foldedGeometryMessage } from './geometry';
+
+// --- Least-Squares Network Adjustment (Levenberg-Marquardt) ---
+
+// A priori standard deviations used to weight observations against each other.
+export const DEFAULT_DISTANCE_SIGMA = 0.01; // meters (1cm tape reading)
+export const DEFAULT_ANGLE_SIGMA = 0.5; // degrees
+
+// Default length standard deviation per instrument (meters)
+export const INSTRUMENT_SIGMA: Record<MeasurementInstrument, number> = {
+    tape: DEFAULT_DISTANCE_SIGMA,
+    laser: 0.002
+};
+
+export const getEdgeSigma = (edge: Edge): number => edge.sigma ?? INSTRUMENT_SIGMA[edge.instrument ?? 'tape'];
+
+const MAX_ITERATIONS = 50;
+const CONVERGENCE_TOLERANCE = 1e-7; // meters
+const DATUM_DEFECT = 3; // Translation X/Y + Rotation (distances fix the scale)
+
+export type Observation =
+  | { kind: 'distance'; id: string; from: string; to: string; value: number; sigma: number }
+  // Angle measured at 'at', turning from the direction of 'to' to the direction of 'from' (radians, 0..2PI)
+  | { kind: 'angle'; id: string; at: string; from: string; to: string; value: number; sigma: number }
+  // Any other scalar function of some points (e.g. wall alignment); differentiated numerically
+  | { kind: 'custom'; id: string; points: string[]; value: number; sigma: number; evaluate: (pts: Point[]) => number };
+
+export interface NetworkAdjustment {
+    points: Map<string, Point>; // Adjusted coordinates (meters)
+    residuals: Map<string, number>; // Observation ID -> measured - adjusted (meters or radians)
+    sigma0: number; // A posteriori standard deviation of unit weight (1 if no redundancy)
+    redundancy: number;
+    iterations: number;
+    converged: boolean;
+    isRigid: boolean;
+}
+
+const normalizeAngle = (a: number): number => {
+    const twoPi = 2 * Math.PI;
+    return ((a % twoPi) + twoPi) % twoPi;
+};
+
+// Wraps an angular difference to (-PI, PI]
+const wrapAngle = (a: number): number => {
+    const n = normalizeAngle(a);
+    return n > Math.PI ? n - 2 * Math.PI : n;
+};
+
+/**
+ * Solves A·x = b with Gaussian elimination and partial pivoting.
+ * Returns null if the matrix is singular.
+ */
+export const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+    const n = b.length;
+    const M = A.map((row, i) => [...row, b[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+        }
+        if (Math.abs(M[pivot][col]) < 1e-14) return null;
+        [M[col], M[pivot]] = [M[pivot], M[col]];
+
+        for (let r = col + 1; r < n; r++) {
+            const f = M[r][col] / M[col][col];
+            if (f === 0) continue;
+            for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+        }
+    }
+
+    const x = new Array(n).fill(0);
+    for (let r = n - 1; r >= 0; r--) {
+        let sum = M[r][n];
+        for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+        x[r] = sum / M[r][r];
+    }
+    return x;
+};
+
+/**
+ * Numerical rank of a symmetric matrix (Gauss-Jordan elimination with a relative pivot tolerance).
+ */
+export const matrixRank = (A: number[][], relTol: number = 1e-9): number => {
+    const M = A.map(row => [...row]);
+    const n = M.length;
+    const scale = Math.max(1e-30, ...M.map((row, i) => Math.abs(row[i])));
+    let rank = 0;
+    const usedRows = new Array(n).fill(false);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = -1;
+        let best = relTol * scale;
+        for (let r = 0; r < n; r++) {
+            if (!usedRows[r] && Math.abs(M[r][col]) > best) {
+                best = Math.abs(M[r][col]);
+                pivot = r;
+            }
+        }
+        if (pivot === -1) continue;
+        usedRows[pivot] = true;
+        rank++;
+        for (let r = 0; r < n; r++) {
+            if (r === pivot) continue;
+            const f = M[r][col] / M[pivot][col];
+            if (f === 0) continue;
+            for (let c = col; c < n; c++) M[r][c] -= f * M[pivot][c];
+        }
+    }
+    return rank;
+};
+
+/**
+ * Inverse of a square matrix (Gauss-Jordan with partial pivoting). Returns null if singular.
+ */
+export const invertMatrix = (A: number[][]): number[][] | null => {
+    const n = A.length;
+    const M = A.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+        }
+        if (Math.abs(M[pivot][col]) < 1e-14) return null;
+        [M[col], M[pivot]] = [M[pivot], M[col]];
+
+        const p = M[col][col];
+        for (let c = 0; c < 2 * n; c++) M[col][c] /= p;
+        for (let r = 0; r < n; r++) {
+            if (r === col) continue;
+            const f = M[r][col];
+            if (f === 0) continue;
+            for (let c = 0; c < 2 * n; c++) M[r][c] -= f * M[col][c];
+        }
+    }
+    return M.map(row => row.slice(n));
+};
+
+const observationPoints = (obs: Observation): string[] => {
+    if (obs.kind === 'custom') return obs.points;
+    if (obs.kind === 'angle') return [obs.at, obs.from, obs.to];
+    return [obs.from, obs.to];
+};
+
+const computeObservation = (obs: Observation, coords: Map<string, Point>): number => {
+    if (obs.kind === 'custom') {
+        return obs.evaluate(obs.points.map(id => coords.get(id)!));
+    }
+    if (obs.kind === 'distance') {
+        const p1 = coords.get(obs.from)!;
+        const p2 = coords.get(obs.to)!;
+        return Math.hypot(p2.x - p1.x, p2.y - p1.y);
+    }
+    const at = coords.get(obs.at)!;
+    const from = coords.get(obs.from)!;
+    const to = coords.get(obs.to)!;
+    return normalizeAngle(Math.atan2(from.y - at.y, from.x - at.x) - Math.atan2(to.y - at.y, to.x - at.x));
+};
+
+const observationResidual = (obs: Observation, coords: Map<string, Point>): number => {
+    const computed = computeObservation(obs, coords);
+    return obs.kind === 'angle' ? wrapAngle(obs.value - computed) : obs.value - computed;
+};
+
+// Partial derivatives of an observation w.r.t. the coordinates it involves
+const observationJacobian = (obs: Observation, coords: Map<string, Point>): { id: string; dx: number; dy: number }[] => {
+    if (obs.kind === 'custom') {
+        // Central differences (h = 1µm)
+        const h = 1e-6;
+        const base = obs.points.map(id => coords.get(id)!);
+        const evalShifted = (i: number, dx: number, dy: number) =>
+            obs.evaluate(base.map((p, j) => j === i ? { x: p.x + dx, y: p.y + dy } : p));
+        return obs.points.map((id, i) => ({
+            id,
+            dx: (evalShifted(i, h, 0) - evalShifted(i, -h, 0)) / (2 * h),
+            dy: (evalShifted(i, 0, h) - evalShifted(i, 0, -h)) / (2 * h)
+        }));
+    }
+    if (obs.kind === 'distance') {
+        const p1 = coords.get(obs.from)!;
+        const p2 = coords.get(obs.to)!;
+        const d = Math.max(Math.hypot(p2.x - p1.x, p2.y - p1.y), 1e-12);
+        const ux = (p2.x - p1.x) / d;
+        const uy = (p2.y - p1.y) / d;
+        return [
+            { id: obs.from, dx: -ux, dy: -uy },
+            { id: obs.to, dx: ux, dy: uy }
+        ];
+    }
+
+    // Derivative of a direction atan2(p - at) w.r.t. p is (-dy, dx) / r²
+    const direction = (pId: string) => {
+        const at = coords.get(obs.at)!;
+        const p = coords.get(pId)!;
+        const dx = p.x - at.x;
+        const dy = p.y - at.y;
+        const r2 = Math.max(dx * dx + dy * dy, 1e-12);
+        return { gx: -dy / r2, gy: dx / r2 };
+    };
+    const f = direction(obs.from);
+    const t = direction(obs.to);
+    return [
+        { id: obs.from, dx: f.gx, dy: f.gy },
+        { id: obs.to, dx: -t.gx, dy: -t.gy },
+        { id: obs.at, dx: -f.gx + t.gx, dy: -f.gy + t.gy }
+    ];
+};
+
+// Weighted normal equations N·dx = g of the linearised observations (parameters ordered x0, y0, x1, y1, ...)
+const buildNormalEquations = (observations: Observation[], coords: Map<string, Point>, index: Map<string, number>) => {
+    const numParams = index.size * 2;
+    const N = Array.from({ length: numParams }, () => new Array(numParams).fill(0));
+    const g = new Array(numParams).fill(0);
+    for (const obs of observations) {
+        const w = 1 / (obs.sigma * obs.sigma);
+        const v = observationResidual(obs, coords);
+        const row: { i: number; a: number }[] = [];
+        observationJacobian(obs, coords).forEach(d => {
+            const i = index.get(d.id)!;
+            row.push({ i: i * 2, a: d.dx }, { i: i * 2 + 1, a: d.dy });
+        });
+        for (const r1 of row) {
+            g[r1.i] += w * r1.a * v;
+            for (const r2 of row) N[r1.i][r2.i] += w * r1.a * r2.a;
+        }
+    }
+    return { N, g };
+};
+
+/**
+ * Adjusts a free 2D network of points (meters) so that all observations are satisfied
+ * in the weighted least-squares sense. Uses Gauss-Newton with Levenberg-Marquardt damping,
+ * which also handles the datum defect of a free network (the solution drifts minimally).
+ */
+export const adjustNetwork = (initial: Map<string, Point>, observations: Observation[]): NetworkAdjustment => {
+    const ids = Array.from(initial.keys());
+    const index = new Map<string, number>();
+    ids.forEach((id, i) => index.set(id, i));
+
+    const numParams = ids.length * 2;
+    const redundancy = Math.max(0, observations.length - (numParams - DATUM_DEFECT));
+    let coords = new Map<string, Point>();
+    initial.forEach((p, id) => coords.set(id, { x: p.x, y: p.y }));
+
+    const cost = (c: Map<string, Point>) => observations.reduce((sum, obs) => {
+        const v = observationResidual(obs, c);
+        return sum + (v * v) / (obs.sigma * obs.sigma);
+    }, 0);
+
+    const buildNormals = (c: Map<string, Point>) => buildNormalEquations(observations, c, index);
+
+    let lambda = 1e-3;
+    let currentCost = cost(coords);
+    let iterations = 0;
+    let converged = false;
+
+    while (iterations < MAX_ITERATIONS) {
+        iterations++;
+        const { N, g } = buildNormals(coords);
+        const damped = N.map((row, i) => row.map((val, j) => i === j ? val + lambda * Math.max(val, 1e-9) : val));
+        const step = solveLinearSystem(damped, g);
+        if (!step) {
+            lambda *= 10;
+            continue;
+        }
+
+        const trial = new Map<string, Point>();
+        ids.forEach((id, i) => {
+            const p = coords.get(id)!;
+            trial.set(id, { x: p.x + step[i * 2], y: p.y + step[i * 2 + 1] });
+        });
+        const trialCost = cost(trial);
+        const isTinyStep = Math.max(...step.map(Math.abs)) < CONVERGENCE_TOLERANCE;
+
+        if (trialCost <= currentCost) {
+            coords = trial;
+            currentCost = trialCost;
+            lambda = Math.max(lambda / 10, 1e-12);
+            if (isTinyStep) {
+                converged = true;
+                break;
+            }
+        } else {
+            // A rejected step is tiny under heavy damping whether or not the solution has settled
+            lambda *= 10;
+        }
+
+        if (lambda > 1e12) break;
+    }
+
+    const { N } = buildNormals(coords);
+    const isRigid = matrixRank(N) >= numParams - DATUM_DEFECT;
+
+    const residuals = new Map<string, number>();
+    observations.forEach(obs => residuals.set(obs.id, observationResidual(obs, coords)));
+
+    return {
+        points: coords,
+        residuals,
+        sigma0: redundancy > 0 ? Math.sqrt(currentCost / redundancy) : 1,
+        redundancy,
+        iterations,
+        converged,
+        isRigid
+    };
+};
+
+/**
+ * Best-fit rigid transform (rotation + translation, no scale) mapping 'moving' onto 'reference'.
+ * Used to put an adjusted free network back where the user sketched it.
+ */
+export const fitRigidTransform = (moving: Point[], reference: Point[]): ((p: Point) => Point) => {
+    const n = Math.min(moving.length, reference.length);
+    if (n === 0) return p => p;
+
+    const cm = moving.reduce((a, p) => ({ x: a.x + p.x / n, y: a.y + p.y / n }), { x: 0, y: 0 });
+    const cr = reference.reduce((a, p) => ({ x: a.x + p.x / n, y: a.y + p.y / n }), { x: 0, y: 0 });
+
+    let sxx = 0, sxy = 0;
+    for (let i = 0; i < n; i++) {
+        const mx = moving[i].x - cm.x, my = moving[i].y - cm.y;
+        const rx = reference[i].x - cr.x, ry = reference[i].y - cr.y;
+        sxx += mx * rx + my * ry;
+        sxy += mx * ry - my * rx;
+    }
+    const angle = Math.atan2(sxy, sxx);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    return (p: Point) => {
+        const dx = p.x - cm.x;
+        const dy = p.y - cm.y;
+        return { x: cr.x + dx * cos - dy * sin, y: cr.y + dx * sin + dy * cos };
+    };
+};
+
+/**
+ * Builds the observation set of a single polygon: every edge (perimeter and diagonal)
+ * as a distance and every fixedAngle vertex as an interior angle between its neighbours.
+ */
+export const buildPolygonObservations = (polygon: Polygon): Observation[] => {
+    const observations: Observation[] = [];
+
+    polygon.edges.forEach(e => {
+        observations.push({
+            kind: 'distance',
+            id: e.id,
+            from: e.startVertexId,
+            to: e.endVertexId,
+            value: e.length,
+            sigma: getEdgeSigma(e)
+        });
+    });
+
+    polygon.vertices.forEach((v, i) => {
+        if (v.fixedAngle === undefined || polygon.vertices.length < 3) return;
+        const { from, to } = getInteriorAngleNeighbours(polygon.vertices, i);
+        observations.push({
+            kind: 'angle',
+            id: `angle-${v.id}`,
+            at: v.id,
+            from: from.id,
+            to: to.id,
+            value: (v.fixedAngle * Math.PI) / 180,
+            sigma: (DEFAULT_ANGLE_SIGMA * Math.PI) / 180
+        });
+    });
+
+    return observations;
+};
+
+/**
+ * Least-squares counterpart of solveGeometry: uses ALL edges, diagonals and fixed angles together.
+ * Trilateration provides the initial approximation (falling back to the sketch for unreached vertices),
+ * then the network is adjusted and placed back onto the sketch with a best-fit rigid transform.
+ */
+export const adjustGeometry = (polygon: Polygon): {
+    polygon: Polygon,
+    metricError?: string,
+    residuals: EdgeResidual[],
+    sigma0: number,
+    redundancy: number
+} => {
+    if (polygon.vertices.length < 3) {
+        return { polygon: { ...polygon, vertices: polygon.vertices.map(v => ({ ...v, solved: false })) }, residuals: [], sigma0: 1, redundancy: 0 };
+    }
+
+    const approxResult = solveGeometry(polygon);
+    const approx = approxResult.polygon;
+    const initial = new Map<string, Point>();
+    approx.vertices.forEach(v => initial.set(v.id, { x: v.x / PIXELS_PER_METER, y: v.y / PIXELS_PER_METER }));
+
+    const observations = buildPolygonObservations(polygon);
+    const result = adjustNetwork(initial, observations);
+
+    if (!result.isRigid) {
+        return {
+            polygon: { ...polygon, vertices: polygon.vertices.map(v => ({ ...v, solved: false })) },
+            metricError: "Insufficient constraints to fully solve geometry.",
+            residuals: [],
+            sigma0: result.sigma0,
+            redundancy: result.redundancy
+        };
+    }
+
+    const adjustedPts = approx.vertices.map(v => result.points.get(v.id)!);
+    const placePoint = fitRigidTransform(adjustedPts, approx.vertices.map(v => ({ x: v.x / PIXELS_PER_METER, y: v.y / PIXELS_PER_METER })));
+
+    const mirroredIds = approxResult.mirroredVertexIds || [];
+    const vertices: Vertex[] = polygon.vertices.map(v => {
+        const p = placePoint(result.points.get(v.id)!);
+        return { ...v, x: p.x * PIXELS_PER_METER, y: p.y * PIXELS_PER_METER, solved: !mirroredIds.includes(v.id) };
+    });
+
+    // A folded initial approximation converges to a folded minimum: report it instead of hiding it
+    let metricError: string | undefined = result.converged ? undefined : "Adjustment did not converge. Check for gross measurement errors.";
+    if (!metricError && mirroredIds.length > 0) {
+        metricError = mirrorAmbiguityMessage(polygon.vertices.filter(v => mirroredIds.includes(v.id)));
+    }
+    if (!metricError) {
+        const crossing = findCrossingPerimeterEdges(vertices);
+        if (crossing) metricError = foldedGeometryMessage(crossing);
+    }
+
+    const residuals: EdgeResidual[] = polygon.edges.map(e => {
+        const residual = result.residuals.get(e.id) ?? 0;
+        return {
+            edgeId: e.id,
+            measured: e.length,
+            adjusted: e.length - residual,
+            residual
+        };
+    });
+
+    return {
+        polygon: {
+            ...polygon,
+            vertices,
+            centroid: calculateCentroid(vertices)
+        },
+        metricError,
+        residuals,
+        sigma0: result.sigma0,
+        redundancy: result.redundancy
+    };
+};
+
+/**
+ * Root mean square of edge residuals (meters).
+ */
+export const calculateResidualRMS = (residuals: EdgeResidual[]): number => {
+    if (residuals.length === 0) return 0;
+    return Math.sqrt(residuals.reduce((sum, r) => sum + r.residual * r.residual, 0) / residuals.length);
+};
+
+
+// --- Group (Multi-Room) Adjustment ---
+
+// Joined walls are modelled as near-hard constraints
+export const LINK_SIGMA = 0.002; // meters
+
+/**
+ * Pseudo-observations reproducing the rigid join of alignPolygonToEdge as soft constraints:
+ * both source wall endpoints sit at 'thickness' outside the target wall, and the source midpoint
+ * is slid by 'alignmentOffset' along it. Each link (pair of linked edges) is modelled once.
+ */
+export const buildLinkObservations = (polygons: Polygon[]): Observation[] => {
+    const observations: Observation[] = [];
+    const visited = new Set<string>();
+
+    polygons.forEach(sourcePoly => {
+        sourcePoly.edges.forEach(sEdge => {
+            if (!sEdge.linkedEdgeId || visited.has(sEdge.id)) return;
+            const targetPoly = polygons.find(p => p.edges.some(e => e.id === sEdge.linkedEdgeId));
+            if (!targetPoly) return;
+            const tEdge = targetPoly.edges.find(e => e.id === sEdge.linkedEdgeId)!;
+            visited.add(sEdge.id);
+            visited.add(tEdge.id);
+
+            // The edge carrying the offset is the one that was moved onto the other (source)
+            const [src, tgt, tPoly] = sEdge.alignmentOffset === undefined && tEdge.alignmentOffset !== undefined
+                ? [tEdge, sEdge, sourcePoly]
+                : [sEdge, tEdge, targetPoly];
+
+            const gap = (src.thickness || tgt.thickness || 10) / 100;
+            const offset = src.alignmentOffset || 0;
+            const tIsCW = getPolygonSignedArea(tPoly.vertices) > 0;
+
+            // Unit direction and outward normal of the target wall
+            const frame = (t1: Point, t2: Point) => {
+                const len = Math.max(Math.hypot(t2.x - t1.x, t2.y - t1.y), 1e-12);
+                const ux = (t2.x - t1.x) / len;
+                const uy = (t2.y - t1.y) / len;
+                return { ux, uy, nx: tIsCW ? uy : -uy, ny: tIsCW ? -ux : ux };
+            };
+
+            const points = [tgt.startVertexId, tgt.endVertexId, src.startVertexId, src.endVertexId];
+            const linkId = `link-${src.id}`;
+
+            [2, 3].forEach(k => {
+                observations.push({
+                    kind: 'custom',
+                    id: `${linkId}-gap${k - 1}`,
+                    points,
+                    value: gap,
+                    sigma: LINK_SIGMA,
+                    evaluate: ([t1, t2, ...s]) => {
+                        const f = frame(t1, t2);
+                        const p = s[k - 2];
+                        return (p.x - t1.x) * f.nx + (p.y - t1.y) * f.ny;
+                    }
+                });
+            });
+
+            observations.push({
+                kind: 'custom',
+                id: `${linkId}-offset`,
+                points,
+                value: offset,
+                sigma: LINK_SIGMA,
+                evaluate: ([t1, t2, s1, s2]) => {
+                    const f = frame(t1, t2);
+                    const dx = (s1.x + s2.x) / 2 - (t1.x + t2.x) / 2;
+                    const dy = (s1.y + s2.y) / 2 - (t1.y + t2.y) / 2;
+                    return dx * f.ux + dy * f.uy;
+                }
+            });
+        });
+    });
+
+    return observations;
+};
+
+/**
+ * Cross-polygon tape measurements as plain distance observations. adjustGroup ignores
+ * those whose endpoints lie outside the adjusted polygons.
+ */
+export const buildCrossEdgeObservations = (crossEdges: Edge[]): Observation[] =>
+    crossEdges.map(e => ({
+        kind: 'distance',
+        id: e.id,
+        from: e.startVertexId,
+        to: e.endVertexId,
+        value: e.length,
+        sigma: getEdgeSigma(e)
+    }));
+
+/**
+ * Adjusts all polygons of a joined group as ONE network: every room's edges and fixed angles,
+ * plus the shared-wall constraints (thickness gap and alignment offset) and any extra observations.
+ * Misclosure around rings of rooms is distributed over all measurements instead of accumulating
+ * in the last aligned room. The group is placed back onto its current position.
+ */
+export const adjustGroup = (polygons: Polygon[], extraObservations: Observation[] = []): {
+    polygons: Polygon[],
+    metricError?: string,
+    residuals: EdgeResidual[],
+    linkResiduals: Map<string, number>,
+    sigma0: number,
+    redundancy: number
+} => {
+    const initial = new Map<string, Point>();
+    polygons.forEach(p => p.vertices.forEach(v => initial.set(v.id, { x: v.x / PIXELS_PER_METER, y: v.y / PIXELS_PER_METER })));
+
+    const linkObservations = buildLinkObservations(polygons);
+    const observations = [
+        ...polygons.flatMap(buildPolygonObservations),
+        ...linkObservations,
+        ...extraObservations.filter(o => observationPoints(o).every(id => initial.has(id)))
+    ];
+
+    const result = adjustNetwork(initial, observations);
+
+    if (!result.isRigid) {
+        return { polygons, metricError: "Insufficient constraints to solve the group as one network.", residuals: [], linkResiduals: new Map(), sigma0: result.sigma0, redundancy: result.redundancy };
+    }
+
+    const ids = Array.from(initial.keys());
+    const placePoint = fitRigidTransform(ids.map(id => result.points.get(id)!), ids.map(id => initial.get(id)!));
+
+    const adjustedPolygons = polygons.map(poly => {
+        const vertices = poly.vertices.map(v => {
+            const p = placePoint(result.points.get(v.id)!);
+            return { ...v, x: p.x * PIXELS_PER_METER, y: p.y * PIXELS_PER_METER, solved: true };
+        });
+        return { ...poly, vertices, centroid: calculateCentroid(vertices) };
+    });
+
+    let metricError: string | undefined = result.converged ? undefined : "Group adjustment did not converge. Check for gross measurement errors.";
+    if (!metricError) {
+        for (const poly of adjustedPolygons) {
+            const crossing = findCrossingPerimeterEdges(poly.vertices);
+            if (crossing) {
+                metricError = `${poly.name}: ${foldedGeometryMessage(crossing)}`;
+                break;
+            }
+        }
+    }
+
+    const residuals: EdgeResidual[] = polygons.flatMap(poly => poly.edges.map(e => {
+        const residual = result.residuals.get(e.id) ?? 0;
+        return { edgeId: e.id, measured: e.length, adjusted: e.length - residual, residual };
+    }));
+
+    const linkResiduals = new Map<string, number>();
+    linkObservations.forEach(o => linkResiduals.set(o.id, result.residuals.get(o.id) ?? 0));
+
+    return {
+        polygons: adjustedPolygons,
+        metricError,
+        residuals,
+        linkResiduals,
+        sigma0: result.sigma0,
+        redundancy: result.redundancy
+    };
+};
+
+
+// --- Uncertainty Propagation ---
+
+/**
+ * Cofactor matrix of the point coordinates of a free network, in the minimum-trace datum
+ * (uncertainty relative to the network as a whole). Computed as the pseudo-inverse of N:
+ * (N + GGᵀ)⁻¹ - GGᵀ, with G the orthonormal translation/rotation null space.
+ * Uses the a priori sigmas (σ0 = 1), so values are in m². Returns null if the network is not rigid.
+ */
+export const computeCofactorMatrix = (coords: Map<string, Point>, observations: Observation[]): { index: Map<string, number>, Q: number[][] } | null => {
+    const ids = Array.from(coords.keys());
+    const index = new Map<string, number>();
+    ids.forEach((id, i) => index.set(id, i));
+    const numParams = ids.length * 2;
+    if (ids.length < 2) return null;
+
+    const { N } = buildNormalEquations(observations, coords, index);
+    if (matrixRank(N) < numParams - DATUM_DEFECT) return null;
+
+    const n = ids.length;
+    const c = ids.reduce((a, id) => ({ x: a.x + coords.get(id)!.x / n, y: a.y + coords.get(id)!.y / n }), { x: 0, y: 0 });
+    const G: number[][] = [new Array(numParams).fill(0), new Array(numParams).fill(0), new Array(numParams).fill(0)];
+    ids.forEach((id, i) => {
+        const p = coords.get(id)!;
+        G[0][i * 2] = 1;
+        G[1][i * 2 + 1] = 1;
+        G[2][i * 2] = -(p.y - c.y);
+        G[2][i * 2 + 1] = p.x - c.x;
+    });
+    for (const col of G) {
+        const norm = Math.hypot(...col);
+        if (norm < 1e-12) return null;
+        for (let i = 0; i < numParams; i++) col[i] /= norm;
+    }
+
+    const GGt = (i: number, j: number) => G[0][i] * G[0][j] + G[1][i] * G[1][j] + G[2][i] * G[2][j];
+    const inverse = invertMatrix(N.map((row, i) => row.map((val, j) => val + GGt(i, j))));
+    if (!inverse) return null;
+
+    return { index, Q: inverse.map((row, i) => row.map((val, j) => val - GGt(i, j))) };
+};
+
+/**
+ * How far each vertex moves for a unit error in each measured length (meters per meter), in the
+ * minimum-trace datum: vertexId -> edgeId -> shift. Derived from the same linearised network as the
+ * error ellipses, so redundant measurements share the error. Returns null if the polygon is not rigid.
+ */
+export const calculateEdgeSensitivity = (polygon: Polygon): Record<string, Record<string, number>> | null => {
+    const coords = new Map<string, Point>();
+    polygon.vertices.forEach(v => coords.set(v.id, { x: v.x / PIXELS_PER_METER, y: v.y / PIXELS_PER_METER }));
+    const observations = buildPolygonObservations(polygon);
+    const cofactor = computeCofactorMatrix(coords, observations);
+    if (!cofactor) return null;
+    const { index, Q } = cofactor;
+
+    const sensitivity: Record<string, Record<string, number>> = {};
+    polygon.vertices.forEach(v => { sensitivity[v.id] = {}; });
+    observations.forEach(obs => {
+        if (obs.kind !== 'distance') return;
+        // Coordinate response to a unit change of this observation: Q·aᵀ·w
+        const w = 1 / (obs.sigma * obs.sigma);
+        const row = observationJacobian(obs, coords).flatMap(d => [
+            { i: index.get(d.id)! * 2, a: d.dx },
+            { i: index.get(d.id)! * 2 + 1, a: d.dy }
+        ]);
+        polygon.vertices.forEach(v => {
+            const k = index.get(v.id)! * 2;
+            const dx = row.reduce((sum, r) => sum + Q[k][r.i] * r.a, 0) * w;
+            const dy = row.reduce((sum, r) => sum + Q[k + 1][r.i] * r.a, 0) * w;
+            sensitivity[v.id][obs.id] = Math.hypot(dx, dy);
+        });
+    });
+    return sensitivity;
+};
+
+/**
+ * Standard error ellipse (1σ) from a 2x2 coordinate covariance.
+ */
+export const calculateErrorEllipse = (sxx: number, sxy: number, syy: number): ErrorEllipse => {
+    const mean = (sxx + syy) / 2;
+    const radius = Math.hypot((sxx - syy) / 2, sxy);
+    return {
+        major: Math.sqrt(Math.max(0, mean + radius)),
+        minor: Math.sqrt(Math.max(0, mean - radius)),
+        angle: 0.5 * Math.atan2(2 * sxy, sxx - syy)
+    };
+};
+
+export const clearUncertainty = (poly: Polygon): Polygon => ({
+    ...poly,
+    areaSigma: undefined,
+    vertices: poly.vertices.map(v => ({ ...v, errorEllipse: undefined }))
+});
+
+/**
+ * Propagates the measurement sigmas of one or more (solved) polygons into vertex error ellipses
+ * and area uncertainty. Several polygons are treated as one network, including their joined walls,
+ * so 'totalAreaSigma' accounts for the correlation between rooms.
+ */
+export const estimateUncertainty = (polygons: Polygon[], extraObservations: Observation[] = []): { polygons: Polygon[], totalAreaSigma?: number } => {
+    const coords = new Map<string, Point>();
+    polygons.forEach(p => p.vertices.forEach(v => coords.set(v.id, { x: v.x / PIXELS_PER_METER, y: v.y / PIXELS_PER_METER })));
+
+    const observations = [
+        ...polygons.flatMap(buildPolygonObservations),
+        ...buildLinkObservations(polygons),
+        ...extraObservations.filter(o => observationPoints(o).every(id => coords.has(id)))
+    ];
+
+    const cofactor = computeCofactorMatrix(coords, observations);
+    if (!cofactor) return { polygons: polygons.map(clearUncertainty) };
+    const { index, Q } = cofactor;
+
+    const variance = (g: number[]) => {
+        let sum = 0;
+        for (let i = 0; i < g.length; i++) {
+            if (g[i] === 0) continue;
+            for (let j = 0; j < g.length; j++) sum += g[i] * Q[i][j] * g[j];
+        }
+        return Math.max(0, sum);
+    };
+
+    // Gradient of the (absolute) shoelace area w.r.t. the coordinates
+    const totalGradient = new Array(Q.length).fill(0);
+    const result = polygons.map(poly => {
+        const n = poly.vertices.length;
+        const sign = getPolygonSignedArea(poly.vertices) >= 0 ? 1 : -1;
+        const gradient = new Array(Q.length).fill(0);
+        poly.vertices.forEach((v, i) => {
+            const prev = coords.get(poly.vertices[(i - 1 + n) % n].id)!;
+            const next = coords.get(poly.vertices[(i + 1) % n].id)!;
+            const k = index.get(v.id)! * 2;
+            gradient[k] = sign * (next.y - prev.y) / 2;
+            gradient[k + 1] = sign * (prev.x - next.x) / 2;
+        });
+        gradient.forEach((g, i) => { totalGradient[i] += g; });
+
+        const vertices = poly.vertices.map(v => {
+            const k = index.get(v.id)! * 2;
+            return { ...v, errorEllipse: calculateErrorEllipse(Q[k][k], Q[k][k + 1], Q[k + 1][k + 1]) };
+        });
+        return { ...poly, vertices, areaSigma: Math.sqrt(variance(gradient)) };
+    });
+
+    return { polygons: result, totalAreaSigma: Math.sqrt(variance(totalGradient)) };
+};
@@ -0,0 +1,83 @@
+import { Polygon, Vertex, GeometryDiagnostics, SliverTriangle, UnitSystem } from '../types';
+import { calculateEdgeSensitivity } from './adjustment';
+import { getEdgeLabel, triangleMinAngle } from './geometry';
+
+// --- Geometry Diagnostics ---
+
+// Trilateration puts a vertex where two circles cross. When the crossing is shallow (a triangle with
+// a tiny angle) a small tape error slides the vertex a long way along the circles, even though the
+// solve itself succeeds. These checks flag such geometry after solving.
+
+// Triangles with an angle below this (degrees) are flagged as slivers
+export const SLIVER_ANGLE = 15;
+// A vertex moving more than this many times an edge's error is flagged as sensitive
+export const SENSITIVITY_WARNING = 3;
+
+// Every triangle whose three sides are measured edges (walls or diagonals) with an angle below SLIVER_ANGLE
+const findSliverTriangles = (poly: Polygon): SliverTriangle[] => {
+    const neighbours = new Map<string, Set<string>>(poly.vertices.map(v => [v.id, new Set<string>()]));
+    poly.edges.forEach(e => {
+        neighbours.get(e.startVertexId)?.add(e.endVertexId);
+        neighbours.get(e.endVertexId)?.add(e.startVertexId);
+    });
+    const position = new Map(poly.vertices.map(v => [v.id, v]));
+    const order = new Map(poly.vertices.map((v, i) => [v.id, i]));
+
+    const slivers: SliverTriangle[] = [];
+    poly.vertices.forEach(a => {
+        const around = [...neighbours.get(a.id)!].filter(id => order.get(id)! > order.get(a.id)!);
+        around.forEach((bId, k) => {
+            around.slice(k + 1).forEach(cId => {
+                if (!neighbours.get(bId)!.has(cId)) return;
+                const minAngle = triangleMinAngle(a, position.get(bId)!, position.get(cId)!);
+                if (minAngle < SLIVER_ANGLE) slivers.push({ vertexIds: [a.id, bId, cId], minAngle });
+            });
+        });
+    });
+    return slivers.sort((s1, s2) => s1.minAngle - s2.minAngle);
+};
+
+/**
+ * Conditioning checks for a solved polygon: sliver triangles and how far each vertex moves per unit
+ * error on each edge. Sensitivity is empty if the network is not rigid.
+ */
+export const diagnoseGeometry = (poly: Polygon): GeometryDiagnostics => ({
+    slivers: findSliverTriangles(poly),
+    sensitivity: calculateEdgeSensitivity(poly) ?? {}
+});
+
+/**
+ * Largest shift of a vertex over all edges, with the edge responsible.
+ */
+export const getWorstSensitivity = (diagnostics: GeometryDiagnostics, vertexId: string): { edgeId: string; shift: number } | null => {
+    const perEdge = diagnostics.sensitivity[vertexId];
+    if (!perEdge) return null;
+    return Object.entries(perEdge).reduce<{ edgeId: string; shift: number } | null>(
+        (worst, [edgeId, shift]) => !worst || shift > worst.shift ? { edgeId, shift } : worst, null);
+};
+
+/**
+ * One-line summary for the solver message, or null if the geometry is well conditioned.
+ */
+export const describeDiagnostics = (poly: Polygon, diagnostics: GeometryDiagnostics, system: UnitSystem): string | null => {
+    const label = (id: string) => poly.vertices.find(v => v.id === id)?.label ?? '?';
+    const parts: string[] = [];
+
+    if (diagnostics.slivers.length > 0) {
+        const worst = diagnostics.slivers[0];
+        const more = diagnostics.slivers.length > 1 ? ` (+${diagnostics.slivers.length - 1} more)` : '';
+        parts.push(`triangle ${worst.vertexIds.map(label).join('-')} has a ${worst.minAngle.toFixed(1)}° angle${more}`);
+    }
+
+    const worstVertex = poly.vertices
+        .map(v => ({ vertex: v, worst: getWorstSensitivity(diagnostics, v.id) }))
+        .reduce<{ vertex: Vertex; worst: { edgeId: string; shift: number } } | null>(
+            (w, c) => c.worst && (!w || c.worst.shift > w.worst.shift) ? { vertex: c.vertex, worst: c.worst } : w, null);
+    if (worstVertex && worstVertex.worst.shift >= SENSITIVITY_WARNING) {
+        const edge = poly.edges.find(e => e.id === worstVertex.worst.edgeId);
+        const unit = system === 'imperial' ? 'in' : 'cm';
+        parts.push(`${worstVertex.vertex.label} moves ${worstVertex.worst.shift.toFixed(1)} ${unit} per ${unit} of error on ${edge ? getEdgeLabel(poly, edge) : 'an edge'}`);
+    }
+
+    return parts.length > 0 ? `Weak geometry: ${parts.join('; ')}. Measure a better-placed diagonal.` : null;
+};
@@ -0,0 +1,704 @@
+import { Point, Edge, EdgeType, Polygon, UnitSystem } from '../types';
+import { PIXELS_PER_METER, findVertex, getPolygonsBounds, calculatePolygonArea, calculateCentroid, addScaled, getWallSides, getOuterCorner, getOpening, getDimensionLines, getDimensionTextAngle, DEFAULT_SYMBOL_DEPTH_PX } from './geometry';
+import { METERS_PER_INCH, METERS_PER_FOOT, formatArea, formatLength } from './units';
+
+// DXF $INSUNITS codes
+const DXF_INSUNITS: Record<UnitSystem, number> = { metric: 6, imperial: 1 }; // Meters / Inches
+
+// Drawing units: meters, or inches for imperial projects
+const getUnitsPerPixel = (unitSystem: UnitSystem) =>
+    unitSystem === 'imperial' ? 1 / (PIXELS_PER_METER * METERS_PER_INCH) : 1 / PIXELS_PER_METER;
+
+const getTextHeight = (unitSystem: UnitSystem) => unitSystem === 'imperial' ? 0.2 / METERS_PER_INCH : 0.2;
+
+/**
+ * Simple export: every edge as a LINE on WALLS / DIAGONALS, one name label per polygon.
+ */
+export const generateDXF = (polygons: Polygon[], crossEdges: Edge[] = [], unitSystem: UnitSystem = 'metric'): string => {
+    const unitsPerPixel = getUnitsPerPixel(unitSystem);
+    const textHeight = getTextHeight(unitSystem);
+
+    let s = "0\nSECTION\n2\nHEADER\n9\n$INSUNITS\n70\n" + DXF_INSUNITS[unitSystem] + "\n0\nENDSEC\n0\nSECTION\n2\nENTITIES\n";
+
+    for (const poly of polygons) {
+        for (const edge of poly.edges) {
+             const v1 = poly.vertices.find(v => v.id === edge.startVertexId);
+             const v2 = poly.vertices.find(v => v.id === edge.endVertexId);
+             if (v1 && v2) {
+                 const x1 = v1.x * unitsPerPixel;
+                 const y1 = -v1.y * unitsPerPixel; // Invert Y for CAD
+                 const x2 = v2.x * unitsPerPixel;
+                 const y2 = -v2.y * unitsPerPixel;
+
+                 s += "0\nLINE\n";
+                 s += "8\n" + (edge.type === EdgeType.PERIMETER ? "WALLS" : "DIAGONALS") + "\n";
+                 s += "10\n" + x1.toFixed(4) + "\n";
+                 s += "20\n" + y1.toFixed(4) + "\n";
+                 s += "30\n0.0\n";
+                 s += "11\n" + x2.toFixed(4) + "\n";
+                 s += "21\n" + y2.toFixed(4) + "\n";
+                 s += "31\n0.0\n";
+             }
+        }
+
+        const c = poly.centroid;
+        const cx = c.x * unitsPerPixel;
+        const cy = -c.y * unitsPerPixel;
+        s += "0\nTEXT\n";
+        s += "8\nLABELS\n";
+        s += "10\n" + cx.toFixed(4) + "\n";
+        s += "20\n" + cy.toFixed(4) + "\n";
+        s += "30\n0.0\n";
+        s += "40\n" + textHeight.toFixed(4) + "\n";
+        s += "1\n" + poly.name + "\n";
+    }
+
+    for (const edge of crossEdges) {
+        const a = findVertex(polygons, edge.startVertexId);
+        const b = findVertex(polygons, edge.endVertexId);
+        if (!a || !b) continue;
+        s += "0\nLINE\n";
+        s += "8\nMEASUREMENTS\n";
+        s += "10\n" + (a.vertex.x * unitsPerPixel).toFixed(4) + "\n";
+        s += "20\n" + (-a.vertex.y * unitsPerPixel).toFixed(4) + "\n";
+        s += "30\n0.0\n";
+        s += "11\n" + (b.vertex.x * unitsPerPixel).toFixed(4) + "\n";
+        s += "21\n" + (-b.vertex.y * unitsPerPixel).toFixed(4) + "\n";
+        s += "31\n0.0\n";
+    }
+
+    s += "0\nENDSEC\n0\nEOF\n";
+    return s;
+};
+
+// --- CAD Plan Export ---
+
+interface DxfLayer {
+    name: string;
+    color: number; // AutoCAD Color Index
+    lineType: 'CONTINUOUS' | 'DASHED';
+}
+
+const FIXED_LAYERS: DxfLayer[] = [
+    { name: 'WALLS', color: 7, lineType: 'CONTINUOUS' },
+    { name: 'DOORS', color: 30, lineType: 'CONTINUOUS' },
+    { name: 'WINDOWS', color: 4, lineType: 'CONTINUOUS' },
+    { name: 'DIAGONALS', color: 8, lineType: 'DASHED' },
+    { name: 'MEASUREMENTS', color: 3, lineType: 'DASHED' },
+    { name: 'DIMENSIONS', color: 5, lineType: 'CONTINUOUS' }
+];
+
+// Dimension rows beyond the wall face (px)
+const DIMENSION_CHAIN_OFFSET_PX = 40;
+const DIMENSION_OVERALL_OFFSET_PX = 80;
+
+type DxfPair = [number, string | number];
+
+// Avoid "-0.0000" for values that round to zero
+const num = (value: number) => (Math.abs(value) < 5e-5 ? 0 : value).toFixed(4);
+const writePairs = (pairs: DxfPair[]) => pairs.map(([code, value]) => `${code}\n${value}`).join('\n') + '\n';
+
+// DXF text is not UTF-8 before R2007; use AutoCAD unicode escapes for non-ASCII characters
+const toDxfText = (text: string) => text.replace(/[^\x20-\x7e]/g, ch => `\\U+${ch.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`);
+
+// Layer names may not contain <>/\":;?*|=`
+const toLayerName = (name: string) => toDxfText(name.replace(/[<>/\\":;?*|=`]/g, '_').trim()) || 'UNNAMED';
+
+/**
+ * CAD plan export: each room as a closed LWPOLYLINE with name and area on its own layer,
+ * double-line walls offset outward by Edge.thickness, door/window openings with symbols and,
+ * optionally, chained dimension lines on the DIMENSIONS layer. Written as R2000 (AC1015) with
+ * the structure that version requires: all nine tables, the *Model_Space and *Paper_Space
+ * blocks, a root dictionary, and an owner handle (330) on every object.
+ */
+export const generatePlanDXF = (polygons: Polygon[], crossEdges: Edge[] = [], unitSystem: UnitSystem = 'metric', dimensions: boolean = true): string => {
+    const unitsPerPixel = getUnitsPerPixel(unitSystem);
+    const textHeight = getTextHeight(unitSystem);
+    const unitsPerMeter = unitsPerPixel * PIXELS_PER_METER;
+    const toCad = (p: Point) => ({ x: p.x * unitsPerPixel, y: -p.y * unitsPerPixel }); // Invert Y for CAD
+
+    let handle = 0x20;
+    const nextHandle = () => (handle++).toString(16).toUpperCase();
+    // Entities are owned by the model space block record, so its handle is needed first
+    const blockRecordTable = nextHandle();
+    const modelSpace = nextHandle();
+    const paperSpace = nextHandle();
+    const entities: string[] = [];
+
+    const entity = (type: string, layer: string, subclass: string, pairs: DxfPair[]) => {
+        entities.push(writePairs([[0, type], [5, nextHandle()], [330, modelSpace], [100, 'AcDbEntity'], [8, layer], [100, subclass], ...pairs]));
+    };
+    const line = (layer: string, p1: Point, p2: Point) => {
+        const a = toCad(p1), b = toCad(p2);
+        entity('LINE', layer, 'AcDbLine', [[10, num(a.x)], [20, num(a.y)], [30, num(0)], [11, num(b.x)], [21, num(b.y)], [31, num(0)]]);
+    };
+    const polyline = (layer: string, points: Point[], closed: boolean) => {
+        const coords = points.map(toCad).flatMap((p): DxfPair[] => [[10, num(p.x)], [20, num(p.y)]]);
+        entity('LWPOLYLINE', layer, 'AcDbPolyline', [[90, points.length], [70, closed ? 1 : 0], ...coords]);
+    };
+    // Rotation in screen degrees (clockwise), as used by the canvas
+    const text = (layer: string, at: Point, height: number, value: string, rotation: number = 0) => {
+        const p = toCad(at);
+        entity('TEXT', layer, 'AcDbText', [
+            [10, num(p.x)], [20, num(p.y)], [30, num(0)], [40, num(height)], [1, toDxfText(value)],
+            [50, num(((-rotation % 360) + 360) % 360)],
+            [72, 1], [11, num(p.x)], [21, num(p.y)], [31, num(0)],
+            [100, 'AcDbText'], [73, 2]
+        ]);
+    };
+    // Quarter swing from the closed leaf direction to the open leaf direction (CAD arcs run counter-clockwise)
+    const swingArc = (layer: string, hinge: Point, radiusPx: number, from: Point, to: Point) => {
+        const c = toCad(hinge), f = toCad(from), t = toCad(to);
+        const angleF = Math.atan2(f.y - c.y, f.x - c.x) * 180 / Math.PI;
+        const angleT = Math.atan2(t.y - c.y, t.x - c.x) * 180 / Math.PI;
+        const ccw = ((angleT - angleF) % 360 + 360) % 360 <= 180;
+        const [start, end] = ccw ? [angleF, angleT] : [angleT, angleF];
+        entity('ARC', layer, 'AcDbCircle', [
+            [10, num(c.x)], [20, num(c.y)], [30, num(0)], [40, num(radiusPx * unitsPerPixel)],
+            [100, 'AcDbArc'], [50, num((start + 360) % 360)], [51, num((end + 360) % 360)]
+        ]);
+    };
+
+    // Room layers, unique per polygon
+    const layers: DxfLayer[] = [...FIXED_LAYERS];
+    const roomLayers = new Map<string, string>();
+    polygons.forEach(poly => {
+        const base = `ROOM-${toLayerName(poly.name)}`;
+        let name = base;
+        for (let n = 2; layers.some(l => l.name.toUpperCase() === name.toUpperCase()); n++) name = `${base}-${n}`;
+        layers.push({ name, color: 8, lineType: 'CONTINUOUS' });
+        roomLayers.set(poly.id, name);
+    });
+
+    for (const poly of polygons) {
+        if (poly.vertices.length < 2) continue;
+        const roomLayer = roomLayers.get(poly.id)!;
+        polyline(roomLayer, poly.vertices, poly.isClosed);
+
+        const sides = getWallSides(poly);
+        sides.forEach((side, i) => {
+            const prev = poly.isClosed || i > 0 ? sides[(i - 1 + sides.length) % sides.length] : undefined;
+            const next = poly.isClosed || i < sides.length - 1 ? sides[(i + 1) % sides.length] : undefined;
+            const opening = getOpening(side);
+            const at = (distance: number, depth: number = 0) => addScaled(addScaled(side.start, side.dir, distance), side.outward, depth);
+
+            // Inner face, split around the opening
+            if (opening) {
+                if (opening.from > 0) line('WALLS', side.start, at(opening.from));
+                if (opening.to < side.length) line('WALLS', at(opening.to), side.end);
+            } else {
+                line('WALLS', side.start, side.end);
+            }
+
+            // Outer face. A joined wall's outer face is the neighbouring room's inner face.
+            const hasOuterFace = side.thickness > 0 && !side.edge?.linkedEdgeId;
+            if (hasOuterFace) {
+                const outerStart = getOuterCorner(side, prev, side.start);
+                const outerEnd = getOuterCorner(side, next, side.end);
+                if (opening) {
+                    line('WALLS', outerStart, at(opening.from, side.thickness));
+                    line('WALLS', at(opening.to, side.thickness), outerEnd);
+                } else {
+                    line('WALLS', outerStart, outerEnd);
+                }
+                // End caps where the neighbouring side has no wall
+                if (!prev || prev.thickness === 0) line('WALLS', side.start, outerStart);
+                if (!next || next.thickness === 0) line('WALLS', side.end, outerEnd);
+            }
+
+            if (!opening) return;
+            if (opening.feature === 'door') {
+                if (side.thickness > 0) {
+                    line('WALLS', at(opening.from), at(opening.from, side.thickness));
+                    line('WALLS', at(opening.to), at(opening.to, side.thickness));
+                }
+                // Hinged on the side nearer the edge's start vertex, swinging into the room
+                const width = opening.to - opening.from;
+                const hinge = at(side.reversed ? opening.to : opening.from);
+                const closed = at(side.reversed ? opening.from : opening.to);
+                const open = addScaled(hinge, side.outward, -width);
+                line('DOORS', hinge, open);
+                swingArc('DOORS', hinge, width, closed, open);
+            } else {
+                const depth = side.thickness > 0 ? side.thickness : DEFAULT_SYMBOL_DEPTH_PX;
+                polyline('WINDOWS', [at(opening.from), at(opening.to), at(opening.to, depth), at(opening.from, depth)], true);
+                line('WINDOWS', at(opening.from, depth / 2), at(opening.to, depth / 2));
+            }
+        });
+
+        poly.edges
+            .filter(e => e.type === EdgeType.DIAGONAL)
+            .forEach(e => {
+                const v1 = poly.vertices.find(v => v.id === e.startVertexId);
+                const v2 = poly.vertices.find(v => v.id === e.endVertexId);
+                if (v1 && v2) line('DIAGONALS', v1, v2);
+            });
+
+        if (dimensions) {
+            const tickPx = 8;
+            const dimensionTextHeight = textHeight * 0.6;
+            getDimensionLines(poly, DIMENSION_CHAIN_OFFSET_PX, DIMENSION_OVERALL_OFFSET_PX).forEach(dim => {
+                const length = Math.hypot(dim.lineEnd.x - dim.lineStart.x, dim.lineEnd.y - dim.lineStart.y);
+                if (length === 0) return;
+                const dir = { x: (dim.lineEnd.x - dim.lineStart.x) / length, y: (dim.lineEnd.y - dim.lineStart.y) / length };
+                const tick = { x: (dir.x + dim.normal.x) * tickPx / 2, y: (dir.y + dim.normal.y) * tickPx / 2 };
+                line('DIMENSIONS', addScaled(dim.start, dim.normal, tickPx / 2), addScaled(dim.lineStart, dim.normal, tickPx / 2));
+                line('DIMENSIONS', addScaled(dim.end, dim.normal, tickPx / 2), addScaled(dim.lineEnd, dim.normal, tickPx / 2));
+                line('DIMENSIONS', dim.lineStart, dim.lineEnd);
+                [dim.lineStart, dim.lineEnd].forEach(p => line('DIMENSIONS', addScaled(p, tick, -1), addScaled(p, tick)));
+                const mid = { x: (dim.lineStart.x + dim.lineEnd.x) / 2, y: (dim.lineStart.y + dim.lineEnd.y) / 2 };
+                const labelAt = addScaled(mid, dim.normal, dimensionTextHeight * 0.9 / unitsPerPixel);
+                text('DIMENSIONS', labelAt, dimensionTextHeight, formatLength(dim.length, unitSystem), getDimensionTextAngle(dim));
+            });
+        }
+
+        text(roomLayer, poly.centroid, textHeight, poly.name);
+        if (poly.isClosed && poly.vertices.length >= 3) {
+            const area = poly.area ?? calculatePolygonArea(poly.vertices);
+            const areaAt = { x: poly.centroid.x, y: poly.centroid.y + textHeight * 1.6 / unitsPerPixel };
+            text(roomLayer, areaAt, textHeight * 0.75, formatArea(area, unitSystem, poly.areaSigma));
+        }
+    }
+
+    for (const edge of crossEdges) {
+        const a = findVertex(polygons, edge.startVertexId);
+        const b = findVertex(polygons, edge.endVertexId);
+        if (a && b) line('MEASUREMENTS', a.vertex, b.vertex);
+    }
+
+    // Tables. Each record is owned by its table; DIMSTYLE records carry their handle in code 105.
+    const table = (name: string, recordSubclass: string, records: DxfPair[][]) => {
+        const owner = nextHandle();
+        return writePairs([
+            [0, 'TABLE'], [2, name], [5, owner], [330, 0], [100, 'AcDbSymbolTable'], [70, records.length],
+            ...(name === 'DIMSTYLE' ? [[100, 'AcDbDimStyleTable']] as DxfPair[] : []),
+            ...records.flatMap((fields): DxfPair[] => [
+                [0, name], [name === 'DIMSTYLE' ? 105 : 5, nextHandle()], [330, owner],
+                [100, 'AcDbSymbolTableRecord'], [100, recordSubclass], ...fields
+            ]),
+            [0, 'ENDTAB']
+        ]);
+    };
+    const tables = [
+        table('VPORT', 'AcDbViewportTableRecord', []),
+        table('LTYPE', 'AcDbLinetypeTableRecord', [
+            [[2, 'ByBlock'], [70, 0], [3, ''], [72, 65], [73, 0], [40, num(0)]],
+            [[2, 'ByLayer'], [70, 0], [3, ''], [72, 65], [73, 0], [40, num(0)]],
+            [[2, 'CONTINUOUS'], [70, 0], [3, 'Solid line'], [72, 65], [73, 0], [40, num(0)]],
+            [[2, 'DASHED'], [70, 0], [3, '__ __ __'], [72, 65], [73, 2], [40, num(0.15 * unitsPerMeter)],
+                [49, num(0.1 * unitsPerMeter)], [74, 0], [49, num(-0.05 * unitsPerMeter)], [74, 0]]
+        ]),
+        table('LAYER', 'AcDbLayerTableRecord', [
+            [[2, '0'], [70, 0], [62, 7], [6, 'CONTINUOUS']],
+            ...layers.map((layer): DxfPair[] => [[2, layer.name], [70, 0], [62, layer.color], [6, layer.lineType]])
+        ]),
+        table('STYLE', 'AcDbTextStyleTableRecord', [
+            [[2, 'Standard'], [70, 0], [40, num(0)], [41, num(1)], [50, num(0)], [71, 0], [42, num(textHeight)], [3, 'txt'], [4, '']]
+        ]),
+        table('VIEW', 'AcDbViewTableRecord', []),
+        table('UCS', 'AcDbUCSTableRecord', []),
+        table('APPID', 'AcDbRegAppTableRecord', [[[2, 'ACAD'], [70, 0]]]),
+        table('DIMSTYLE', 'AcDbDimStyleTableRecord', [[[2, 'Standard'], [70, 0]]]),
+        // Written by hand: the block record handles were taken before the entities
+        writePairs([
+            [0, 'TABLE'], [2, 'BLOCK_RECORD'], [5, blockRecordTable], [330, 0], [100, 'AcDbSymbolTable'], [70, 2],
+            ...[[modelSpace, '*Model_Space'], [paperSpace, '*Paper_Space']].flatMap(([record, name]): DxfPair[] => [
+                [0, 'BLOCK_RECORD'], [5, record], [330, blockRecordTable],
+                [100, 'AcDbSymbolTableRecord'], [100, 'AcDbBlockTableRecord'], [2, name]
+            ]),
+            [0, 'ENDTAB']
+        ])
+    ].join('');
+
+    // Empty *Model_Space and *Paper_Space block definitions
+    const blocks = [[modelSpace, '*Model_Space'], [paperSpace, '*Paper_Space']].map(([record, name]) => {
+        const space: DxfPair[] = record === paperSpace ? [[67, 1]] : [];
+        return writePairs([
+            [0, 'BLOCK'], [5, nextHandle()], [330, record], [100, 'AcDbEntity'], ...space, [8, '0'], [100, 'AcDbBlockBegin'],
+            [2, name], [70, 0], [10, num(0)], [20, num(0)], [30, num(0)], [3, name], [1, ''],
+            [0, 'ENDBLK'], [5, nextHandle()], [330, record], [100, 'AcDbEntity'], ...space, [8, '0'], [100, 'AcDbBlockEnd']
+        ]);
+    }).join('');
+
+    // Root dictionary with the group dictionary every drawing has
+    const rootDictionary = nextHandle();
+    const groupDictionary = nextHandle();
+    const objects = writePairs([
+        [0, 'DICTIONARY'], [5, rootDictionary], [330, 0], [100, 'AcDbDictionary'], [281, 1], [3, 'ACAD_GROUP'], [350, groupDictionary],
+        [0, 'DICTIONARY'], [5, groupDictionary], [330, rootDictionary], [100, 'AcDbDictionary'], [281, 1]
+    ]);
+
+    // Header
+    const bounds = getPolygonsBounds(polygons);
+    const margin = Math.max(0, ...polygons.flatMap(p => p.edges.map(e => e.thickness ?? 0))) + (dimensions ? DIMENSION_OVERALL_OFFSET_PX : 0);
+    const extMin = toCad({ x: (bounds?.minX ?? 0) - margin, y: (bounds?.maxY ?? 0) + margin });
+    const extMax = toCad({ x: (bounds?.maxX ?? 0) + margin, y: (bounds?.minY ?? 0) - margin });
+    const header = writePairs([
+        [9, '$ACADVER'], [1, 'AC1015'],
+        [9, '$HANDSEED'], [5, handle.toString(16).toUpperCase()],
+        [9, '$INSUNITS'], [70, DXF_INSUNITS[unitSystem]],
+        [9, '$MEASUREMENT'], [70, unitSystem === 'imperial' ? 0 : 1],
+        [9, '$EXTMIN'], [10, num(extMin.x)], [20, num(extMin.y)], [30, num(0)],
+        [9, '$EXTMAX'], [10, num(extMax.x)], [20, num(extMax.y)], [30, num(0)]
+    ]);
+
+    return '0\nSECTION\n2\nHEADER\n' + header + '0\nENDSEC\n'
+        + '0\nSECTION\n2\nCLASSES\n0\nENDSEC\n'
+        + '0\nSECTION\n2\nTABLES\n' + tables + '0\nENDSEC\n'
+        + '0\nSECTION\n2\nBLOCKS\n' + blocks + '0\nENDSEC\n'
+        + '0\nSECTION\n2\nENTITIES\n' + entities.join('') + '0\nENDSEC\n'
+        + '0\nSECTION\n2\nOBJECTS\n' + objects + '0\nENDSEC\n'
+        + '0\nEOF\n';
+};
+
+// --- DXF Import ---
+
+// Drawing units by $INSUNITS code
+export const DXF_UNIT_METERS: Record<number, { label: string; meters: number }> = {
+    1: { label: 'Inches', meters: METERS_PER_INCH },
+    2: { label: 'Feet', meters: METERS_PER_FOOT },
+    4: { label: 'Millimeters', meters: 0.001 },
+    5: { label: 'Centimeters', meters: 0.01 },
+    6: { label: 'Meters', meters: 1 }
+};
+
+interface DxfSegment {
+    layer: string;
+    a: Point; // Drawing coordinates (Y up)
+    b: Point;
+}
+
+interface DxfLabel {
+    layer: string;
+    at: Point;
+    height: number;
+    text: string;
+}
+
+export interface DxfDrawing {
+    insUnits: number | null; // $INSUNITS if present and supported
+    layers: { name: string; segments: number }[];
+    segments: DxfSegment[];
+    labels: DxfLabel[];
+    hasCurves: boolean; // Whether arcs or polyline bulges were flattened to straight chords
+}
+
+export type DxfParseResult =
+    | { type: 'success'; drawing: DxfDrawing }
+    | { type: 'error'; error: string };
+
+// Strips MTEXT formatting codes such as \P, \fArial|b0;, {\C1;...}
+const cleanMText = (text: string) => text
+    .replace(/\\P/g, ' ')
+    .replace(/\\[A-Za-z][^;\\{}]*;/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/\\U\+([0-9A-Fa-f]{4})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .trim();
+
+/**
+ * Reads LINE, ARC, LWPOLYLINE and POLYLINE entities (plus TEXT/MTEXT for room names) from the
+ * ENTITIES section. Arcs and polyline bulges are flattened, so curved walls import as straight chords.
+ */
+export const parseDXF = (content: string): DxfParseResult => {
+    const lines = content.split(/\r?\n/);
+    const pairs: [number, string][] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        const code = parseInt(lines[i].trim(), 10);
+        if (isNaN(code)) return { type: 'error', error: `Invalid group code on line ${i + 1}.` };
+        pairs.push([code, lines[i + 1].trim()]);
+    }
+
+    let insUnits: number | null = null;
+    const insIndex = pairs.findIndex(([code, value]) => code === 9 && value === '$INSUNITS');
+    if (insIndex !== -1 && pairs[insIndex + 1]) {
+        const code = parseInt(pairs[insIndex + 1][1], 10);
+        insUnits = DXF_UNIT_METERS[code] ? code : null;
+    }
+
+    const start = pairs.findIndex(([code, value], i) => code === 2 && value === 'ENTITIES' && pairs[i - 1]?.[1] === 'SECTION');
+    if (start === -1) return { type: 'error', error: 'No ENTITIES section found. Is this a DXF file?' };
+
+    // Group the section into entities: [type, pairs]
+    const entities: { type: string; data: [number, string][] }[] = [];
+    for (let i = start + 1; i < pairs.length; i++) {
+        const [code, value] = pairs[i];
+        if (code !== 0) {
+            entities[entities.length - 1]?.data.push(pairs[i]);
+            continue;
+        }
+        if (value === 'ENDSEC') break;
+        entities.push({ type: value, data: [] });
+    }
+
+    const segments: DxfSegment[] = [];
+    const labels: DxfLabel[] = [];
+    let hasCurves = false;
+    const getLayer = (data: [number, string][]) => data.find(([c]) => c === 8)?.[1] ?? '0';
+    const getNumber = (data: [number, string][], code: number, fallback: number = 0) => {
+        const pair = data.find(([c]) => c === code);
+        return pair ? parseFloat(pair[1]) : fallback;
+    };
+    const addPath = (layer: string, points: Point[], closed: boolean) => {
+        for (let i = 0; i + 1 < points.length; i++) segments.push({ layer, a: points[i], b: points[i + 1] });
+        if (closed && points.length > 2) segments.push({ layer, a: points[points.length - 1], b: points[0] });
+    };
+
+    for (let i = 0; i < entities.length; i++) {
+        const { type, data } = entities[i];
+        const layer = getLayer(data);
+        if (type === 'LINE') {
+            segments.push({ layer, a: { x: getNumber(data, 10), y: getNumber(data, 20) }, b: { x: getNumber(data, 11), y: getNumber(data, 21) } });
+        } else if (type === 'ARC') {
+            const cx = getNumber(data, 10), cy = getNumber(data, 20), r = getNumber(data, 40);
+            const at = (deg: number) => ({ x: cx + r * Math.cos(deg * Math.PI / 180), y: cy + r * Math.sin(deg * Math.PI / 180) });
+            segments.push({ layer, a: at(getNumber(data, 50)), b: at(getNumber(data, 51)) });
+            hasCurves = true;
+        } else if (type === 'LWPOLYLINE') {
+            const points: Point[] = [];
+            data.forEach(([code, value]) => {
+                if (code === 10) points.push({ x: parseFloat(value), y: 0 });
+                if (code === 20 && points.length > 0) points[points.length - 1].y = parseFloat(value);
+                if (code === 42 && parseFloat(value) !== 0) hasCurves = true;
+            });
+            addPath(layer, points, (getNumber(data, 70) & 1) === 1);
+        } else if (type === 'POLYLINE') {
+            // Vertices follow as separate VERTEX entities up to SEQEND; skip 3D meshes and polyface meshes
+            const flags = getNumber(data, 70);
+            const points: Point[] = [];
+            while (entities[i + 1]?.type === 'VERTEX') {
+                i++;
+                points.push({ x: getNumber(entities[i].data, 10), y: getNumber(entities[i].data, 20) });
+                if (getNumber(entities[i].data, 42) !== 0) hasCurves = true;
+            }
+            if ((flags & (16 | 64)) === 0) addPath(layer, points, (flags & 1) === 1);
+        } else if (type === 'TEXT' || type === 'MTEXT') {
+            const text = type === 'MTEXT'
+                ? cleanMText(data.filter(([c]) => c === 3 || c === 1).map(([, v]) => v).join(''))
+                : cleanMText(data.find(([c]) => c === 1)?.[1] ?? '');
+            if (text) labels.push({ layer, at: { x: getNumber(data, 10), y: getNumber(data, 20) }, height: getNumber(data, 40, 1), text });
+        }
+    }
+
+    const valid = segments.filter(s => [s.a.x, s.a.y, s.b.x, s.b.y].every(Number.isFinite));
+    const counts = new Map<string, number>();
+    valid.forEach(s => counts.set(s.layer, (counts.get(s.layer) ?? 0) + 1));
+
+    return {
+        type: 'success',
+        drawing: {
+            insUnits,
+            layers: Array.from(counts, ([name, count]) => ({ name, segments: count })).sort((a, b) => a.name.localeCompare(b.name)),
+            segments: valid,
+            labels,
+            hasCurves
+        }
+    };
+};
+
+/**
+ * Unit code for a drawing without $INSUNITS, guessed from its size: plans spanning
+ * more than 1000 units are almost always in millimeters.
+ */
+export const guessDxfUnits = (drawing: DxfDrawing): number => {
+    if (drawing.insUnits !== null) return drawing.insUnits;
+    const xs = drawing.segments.flatMap(s => [s.a.x, s.b.x]);
+    const ys = drawing.segments.flatMap(s => [s.a.y, s.b.y]);
+    if (xs.length === 0) return 6;
+    const span = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+    return span > 1000 ? 4 : 6;
+};
+
+// Endpoints closer than this are treated as the same corner
+const DXF_SNAP_TOLERANCE = 0.005; // meters
+// Faces smaller than this (wall slivers, symbols) are not rooms
+const DXF_MIN_ROOM_AREA = 0.25; // m²
+
+const signedArea = (points: Point[]) =>
+    points.reduce((sum, p, i) => {
+        const q = points[(i + 1) % points.length];
+        return sum + p.x * q.y - q.x * p.y;
+    }, 0) / 2;
+
+const isInside = (p: Point, ring: Point[]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const a = ring[i], b = ring[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+};
+
+/**
+ * Chains segments into closed loops. Endpoints are merged within the tolerance, open ends are
+ * pruned, and the remaining planar graph is split into its bounded faces, so rooms sharing a
+ * wall line both come out as separate loops. A line ending on the middle of another (a T-junction)
+ * splits that line there.
+ */
+const findClosedLoops = (segments: DxfSegment[], tolerance: number): Point[][] => {
+    // Merge endpoints on a grid, checking neighbouring cells
+    const nodes: Point[] = [];
+    const grid = new Map<string, number[]>();
+    const nodeAt = (p: Point): number => {
+        const gx = Math.round(p.x / tolerance), gy = Math.round(p.y / tolerance);
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                const found = grid.get(`${gx + dx},${gy + dy}`)?.find(n => Math.hypot(nodes[n].x - p.x, nodes[n].y - p.y) <= tolerance);
+                if (found !== undefined) return found;
+            }
+        }
+        nodes.push(p);
+        const key = `${gx},${gy}`;
+        grid.set(key, [...(grid.get(key) ?? []), nodes.length - 1]);
+        return nodes.length - 1;
+    };
+
+    const ends = segments.map(({ a, b }) => [nodeAt(a), nodeAt(b)]).filter(([u, v]) => u !== v);
+
+    const adjacency = new Map<number, Set<number>>();
+    const link = (u: number, v: number) => {
+        if (u === v) return;
+        if (!adjacency.has(u)) adjacency.set(u, new Set());
+        if (!adjacency.has(v)) adjacency.set(v, new Set());
+        adjacency.get(u)!.add(v);
+        adjacency.get(v)!.add(u);
+    };
+
+    // Split each line at the corners lying along it, in order from its start
+    ends.forEach(([u, v]) => {
+        const a = nodes[u], b = nodes[v];
+        const dx = b.x - a.x, dy = b.y - a.y;
+        const lengthSq = dx * dx + dy * dy;
+        const along: { n: number; t: number }[] = [];
+        nodes.forEach((p, n) => {
+            if (n === u || n === v) return;
+            if (p.x < Math.min(a.x, b.x) - tolerance || p.x > Math.max(a.x, b.x) + tolerance) return;
+            if (p.y < Math.min(a.y, b.y) - tolerance || p.y > Math.max(a.y, b.y) + tolerance) return;
+            const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq;
+            if (t <= 0 || t >= 1) return;
+            if (Math.hypot(a.x + t * dx - p.x, a.y + t * dy - p.y) <= tolerance) along.push({ n, t });
+        });
+        const chain = [u, ...along.sort((p, q) => p.t - q.t).map(p => p.n), v];
+        for (let i = 0; i + 1 < chain.length; i++) link(chain[i], chain[i + 1]);
+    });
+
+    // Prune dangling lines
+    const queue = Array.from(adjacency.keys()).filter(n => adjacency.get(n)!.size < 2);
+    while (queue.length > 0) {
+        const n = queue.pop()!;
+        const neighbours = adjacency.get(n);
+        if (!neighbours) continue;
+        adjacency.delete(n);
+        neighbours.forEach(m => {
+            const other = adjacency.get(m);
+            if (!other) return;
+            other.delete(n);
+            if (other.size < 2) queue.push(m);
+        });
+    }
+
+    // Neighbours sorted counter-clockwise around each node
+    const sorted = new Map<number, number[]>();
+    adjacency.forEach((neighbours, n) => {
+        const angle = (m: number) => Math.atan2(nodes[m].y - nodes[n].y, nodes[m].x - nodes[n].x);
+        sorted.set(n, Array.from(neighbours).sort((a, b) => angle(a) - angle(b)));
+    });
+
+    // Trace faces: after arriving at v from u, leave by the next edge clockwise from v->u.
+    // Bounded faces come out counter-clockwise (positive area); outer boundaries come out negative.
+    const visited = new Set<string>();
+    const loops: Point[][] = [];
+    sorted.forEach((neighbours, start) => {
+        neighbours.forEach(first => {
+            if (visited.has(`${start}>${first}`)) return;
+            const ring: number[] = [];
+            let u = start, v = first;
+            while (!visited.has(`${u}>${v}`)) {
+                visited.add(`${u}>${v}`);
+                ring.push(u);
+                const around = sorted.get(v)!;
+                const back = around.indexOf(u);
+                const next = around[(back - 1 + around.length) % around.length];
+                u = v;
+                v = next;
+            }
+            const points = ring.map(n => nodes[n]);
+            if (points.length >= 3 && signedArea(points) > 0) loops.push(points);
+        });
+    });
+    return loops;
+};
+
+// Drops vertices that lie on a straight line between their neighbours
+const removeCollinear = (points: Point[]): Point[] => points.filter((p, i) => {
+    const prev = points[(i - 1 + points.length) % points.length];
+    const next = points[(i + 1) % points.length];
+    const d1 = { x: p.x - prev.x, y: p.y - prev.y };
+    const d2 = { x: next.x - p.x, y: next.y - p.y };
+    const cross = d1.x * d2.y - d1.y * d2.x;
+    const dot = d1.x * d2.x + d1.y * d2.y;
+    return Math.abs(cross) > 1e-3 * Math.hypot(d1.x, d1.y) * Math.hypot(d2.x, d2.y) || dot < 0;
+});
+
+const vertexLabel = (index: number): string =>
+    index < 26 ? String.fromCharCode(65 + index) : vertexLabel(Math.floor(index / 26) - 1) + String.fromCharCode(65 + (index % 26));
+
+// A point just inside a counter-clockwise loop, beside the middle of its first side
+const pointInside = (loop: Point[], offset: number): Point => {
+    const a = loop[0], b = loop[1];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    return { x: (a.x + b.x) / 2 - (b.y - a.y) / length * offset, y: (a.y + b.y) / 2 + (b.x - a.x) / length * offset };
+};
+
+/**
+ * Builds editable polygons from the closed loops on the chosen layers. Edge lengths are the
+ * drawing dimensions, ready to be overwritten with field measurements and re-solved.
+ * Rooms are named after the largest TEXT/MTEXT inside the loop, if any.
+ */
+export const polygonsFromDXF = (drawing: DxfDrawing, layers: string[], metersPerUnit: number): Polygon[] => {
+    const segments = drawing.segments.filter(s => layers.includes(s.layer));
+    const tolerance = DXF_SNAP_TOLERANCE / metersPerUnit;
+    const faces = findClosedLoops(segments, tolerance)
+        .map(removeCollinear)
+        .filter(loop => loop.length >= 3 && signedArea(loop) * metersPerUnit * metersPerUnit >= DXF_MIN_ROOM_AREA);
+    // A loop around other rooms is the outer line of double-line walls, not a room of its own
+    const loops = faces.filter(outer => !faces.some(inner =>
+        inner !== outer && signedArea(inner) < signedArea(outer) && isInside(pointInside(inner, tolerance), outer)
+    ));
+
+    const stamp = Date.now();
+    const pxPerUnit = metersPerUnit * PIXELS_PER_METER;
+
+    return loops.map((loop, index) => {
+        const id = `poly-${stamp}-dxf${index}`;
+        const vertices = loop.map((p, i) => ({
+            id: `${id}-v${i}`,
+            x: p.x * pxPerUnit,
+            y: -p.y * pxPerUnit, // CAD Y-up -> screen Y-down
+            label: vertexLabel(i)
+        }));
+        const edges: Edge[] = vertices.map((v, i) => {
+            const next = vertices[(i + 1) % vertices.length];
+            return {
+                id: `${id}-e${i}`,
+                startVertexId: v.id,
+                endVertexId: next.id,
+                length: parseFloat((Math.hypot(next.x - v.x, next.y - v.y) / PIXELS_PER_METER).toFixed(3)),
+                type: EdgeType.PERIMETER,
+                isMeasured: false
+            };
+        });
+        const label = drawing.labels
+            .filter(l => isInside(l.at, loop))
+            .sort((a, b) => b.height - a.height)[0];
+
+        return {
+            id,
+            name: label?.text || `Room ${index + 1}`,
+            vertices,
+            edges,
+            centroid: calculateCentroid(vertices),
+            isClosed: true,
+            isLocked: false
+        };
+    });
+};
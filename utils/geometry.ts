@@ -1,8 +1,12 @@
 
-import { Point, Vertex, Edge, EdgeType, Polygon } from '../types';
+import { Point, Vertex, Edge, EdgeType, Polygon, EdgeResidual, TraverseLeg } from '../types';
 
 export const PIXELS_PER_METER = 100;
 
+// Residual thresholds (meters) used to flag suspicious tape measurements
+export const RESIDUAL_WARNING = 0.01;
+export const RESIDUAL_ERROR = 0.03;
+
 // --- Basic Math ---
 
 export const distance = (p1: Point, p2: Point): number => {
@@ -30,6 +34,15 @@ export const rotatePoint = (p: Point, center: Point, angle: number): Point => {
     };
 };
 
+/**
+ * Converts a screen position (canvas pixels) to world coordinates,
+ * undoing the canvas pan, rotation and zoom.
+ */
+export const screenToWorld = (screen: Point, panOffset: Point, zoomLevel: number, rotation: number): Point => {
+    const rotated = rotatePoint({ x: screen.x - panOffset.x, y: screen.y - panOffset.y }, { x: 0, y: 0 }, -rotation);
+    return { x: rotated.x / zoomLevel, y: rotated.y / zoomLevel };
+};
+
 /**
  * Calculates the Signed Area of the polygon.
  * In Screen Coordinates (Y-Down):
@@ -46,6 +59,25 @@ export const getPolygonSignedArea = (vertices: Vertex[]): number => {
     return area / 2;
 };
 
+// Smallest angle of triangle (a, b, c) in degrees
+export const triangleMinAngle = (a: Point, b: Point, c: Point): number => {
+    const angleAt = (p: Point, q: Point, r: Point) => {
+        const v1 = { x: q.x - p.x, y: q.y - p.y }, v2 = { x: r.x - p.x, y: r.y - p.y };
+        return Math.abs(Math.atan2(v1.x * v2.y - v1.y * v2.x, v1.x * v2.x + v1.y * v2.y));
+    };
+    return Math.min(angleAt(a, b, c), angleAt(b, c, a), angleAt(c, a, b)) * 180 / Math.PI;
+};
+
+// Even-odd ray casting; points exactly on the outline may fall either way
+export const isPointInPolygon = (p: Point, vertices: Point[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+        const a = vertices[i], b = vertices[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+};
+
 // --- Group Logic (Graph Traversal) ---
 
 /**
@@ -78,6 +110,58 @@ export const getConnectedPolygonGroup = (startPolyId: string, allPolygons: Polyg
     return group;
 };
 
+/**
+ * Like getConnectedPolygonGroup, but also follows cross-polygon measurements.
+ * Returns every polygon tied to startPolyId by a joined wall or a measured distance,
+ * i.e. the set that can be adjusted together as one network.
+ */
+export const getMeasurementNetwork = (startPolyId: string, allPolygons: Polygon[], crossEdges: Edge[]): Set<string> => {
+    const network = new Set<string>();
+    const queue = [startPolyId];
+    network.add(startPolyId);
+
+    const owner = (vertexId: string) => allPolygons.find(p => p.vertices.some(v => v.id === vertexId))?.id;
+
+    while (queue.length > 0) {
+        const currentId = queue.shift()!;
+        const neighbours = new Set(getConnectedPolygonGroup(currentId, allPolygons));
+
+        crossEdges.forEach(edge => {
+            const a = owner(edge.startVertexId);
+            const b = owner(edge.endVertexId);
+            if (a === currentId && b) neighbours.add(b);
+            if (b === currentId && a) neighbours.add(a);
+        });
+
+        neighbours.forEach(id => {
+            if (!network.has(id)) {
+                network.add(id);
+                queue.push(id);
+            }
+        });
+    }
+    return network;
+};
+
+/**
+ * Locates a vertex anywhere in the survey.
+ */
+export const findVertex = (polygons: Polygon[], vertexId: string): { polygon: Polygon, vertex: Vertex } | null => {
+    for (const polygon of polygons) {
+        const vertex = polygon.vertices.find(v => v.id === vertexId);
+        if (vertex) return { polygon, vertex };
+    }
+    return null;
+};
+
+/**
+ * Drops cross-polygon measurements whose endpoints no longer exist (deleted vertex or polygon).
+ */
+export const pruneCrossEdges = (crossEdges: Edge[], polygons: Polygon[]): Edge[] => {
+    const ids = new Set(polygons.flatMap(p => p.vertices.map(v => v.id)));
+    return crossEdges.filter(e => ids.has(e.startVertexId) && ids.has(e.endVertexId));
+};
+
 /**
  * Recalculates groups for all polygons in the provided list.
  * Should be called after unlinking or removing polygons.
@@ -182,6 +266,78 @@ export const duplicatePolygon = (poly: Polygon): Polygon => {
     };
 };
 
+// --- Merge Import ---
+
+/**
+ * Gives every polygon, vertex, edge and group of an imported survey a fresh ID so it can be
+ * merged into the current one. Joins, groups and cross measurements within the import are kept.
+ */
+export const remapSurveyIds = (polygons: Polygon[], crossEdges: Edge[]): { polygons: Polygon[], crossEdges: Edge[] } => {
+    const stamp = Date.now();
+    const suffix = () => Math.random().toString(36).substr(2, 5);
+    const polygonIds = new Map<string, string>();
+    const vertexIds = new Map<string, string>();
+    const edgeIds = new Map<string, string>();
+    const groupIds = new Map<string, string>();
+
+    // Assign all IDs first: links may point forward to polygons not yet visited
+    polygons.forEach(poly => {
+        const newId = `poly-${stamp}-${suffix()}`;
+        polygonIds.set(poly.id, newId);
+        poly.vertices.forEach(v => vertexIds.set(v.id, `${newId}-v${suffix()}`));
+        poly.edges.forEach(e => edgeIds.set(e.id, `${newId}-e${suffix()}`));
+        if (poly.groupId && !groupIds.has(poly.groupId)) groupIds.set(poly.groupId, `group-${stamp}-${suffix()}`);
+    });
+
+    const remapEdge = (e: Edge, id: string): Edge => ({
+        ...e,
+        id,
+        startVertexId: vertexIds.get(e.startVertexId) ?? e.startVertexId,
+        endVertexId: vertexIds.get(e.endVertexId) ?? e.endVertexId,
+        linkedEdgeId: e.linkedEdgeId ? edgeIds.get(e.linkedEdgeId) : undefined
+    });
+
+    return {
+        polygons: polygons.map(poly => ({
+            ...poly,
+            id: polygonIds.get(poly.id)!,
+            vertices: poly.vertices.map(v => ({ ...v, id: vertexIds.get(v.id)! })),
+            edges: poly.edges.map(e => remapEdge(e, edgeIds.get(e.id)!)),
+            groupId: poly.groupId ? groupIds.get(poly.groupId) : undefined
+        })),
+        crossEdges: crossEdges.map(e => remapEdge(e, `edge-cross-${stamp}-${suffix()}`))
+    };
+};
+
+/**
+ * Renames imported polygons whose names are already taken, e.g. "Kitchen" -> "Kitchen (2)".
+ * Returns the renamed polygons and the list of changes for reporting.
+ */
+export const resolveNameConflicts = (existing: Polygon[], incoming: Polygon[]): { polygons: Polygon[], renamed: { from: string, to: string }[] } => {
+    const taken = new Set(existing.map(p => p.name));
+    const renamed: { from: string, to: string }[] = [];
+    const polygons = incoming.map(poly => {
+        let name = poly.name;
+        for (let n = 2; taken.has(name); n++) name = `${poly.name} (${n})`;
+        taken.add(name);
+        if (name === poly.name) return poly;
+        renamed.push({ from: poly.name, to: name });
+        return { ...poly, name };
+    });
+    return { polygons, renamed };
+};
+
+export const getPolygonsBounds = (polygons: Polygon[]): { minX: number, minY: number, maxX: number, maxY: number } | null => {
+    const vertices = polygons.flatMap(p => p.vertices);
+    if (vertices.length === 0) return null;
+    return {
+        minX: Math.min(...vertices.map(v => v.x)),
+        minY: Math.min(...vertices.map(v => v.y)),
+        maxX: Math.max(...vertices.map(v => v.x)),
+        maxY: Math.max(...vertices.map(v => v.y))
+    };
+};
+
 export const mirrorPolygon = (poly: Polygon, axis: 'X' | 'Y', pivot: Point): Polygon => {
     const newVertices = poly.vertices.map(v => {
         let x = v.x;
@@ -388,6 +544,39 @@ export const checkConnectionStatus = (v1Id: string, v2Id: string, poly: Polygon)
     return { valid: true };
 };
 
+// --- Chirality (Mirror Ambiguity) Checks ---
+
+// Signed double area of triangle (a, b, c). Sign tells on which side of a->b the point c lies.
+const orientation = (a: Point, b: Point, c: Point): number => {
+    return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+};
+
+/**
+ * Returns the first pair of non-adjacent perimeter edges (in vertex order) that cross, or null.
+ */
+export const findCrossingPerimeterEdges = (vertices: Vertex[]): [[Vertex, Vertex], [Vertex, Vertex]] | null => {
+    const n = vertices.length;
+    for (let i = 0; i < n; i++) {
+        const a1 = vertices[i];
+        const a2 = vertices[(i + 1) % n];
+        for (let j = i + 2; j < n; j++) {
+            if (i === 0 && j === n - 1) continue; // Adjacent through closure
+            const b1 = vertices[j];
+            const b2 = vertices[(j + 1) % n];
+            if (doSegmentsIntersect(a1, a2, b1, b2)) {
+                return [[a1, a2], [b1, b2]];
+            }
+        }
+    }
+    return null;
+};
+
+export const mirrorAmbiguityMessage = (mirrored: Vertex[]): string =>
+    `Mirror ambiguity: ${mirrored.map(v => v.label).join(', ')} solved on the opposite side of the sketch. Flip the vertex or correct the sketch.`;
+
+export const foldedGeometryMessage = ([[a1, a2], [b1, b2]]: [[Vertex, Vertex], [Vertex, Vertex]]): string =>
+    `Folded geometry: edges ${a1.label}-${a2.label} and ${b1.label}-${b2.label} cross. Flip a vertex to its alternative solution.`;
+
 // --- Triangulation Solver (Wavefront Propagation) ---
 
 const EPSILON = 10; // 10px tolerance (equivalent to 10cm at 100px/m)
@@ -397,7 +586,8 @@ export const findIntersection = (
   r1: number,
   p2: Point,
   r2: number,
-  originalP3: Point 
+  originalP3: Point,
+  preferAlternative: boolean = false // Pick the intersection farther from the sketch (mirror solution)
 ): { type: 'success', point: Point, approximated?: boolean } | { type: 'error', code: 'SEPARATED' | 'CONTAINED' } => {
   const d = distance(p1, p2);
 
@@ -448,7 +638,35 @@ export const findIntersection = (
   const dist1 = distance(intersection1, originalP3);
   const dist2 = distance(intersection2, originalP3);
 
-  return { type: 'success', point: dist1 < dist2 ? intersection1 : intersection2 };
+  const nearest = dist1 < dist2 ? intersection1 : intersection2;
+  const alternative = dist1 < dist2 ? intersection2 : intersection1;
+
+  return { type: 'success', point: preferAlternative ? alternative : nearest };
+};
+
+/**
+ * Perimeter neighbours of the vertex at 'index', ordered so that the interior angle is
+ * measured turning from 'to' towards 'from' (clockwise on screen) regardless of winding.
+ */
+export const getInteriorAngleNeighbours = (vertices: Vertex[], index: number): { from: Vertex, to: Vertex } => {
+    const n = vertices.length;
+    const prev = vertices[(index - 1 + n) % n];
+    const next = vertices[(index + 1) % n];
+    const isCW = getPolygonSignedArea(vertices) > 0;
+    return isCW ? { from: prev, to: next } : { from: next, to: prev };
+};
+
+/**
+ * Current interior angle at a vertex in degrees (0..360), or null if the polygon has < 3 vertices.
+ */
+export const calculateInteriorAngle = (vertices: Vertex[], vertexId: string): number | null => {
+    const index = vertices.findIndex(v => v.id === vertexId);
+    if (index === -1 || vertices.length < 3) return null;
+    const v = vertices[index];
+    const { from, to } = getInteriorAngleNeighbours(vertices, index);
+    const angle = Math.atan2(from.y - v.y, from.x - v.x) - Math.atan2(to.y - v.y, to.x - v.x);
+    const deg = (angle * 180) / Math.PI;
+    return ((deg % 360) + 360) % 360;
 };
 
 export const calculateSASDistance = (lenA: number, lenB: number, angleDeg: number): number => {
@@ -463,7 +681,7 @@ export const calculatePolygonArea = (vertices: Vertex[]): number => {
     return areaPx / (PIXELS_PER_METER * PIXELS_PER_METER);
 };
 
-export const solveGeometry = (polygon: Polygon): { polygon: Polygon, metricError?: string, approximated?: boolean } => {
+export const solveGeometry = (polygon: Polygon): { polygon: Polygon, metricError?: string, approximated?: boolean, mirroredVertexIds?: string[] } => {
   let vertices = [...polygon.vertices];
   let effectiveEdges = [...polygon.edges];
   let isApproximated = false;
@@ -542,6 +760,9 @@ export const solveGeometry = (polygon: Polygon): { polygon: Polygon, metricError
 
   let progress = true;
   let metricError: string | undefined = undefined;
+  const mirrored: Vertex[] = [];
+  const sketchMap = new Map<string, Vertex>();
+  polygon.vertices.forEach(v => sketchMap.set(v.id, v));
 
   while (progress) {
     progress = false;
@@ -568,9 +789,18 @@ export const solveGeometry = (polygon: Polygon): { polygon: Polygon, metricError
         const r1 = e1.length * PIXELS_PER_METER;
         const r2 = e2.length * PIXELS_PER_METER;
 
-        const result = findIntersection(p1, r1, p2, r2, vTarget);
+        const result = findIntersection(p1, r1, p2, r2, vTarget, !!vTarget.flipped);
 
         if (result.type === 'success') {
+             // Chirality: the vertex must stay on the same side of its reference line as in the sketch,
+             // unless the user explicitly flipped it. Near-collinear (tangent) solutions are ambiguous anyway.
+             const sketchSide = orientation(sketchMap.get(p1Id)!, sketchMap.get(p2Id)!, vTarget);
+             const solvedSide = orientation(p1, p2, result.point);
+             const tolerance = 0.01 * distance(p1, p2) * distance(p1, p2);
+             if (!vTarget.flipped && Math.abs(sketchSide) > tolerance && Math.abs(solvedSide) > tolerance && Math.sign(sketchSide) !== Math.sign(solvedSide)) {
+                 mirrored.push(vTarget);
+             }
+
              const newV = { ...vTarget, x: result.point.x, y: result.point.y, solved: true };
              vertexMap.set(vTarget.id, newV);
              const idx = vertices.findIndex(v => v.id === vTarget.id);
@@ -600,6 +830,17 @@ export const solveGeometry = (polygon: Polygon): { polygon: Polygon, metricError
       metricError = "Insufficient constraints to fully solve geometry.";
   }
 
+  if (!metricError && mirrored.length > 0) {
+      metricError = mirrorAmbiguityMessage(mirrored);
+      const mirroredIds = new Set(mirrored.map(v => v.id));
+      vertices = vertices.map(v => mirroredIds.has(v.id) ? { ...v, solved: false } : v);
+  }
+
+  if (!metricError) {
+      const crossing = findCrossingPerimeterEdges(vertices);
+      if (crossing) metricError = foldedGeometryMessage(crossing);
+  }
+
   return { 
       polygon: {
           ...polygon,
@@ -607,10 +848,78 @@ export const solveGeometry = (polygon: Polygon): { polygon: Polygon, metricError
           centroid: calculateCentroid(vertices)
       },
       metricError,
-      approximated: isApproximated
+      approximated: isApproximated,
+      mirroredVertexIds: mirrored.map(v => v.id)
   };
 };
 
+// --- Residuals (Blunder Detection) ---
+
+export const getEdgeLabel = (poly: Polygon, edge: Edge): string => {
+    const start = poly.vertices.find(v => v.id === edge.startVertexId);
+    const end = poly.vertices.find(v => v.id === edge.endVertexId);
+    return `${start?.label ?? '?'}-${end?.label ?? '?'}`;
+};
+
+/**
+ * Walls of a room in ring order, starting from the wall leaving the first vertex.
+ */
+export const getPerimeterEdgesInOrder = (poly: Polygon): Edge[] => {
+    const n = poly.vertices.length;
+    const walls: Edge[] = [];
+    for (let i = 0; i < n; i++) {
+        const a = poly.vertices[i].id, b = poly.vertices[(i + 1) % n].id;
+        const wall = poly.edges.find(e => e.type === EdgeType.PERIMETER &&
+            ((e.startVertexId === a && e.endVertexId === b) || (e.startVertexId === b && e.endVertexId === a)));
+        if (wall) walls.push(wall);
+    }
+    return walls;
+};
+
+/**
+ * Compares each entered edge length with the distance between its solved vertices.
+ * Residual = measured - solved (meters). Positive means the tape reading is longer than the geometry.
+ */
+export const calculateEdgeResiduals = (poly: Polygon): EdgeResidual[] => {
+    const residuals: EdgeResidual[] = [];
+    poly.edges.forEach(edge => {
+        const v1 = poly.vertices.find(v => v.id === edge.startVertexId);
+        const v2 = poly.vertices.find(v => v.id === edge.endVertexId);
+        if (!v1 || !v2) return;
+        const adjusted = distance(v1, v2) / PIXELS_PER_METER;
+        residuals.push({ edgeId: edge.id, measured: edge.length, adjusted, residual: edge.length - adjusted });
+    });
+    return residuals;
+};
+
+/**
+ * Returns the polygon's edges with their 'residual' property set (or cleared when 'residuals' is null).
+ */
+export const applyEdgeResiduals = (poly: Polygon, residuals: EdgeResidual[] | null): Polygon => {
+    const byId = new Map<string, number>();
+    residuals?.forEach(r => byId.set(r.edgeId, r.residual));
+    return {
+        ...poly,
+        edges: poly.edges.map(e => ({ ...e, residual: byId.get(e.id) }))
+    };
+};
+
+/**
+ * Residuals of cross-polygon measurements against the current vertex positions.
+ * Only measurements between polygons in 'polyIds' are evaluated.
+ */
+export const calculateCrossEdgeResiduals = (crossEdges: Edge[], polygons: Polygon[], polyIds: Set<string>): EdgeResidual[] => {
+    const residuals: EdgeResidual[] = [];
+    crossEdges.forEach(edge => {
+        const a = findVertex(polygons, edge.startVertexId);
+        const b = findVertex(polygons, edge.endVertexId);
+        if (!a || !b || !polyIds.has(a.polygon.id) || !polyIds.has(b.polygon.id)) return;
+        const adjusted = distance(a.vertex, b.vertex) / PIXELS_PER_METER;
+        residuals.push({ edgeId: edge.id, measured: edge.length, adjusted, residual: edge.length - adjusted });
+    });
+    return residuals;
+};
+
 export const generateRegularPolygon = (center: Point, sides: number, id: string, name: string): Polygon => {
     const radius = 150; 
     const vertices: Vertex[] = [];
@@ -641,7 +950,8 @@ export const generateRegularPolygon = (center: Point, sides: number, id: string,
             endVertexId: v2.id,
             length: parseFloat((len / PIXELS_PER_METER).toFixed(2)),
             type: EdgeType.PERIMETER,
-            thickness: 10
+            thickness: 10,
+            isMeasured: false
         });
     }
 
@@ -656,42 +966,195 @@ export const generateRegularPolygon = (center: Point, sides: number, id: string,
     };
 };
 
-export const generateDXF = (polygons: Polygon[]): string => {
-    let s = "0\nSECTION\n2\nHEADER\n0\nENDSEC\n0\nSECTION\n2\nENTITIES\n";
-    
-    for (const poly of polygons) {
-        for (const edge of poly.edges) {
-             const v1 = poly.vertices.find(v => v.id === edge.startVertexId);
-             const v2 = poly.vertices.find(v => v.id === edge.endVertexId);
-             if (v1 && v2) {
-                 const x1 = v1.x / PIXELS_PER_METER;
-                 const y1 = -v1.y / PIXELS_PER_METER; // Invert Y for CAD
-                 const x2 = v2.x / PIXELS_PER_METER;
-                 const y2 = -v2.y / PIXELS_PER_METER;
-                 
-                 s += "0\nLINE\n";
-                 s += "8\n" + (edge.type === EdgeType.PERIMETER ? "WALLS" : "DIAGONALS") + "\n";
-                 s += "10\n" + x1.toFixed(4) + "\n";
-                 s += "20\n" + y1.toFixed(4) + "\n";
-                 s += "30\n0.0\n";
-                 s += "11\n" + x2.toFixed(4) + "\n";
-                 s += "21\n" + y2.toFixed(4) + "\n";
-                 s += "31\n0.0\n";
-             }
-        }
-        
-        const c = poly.centroid;
-        const cx = c.x / PIXELS_PER_METER;
-        const cy = -c.y / PIXELS_PER_METER;
-        s += "0\nTEXT\n";
-        s += "8\nLABELS\n";
-        s += "10\n" + cx.toFixed(4) + "\n";
-        s += "20\n" + cy.toFixed(4) + "\n";
-        s += "30\n0.0\n";
-        s += "40\n0.2\n"; 
-        s += "1\n" + poly.name + "\n";
+// --- Traverse Drawing ---
+
+// A traverse ending within this fraction of its length from the start is closed; the gap is its misclosure
+export const TRAVERSE_CLOSURE_TOLERANCE = 0.02;
+
+/**
+ * End point of a traverse leg. The turn is relative to the last drawn segment, or to
+ * 'initialHeading' (radians) when only the start point exists.
+ */
+export const getTraverseLegEnd = (points: Point[], leg: TraverseLeg, initialHeading: number): Point => {
+    const end = points[points.length - 1];
+    const prev = points[points.length - 2];
+    const heading = (prev ? Math.atan2(end.y - prev.y, end.x - prev.x) : initialHeading) + leg.turn * Math.PI / 180;
+    return addScaled(end, { x: Math.cos(heading), y: Math.sin(heading) }, leg.length * PIXELS_PER_METER);
+};
+
+/**
+ * Gap from the last drawing point back to the first and the length walked (both meters).
+ * 'isClosed' means the gap is a misclosure rather than a wall still to be drawn.
+ */
+export const getTraverseClosure = (points: Point[]): { gap: number; length: number; isClosed: boolean } | null => {
+    if (points.length < 4) return null;
+    let length = 0;
+    for (let i = 1; i < points.length; i++) length += distance(points[i - 1], points[i]);
+    const gap = distance(points[points.length - 1], points[0]);
+    return { gap: gap / PIXELS_PER_METER, length: length / PIXELS_PER_METER, isClosed: gap <= length * TRAVERSE_CLOSURE_TOLERANCE };
+};
+
+// --- Wall Geometry (Plan Exports) ---
+
+// Same defaults as the canvas: 0.8m doors, 1.2m windows, 10cm symbol depth on walls without thickness
+export const DEFAULT_DOOR_WIDTH = 0.8;
+export const DEFAULT_WINDOW_WIDTH = 1.2;
+export const DEFAULT_SYMBOL_DEPTH_PX = 10;
+
+// Longest allowed wall corner miter, as a multiple of the wall thickness
+const MITER_LIMIT = 4;
+
+export const addScaled = (p: Point, v: Point, scale: number = 1): Point => ({ x: p.x + v.x * scale, y: p.y + v.y * scale });
+
+// Intersection of two lines given as point + direction, or null if (nearly) parallel
+export const intersectLines = (p: Point, d1: Point, q: Point, d2: Point): Point | null => {
+    const cross = d1.x * d2.y - d1.y * d2.x;
+    if (Math.abs(cross) < 1e-9) return null;
+    const t = ((q.x - p.x) * d2.y - (q.y - p.y) * d2.x) / cross;
+    return addScaled(p, d1, t);
+};
+
+// One side of a room outline, oriented along the vertex ring
+export interface WallSide {
+    start: Point;
+    end: Point;
+    dir: Point; // Unit vector start -> end
+    outward: Point; // Unit normal pointing out of the room
+    length: number; // px
+    thickness: number; // px (1cm = 1px)
+    edge?: Edge;
+    reversed: boolean; // Ring runs end -> start of the edge
+}
+
+/**
+ * Splits a room outline into wall sides along its vertex ring. Walls lie outside the room:
+ * the polygon is the inner face and Edge.thickness extends outward (as Join spaces rooms).
+ */
+export const getWallSides = (poly: Polygon): WallSide[] => {
+    const { vertices } = poly;
+    const count = poly.isClosed ? vertices.length : vertices.length - 1;
+    // Screen coordinates are Y-down: positive signed area means clockwise on screen
+    const sign = getPolygonSignedArea(vertices) > 0 ? 1 : -1;
+    const sides: WallSide[] = [];
+
+    for (let i = 0; i < count; i++) {
+        const a = vertices[i];
+        const b = vertices[(i + 1) % vertices.length];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (length === 0) continue;
+        const dir = { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+        const edge = poly.edges.find(e => e.type === EdgeType.PERIMETER &&
+            ((e.startVertexId === a.id && e.endVertexId === b.id) || (e.startVertexId === b.id && e.endVertexId === a.id)));
+        sides.push({
+            start: a,
+            end: b,
+            dir,
+            outward: { x: dir.y * sign, y: -dir.x * sign },
+            length,
+            thickness: edge?.thickness ?? 0,
+            edge,
+            reversed: edge ? edge.startVertexId === b.id : false
+        });
     }
-    
-    s += "0\nENDSEC\n0\nEOF\n";
-    return s;
+    return sides;
+};
+
+// Corner of the outer wall face, mitered against the neighbouring side's outer face
+export const getOuterCorner = (side: WallSide, neighbour: WallSide | undefined, corner: Point): Point => {
+    const offsetPoint = addScaled(corner, side.outward, side.thickness);
+    if (!neighbour) return offsetPoint;
+    const miter = intersectLines(offsetPoint, side.dir, addScaled(neighbour.start, neighbour.outward, neighbour.thickness), neighbour.dir);
+    if (!miter) return offsetPoint;
+    const miterLength = Math.hypot(miter.x - offsetPoint.x, miter.y - offsetPoint.y);
+    return miterLength > MITER_LIMIT * Math.max(side.thickness, neighbour.thickness) ? offsetPoint : miter;
+};
+
+// Opening along a side, as distances from side.start (px)
+export const getOpening = (side: WallSide): { from: number; to: number; feature: 'door' | 'window' } | null => {
+    const edge = side.edge;
+    if (!edge || !edge.feature) return null;
+    const width = Math.min((edge.featureWidth || (edge.feature === 'door' ? DEFAULT_DOOR_WIDTH : DEFAULT_WINDOW_WIDTH)) * PIXELS_PER_METER, side.length);
+    // Default: centered on the edge
+    const fromEdgeStart = edge.featureDistance !== undefined
+        ? Math.max(0, Math.min(edge.featureDistance * PIXELS_PER_METER, side.length - width))
+        : (side.length - width) / 2;
+    const from = side.reversed ? side.length - fromEdgeStart - width : fromEdgeStart;
+    return { from, to: from + width, feature: edge.feature };
+};
+
+// --- Dimension Lines ---
+
+export interface DimensionLine {
+    edgeId: string;
+    tier: 'chain' | 'overall';
+    start: Point; // Where the extension lines leave the wall (px)
+    end: Point;
+    lineStart: Point; // The dimension line itself (px)
+    lineEnd: Point;
+    normal: Point; // Unit vector from the wall towards the dimension line
+    length: number; // Labelled length (meters)
 }
+
+/**
+ * Architectural dimensions for a room's walls, labelled from the measured Edge.length. Each wall gets
+ * a line `chainOffset` px beyond its outer face; walls with a door or window are chained at the
+ * opening (from featureDistance/featureWidth) and get an overall line at `overallOffset`.
+ * Joined walls are dimensioned inside the room, as their outside belongs to the neighbour.
+ */
+export const getDimensionLines = (poly: Polygon, chainOffset: number, overallOffset: number): DimensionLine[] => {
+    const lines: DimensionLine[] = [];
+
+    for (const side of getWallSides(poly)) {
+        const edge = side.edge;
+        if (!edge) continue;
+        const inside = !!edge.linkedEdgeId;
+        const normal = inside ? { x: -side.outward.x, y: -side.outward.y } : side.outward;
+        const base = inside ? 0 : side.thickness;
+        const at = (distance: number) => addScaled(side.start, side.dir, distance);
+
+        const addLine = (from: number, to: number, length: number, tier: DimensionLine['tier'], offset: number) => {
+            const start = addScaled(at(from), normal, base);
+            const end = addScaled(at(to), normal, base);
+            lines.push({
+                edgeId: edge.id,
+                tier,
+                start,
+                end,
+                lineStart: addScaled(start, normal, offset),
+                lineEnd: addScaled(end, normal, offset),
+                normal,
+                length
+            });
+        };
+
+        const opening = getOpening(side);
+        if (!opening) {
+            addLine(0, side.length, edge.length, 'chain', chainOffset);
+            continue;
+        }
+
+        // Measured lengths along the edge (start vertex first), in ring order to match the opening position
+        const width = Math.min(edge.featureWidth || (edge.feature === 'door' ? DEFAULT_DOOR_WIDTH : DEFAULT_WINDOW_WIDTH), edge.length);
+        const before = edge.featureDistance !== undefined
+            ? Math.max(0, Math.min(edge.featureDistance, edge.length - width))
+            : (edge.length - width) / 2;
+        const measured = [before, width, edge.length - before - width];
+        if (side.reversed) measured.reverse();
+
+        const stops = [0, opening.from, opening.to, side.length];
+        measured.forEach((length, i) => {
+            if (stops[i + 1] - stops[i] > 1e-6) addLine(stops[i], stops[i + 1], length, 'chain', chainOffset);
+        });
+        addLine(0, side.length, edge.length, 'overall', overallOffset);
+    }
+    return lines;
+};
+
+// Reading angle (degrees) of a dimension label: along the line, never upside down for the given view rotation
+export const getDimensionTextAngle = (line: DimensionLine, viewRotationDeg: number = 0): number => {
+    let angle = Math.atan2(line.lineEnd.y - line.lineStart.y, line.lineEnd.x - line.lineStart.x) * 180 / Math.PI + viewRotationDeg;
+    angle = ((angle % 360) + 360) % 360;
+    if (angle > 90 && angle <= 270) angle -= 180;
+    else if (angle > 270) angle -= 360;
+    return angle - viewRotationDeg;
+};
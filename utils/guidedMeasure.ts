@@ -0,0 +1,34 @@
+import { Polygon, Edge, EdgeType, GuidedMeasureState } from '../types';
+import { getPerimeterEdgesInOrder } from './geometry';
+import { analyseRigidity } from './rigidity';
+
+// --- Guided Measurement ---
+
+// Order in which a surveyor is walked through a room: every wall whose length is still scaled from
+// the sketch, going round from the first corner, then sketched diagonals, then the new diagonals the
+// room still needs before it can be solved.
+
+export type GuidedTarget =
+    | { type: 'edge'; edge: Edge }
+    | { type: 'diagonal'; startVertexId: string; endVertexId: string };
+
+export const isEdgeMeasured = (edge: Edge): boolean => edge.isMeasured !== false;
+
+/**
+ * Edges of a room that have not been measured: walls in ring order, then diagonals.
+ */
+export const getUnmeasuredEdges = (poly: Polygon): Edge[] => {
+    const walls = getPerimeterEdgesInOrder(poly).filter(e => !isEdgeMeasured(e));
+    const diagonals = poly.edges.filter(e => e.type === EdgeType.DIAGONAL && !isEdgeMeasured(e));
+    return [...walls, ...diagonals];
+};
+
+/**
+ * What the guided workflow asks for next in a room, or null when nothing is left to measure.
+ */
+export const getGuidedTarget = (poly: Polygon, guided: GuidedMeasureState): GuidedTarget | null => {
+    const edge = getUnmeasuredEdges(poly).find(e => !guided.skipped.includes(e.id));
+    if (edge) return { type: 'edge', edge };
+    const [diagonal] = analyseRigidity(poly, guided.skipped).suggestions;
+    return diagonal ? { type: 'diagonal', startVertexId: diagonal.startVertexId, endVertexId: diagonal.endVertexId } : null;
+};
@@ -0,0 +1,167 @@
+import { LaserReading, Polygon } from '../types';
+import { getPerimeterEdgesInOrder } from './geometry';
+import { parseLength } from './units';
+
+// --- Laser Meter Logs ---
+
+// Leica DISTO and Bosch apps export their measurement history as CSV. Layouts differ between
+// models and languages, so columns are found by header name: a distance column (whose header may
+// carry the unit, e.g. "Distance [m]"), optional unit, type, date and time columns. Logs without a
+// header are read from the first mostly-numeric column. Bare numbers are meters, as meters display them.
+
+export type LaserCsvResult =
+    | { type: 'success'; readings: LaserReading[]; skipped: number }
+    | { type: 'error'; error: string };
+
+// Drag-and-drop type used to carry a reading index from the import panel onto an edge
+export const LASER_READING_MIME = 'application/x-laser-reading';
+
+// In order of preference: "Result" or "Value" only when no column is named as a distance
+const DISTANCE_HEADERS = [/dist|length|l(ä|ae)nge/i, /result|ergebnis|value|wert/i];
+const UNIT_HEADER = /^(unit|units|einheit)$/i;
+const TYPE_HEADER = /^(type|typ|function|funktion|mode|modus)$/i;
+const DATE_HEADER = /date|datum|timestamp/i;
+const TIME_HEADER = /^(time|zeit|uhrzeit)$/i;
+const LABEL_HEADER = /^(no\.?|nr\.?|#|id|name|label|bezeichnung|note|notiz|comment|kommentar)$/i;
+
+// Areas, volumes and tilt readings share the log with distances
+const NOT_A_DISTANCE = /area|fl(ä|ae)che|volume|volumen|angle|winkel|neig|tilt|²|³|m2|m3|ft2|ft3|sq/i;
+
+// Unit written in a header, e.g. "Distance [m]" or "Länge (mm)"
+const HEADER_UNIT = /[[(]\s*(mm|cm|m|ft|in)\s*[\])]/i;
+
+const BARE_NUMBER = /^-?\d+(?:[.,]\d+)?$/;
+
+const splitRow = (line: string, delimiter: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (ch === '"' && quoted && line[i + 1] === '"') { cell += '"'; i++; }
+        else if (ch === '"' && (quoted || cell.trim() === '')) quoted = !quoted;
+        else if (ch === delimiter && !quoted) { cells.push(cell.trim()); cell = ''; }
+        else cell += ch;
+    }
+    cells.push(cell.trim());
+    return cells;
+};
+
+// Semicolons and tabs are used where the decimal separator is a comma; otherwise commas
+const detectDelimiter = (lines: string[]): string => {
+    const sample = lines.slice(0, 10).join('\n');
+    if (sample.includes('\t')) return '\t';
+    if (sample.includes(';')) return ';';
+    return ',';
+};
+
+// A distance cell in meters, or null if it is not a positive length
+const readDistance = (cell: string, unit: string | undefined): number | null => {
+    const text = cell.replace(/\s+/g, ' ').trim();
+    if (!text || NOT_A_DISTANCE.test(text)) return null;
+    const value = BARE_NUMBER.test(text)
+        ? parseLength(`${text.replace(',', '.')}${unit ?? 'm'}`, 'metric')
+        : parseLength(text, 'metric');
+    return value !== null && value > 0 ? value : null;
+};
+
+// Dates as written by the meter apps: 2024-05-17, 17.05.2024, 17/05/2024 or 05/17/2024, with an optional
+// hh:mm[:ss]. A slash date is day-first when its first number is over 12 and month-first when its second
+// is; otherwise it is ambiguous and left out, as are dates that do not exist.
+const readTimestamp = (date: string | undefined, time: string | undefined): string | undefined => {
+    const text = [date, time].filter(Boolean).join(' ').trim();
+    if (!text) return undefined;
+    const m = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})|^(\d{1,2})\.(\d{1,2})\.(\d{2,4})|^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+    const clock = text.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+    if (!m) {
+        const parsed = new Date(text);
+        return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+    }
+    let year: number, month: number, day: number;
+    if (m[1]) [year, month, day] = [m[1], m[2], m[3]].map(Number);
+    else if (m[4]) [year, month, day] = [m[6], m[5], m[4]].map(Number);
+    else {
+        const [first, second] = [Number(m[7]), Number(m[8])];
+        if (first <= 12 && second <= 12 && first !== second) return undefined;
+        year = Number(m[9]);
+        [month, day] = first > 12 ? [second, first] : [first, second];
+    }
+    if (year < 100) year += 2000;
+    const [hours, minutes, seconds] = clock ? [Number(clock[1]), Number(clock[2]), Number(clock[3] ?? 0)] : [0, 0, 0];
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 59) return undefined;
+    const parsed = new Date(year, month - 1, day, hours, minutes, seconds);
+    // The Date constructor rolls over days a month does not have (31.04. becomes 01.05.)
+    if (parsed.getMonth() !== month - 1 || parsed.getDate() !== day) return undefined;
+    return parsed.toISOString();
+};
+
+/**
+ * Reads the distance readings from a laser meter's CSV log, in logged order. Rows that are not
+ * distances (areas, volumes, angles) or cannot be read are counted in 'skipped'.
+ */
+export const parseLaserCsv = (content: string): LaserCsvResult => {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim() !== '');
+    if (lines.length === 0) return { type: 'error', error: 'The file is empty.' };
+
+    const delimiter = detectDelimiter(lines);
+    const rows = lines.map(l => splitRow(l, delimiter));
+
+    // A header row has no cell that reads as a distance
+    const hasHeader = !rows[0].some(cell => readDistance(cell, undefined) !== null);
+    const header = hasHeader ? rows[0] : [];
+    const data = hasHeader ? rows.slice(1) : rows;
+    const findColumn = (pattern: RegExp) => header.findIndex(h => pattern.test(h));
+
+    // Of the columns named like distances, the first whose cells read as distances
+    const isDistanceColumn = (c: number) => data.some(r => readDistance(r[c] ?? '', undefined) !== null);
+    let distanceColumn = DISTANCE_HEADERS
+        .flatMap(pattern => header.flatMap((h, c) => pattern.test(h) ? [c] : []))
+        .find(isDistanceColumn) ?? -1;
+    if (distanceColumn < 0) {
+        // No recognisable header: take the first column that is mostly distances, passing over
+        // running numbers (whole numbers only) and dates or times
+        const width = Math.max(...data.map(r => r.length));
+        for (let c = 0; c < width && distanceColumn < 0; c++) {
+            const cells = data.map(r => r[c] ?? '').filter(cell => readDistance(cell, undefined) !== null && !/[:/]|\d\.\d+\./.test(cell));
+            if (cells.length > data.length / 2 && cells.some(cell => !/^\d+$/.test(cell))) distanceColumn = c;
+        }
+    }
+    if (distanceColumn < 0) return { type: 'error', error: 'No column of distances was found.' };
+
+    const unitColumn = findColumn(UNIT_HEADER);
+    const typeColumn = findColumn(TYPE_HEADER);
+    const dateColumn = findColumn(DATE_HEADER);
+    const timeColumn = findColumn(TIME_HEADER);
+    const labelColumn = findColumn(LABEL_HEADER);
+    const headerUnit = header[distanceColumn]?.match(HEADER_UNIT)?.[1].toLowerCase();
+
+    const readings: LaserReading[] = [];
+    let skipped = 0;
+    data.forEach(row => {
+        const unit = unitColumn >= 0 && row[unitColumn] ? row[unitColumn] : headerUnit;
+        const isDistance = (typeColumn < 0 || !NOT_A_DISTANCE.test(row[typeColumn] ?? '')) && !(unit && NOT_A_DISTANCE.test(unit));
+        const value = isDistance ? readDistance(row[distanceColumn] ?? '', unit) : null;
+        if (value === null) {
+            skipped++;
+            return;
+        }
+        const timestamp = readTimestamp(dateColumn >= 0 ? row[dateColumn] : undefined, timeColumn >= 0 && timeColumn !== dateColumn ? row[timeColumn] : undefined);
+        const label = labelColumn >= 0 && row[labelColumn] ? row[labelColumn] : undefined;
+        readings.push({ value, ...(timestamp ? { timestamp } : {}), ...(label ? { label } : {}) });
+    });
+
+    if (readings.length === 0) return { type: 'error', error: 'The file contains no distance readings.' };
+    return { type: 'success', readings, skipped };
+};
+
+/**
+ * Pairs a room's walls, in ring order from the first vertex, with consecutive readings from 'start'.
+ * Walls left over when the readings run out stay unassigned.
+ */
+export const assignInPerimeterOrder = (poly: Polygon, readingCount: number, start: number): Record<string, number> => {
+    const assignments: Record<string, number> = {};
+    getPerimeterEdgesInOrder(poly).forEach((edge, i) => {
+        if (start + i < readingCount) assignments[edge.id] = start + i;
+    });
+    return assignments;
+};
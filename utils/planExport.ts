@@ -0,0 +1,519 @@
+import { Point, Polygon, ProjectMetadata, UnitSystem, Underlay } from '../types';
+import { PIXELS_PER_METER, calculatePolygonArea, getPolygonsBounds, addScaled, getWallSides, getOuterCorner, getOpening, getDimensionLines, getDimensionTextAngle, DEFAULT_SYMBOL_DEPTH_PX } from './geometry';
+import { METERS_PER_FOOT, formatArea, formatLength } from './units';
+
+// --- Sheet Setup ---
+
+export type PaperSize = 'A4' | 'A3';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+// Portrait dimensions (mm)
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+    A4: { width: 210, height: 297 },
+    A3: { width: 297, height: 420 }
+};
+
+// Drawing scales offered for export (1:N)
+export const PLAN_SCALES = [20, 25, 50, 100, 200];
+
+export interface PlanExportOptions {
+    paper: PaperSize;
+    orientation: PaperOrientation;
+    scale: number; // 1:N
+    unitSystem: UnitSystem;
+    title: string;
+    metadata?: ProjectMetadata;
+    dimensions: boolean; // Draw dimension lines around the rooms
+    underlay?: Underlay; // Only passed when the user asks for the background image
+    underlayJpeg?: string; // Underlay as JPEG bytes (binary string); the PDF writer skips the underlay without it
+}
+
+// Sheet layout (mm)
+const SHEET_MARGIN = 10;
+const TITLE_BLOCK_HEIGHT = 24;
+const DRAWING_PADDING = 6;
+
+// Dimension rows beyond the wall face (mm on paper)
+const DIMENSION_CHAIN_OFFSET = 5;
+const DIMENSION_OVERALL_OFFSET = 10;
+const DIMENSION_TEXT_SIZE = 2;
+
+// Colours match the canvas
+const COLORS = {
+    ink: '#0f172a',
+    wall: '#334155',
+    roomFill: '#f1f5f9',
+    dimension: '#475569',
+    muted: '#64748b',
+    door: '#d97706',
+    window: '#06b6d4',
+    paper: '#ffffff'
+};
+
+const getPaperDimensions = (paper: PaperSize, orientation: PaperOrientation) => {
+    const { width, height } = PAPER_SIZES[paper];
+    return orientation === 'portrait' ? { width, height } : { width: height, height: width };
+};
+
+// Paper millimeters per canvas pixel at 1:N
+const getMillimetersPerPixel = (scale: number) => 1000 / PIXELS_PER_METER / scale;
+
+// Room outlines plus the walls drawn outside them (px)
+const getPlanExtents = (polygons: Polygon[]) => {
+    const bounds = getPolygonsBounds(polygons);
+    if (!bounds) return null;
+    const wall = Math.max(0, ...polygons.flatMap(p => p.edges.map(e => e.thickness ?? 0)));
+    return { minX: bounds.minX - wall, minY: bounds.minY - wall, maxX: bounds.maxX + wall, maxY: bounds.maxY + wall };
+};
+
+const getDrawingArea = (paper: PaperSize, orientation: PaperOrientation) => {
+    const sheet = getPaperDimensions(paper, orientation);
+    const inset = SHEET_MARGIN + DRAWING_PADDING;
+    return {
+        x: inset,
+        y: inset,
+        width: sheet.width - 2 * inset,
+        height: sheet.height - 2 * inset - TITLE_BLOCK_HEIGHT
+    };
+};
+
+/**
+ * Size of the plan on paper (mm) at the given scale, and whether it fits the sheet's drawing area.
+ */
+export const getPlanFit = (polygons: Polygon[], paper: PaperSize, orientation: PaperOrientation, scale: number, dimensions: boolean = true) => {
+    const extents = getPlanExtents(polygons);
+    const area = getDrawingArea(paper, orientation);
+    const mmPerPx = getMillimetersPerPixel(scale);
+    // Dimension rows keep their paper size at any scale
+    const margin = extents && dimensions ? 2 * (DIMENSION_OVERALL_OFFSET + DIMENSION_TEXT_SIZE * 2) : 0;
+    const width = extents ? (extents.maxX - extents.minX) * mmPerPx + margin : 0;
+    const height = extents ? (extents.maxY - extents.minY) * mmPerPx + margin : 0;
+    return { width, height, fits: width <= area.width && height <= area.height };
+};
+
+/**
+ * Largest drawing scale (smallest N) at which the plan fits the sheet, or null if none does.
+ */
+export const suggestPlanScale = (polygons: Polygon[], paper: PaperSize, orientation: PaperOrientation, dimensions: boolean = true): number | null =>
+    PLAN_SCALES.find(scale => getPlanFit(polygons, paper, orientation, scale, dimensions).fits) ?? null;
+
+// --- Sheet Primitives ---
+
+type TextAnchor = 'start' | 'middle' | 'end';
+
+// Everything is in paper millimeters with Y down, shared by the SVG and PDF writers
+type PlanShape =
+    | { kind: 'path'; points: Point[]; closed: boolean; stroke?: string; fill?: string; width?: number; dash?: number[] }
+    | { kind: 'text'; at: Point; text: string; size: number; anchor: TextAnchor; bold?: boolean; color: string; angle?: number };
+
+// Underlay image placement, drawn beneath everything and clipped to the drawing area
+interface PlanImage {
+    src: string;
+    center: Point;
+    width: number;
+    height: number;
+    angle: number; // Degrees, clockwise on paper
+    opacity: number;
+    clip: { x: number; y: number; width: number; height: number };
+}
+
+interface PlanSheet {
+    width: number;
+    height: number;
+    shapes: PlanShape[];
+    underlay?: PlanImage;
+}
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, used to anchor and fit PDF text
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+// Non-ASCII characters used by our labels
+const EXTRA_WIDTHS: Record<string, number> = { '²': 333, '³': 333, '±': 584, '°': 400, '·': 278, '–': 556, '—': 1000 };
+
+const measureText = (text: string, size: number, bold: boolean = false): number => {
+    const table = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let units = 0;
+    for (const ch of text) {
+        const code = ch.charCodeAt(0);
+        units += code >= 32 && code <= 126 ? table[code - 32] : (EXTRA_WIDTHS[ch] ?? 556);
+    }
+    return units / 1000 * size;
+};
+
+// Shortens text with an ellipsis to fit a width (mm)
+const fitText = (text: string, size: number, maxWidth: number, bold: boolean = false): string => {
+    if (measureText(text, size, bold) <= maxWidth) return text;
+    let cut = text;
+    while (cut.length > 0 && measureText(`${cut}...`, size, bold) > maxWidth) cut = cut.slice(0, -1);
+    return cut ? `${cut.trimEnd()}...` : '';
+};
+
+// Points along a circular arc (angles in radians, screen orientation)
+const arcPoints = (center: Point, radius: number, from: number, to: number, segments: number = 16): Point[] =>
+    Array.from({ length: segments + 1 }, (_, i) => {
+        const angle = from + (to - from) * i / segments;
+        return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius };
+    });
+
+// --- Sheet Layout ---
+
+// Scale bar lengths (real world, in the project's unit) tried from the longest
+const SCALE_BAR_STEPS: Record<UnitSystem, { meters: number; label: (count: number) => string }> = {
+    metric: { meters: 1, label: n => `${n}m` },
+    imperial: { meters: METERS_PER_FOOT, label: n => `${n}ft` }
+};
+const SCALE_BAR_COUNTS = [50, 20, 10, 5, 2, 1, 0.5];
+
+const buildPlanSheet = (polygons: Polygon[], options: PlanExportOptions): PlanSheet => {
+    const sheet = getPaperDimensions(options.paper, options.orientation);
+    const area = getDrawingArea(options.paper, options.orientation);
+    const mmPerPx = getMillimetersPerPixel(options.scale);
+    const shapes: PlanShape[] = [];
+
+    const path = (points: Point[], style: Omit<Extract<PlanShape, { kind: 'path' }>, 'kind' | 'points' | 'closed'>, closed: boolean = false) =>
+        shapes.push({ kind: 'path', points, closed, ...style });
+    const text = (at: Point, value: string, size: number, anchor: TextAnchor = 'start', style: { bold?: boolean; color?: string; angle?: number } = {}) => {
+        if (value) shapes.push({ kind: 'text', at, text: value, size, anchor, bold: style.bold, color: style.color ?? COLORS.ink, angle: style.angle });
+    };
+
+    // Center the plan in the drawing area
+    const extents = getPlanExtents(polygons);
+    const originX = area.x + area.width / 2 - ((extents?.minX ?? 0) + (extents?.maxX ?? 0)) / 2 * mmPerPx;
+    const originY = area.y + area.height / 2 - ((extents?.minY ?? 0) + (extents?.maxY ?? 0)) / 2 * mmPerPx;
+    const toPaper = (p: Point): Point => ({ x: originX + p.x * mmPerPx, y: originY + p.y * mmPerPx });
+
+    const underlay: PlanImage | undefined = options.underlay && {
+        src: options.underlay.src,
+        center: toPaper(options.underlay.position),
+        width: options.underlay.width * options.underlay.scale * mmPerPx,
+        height: options.underlay.height * options.underlay.scale * mmPerPx,
+        angle: options.underlay.rotation * 180 / Math.PI,
+        opacity: options.underlay.opacity,
+        clip: area
+    };
+
+    const closedRooms = polygons.filter(p => p.isClosed && p.vertices.length >= 3);
+
+    // Room fills first so walls and annotations draw on top
+    closedRooms.forEach(poly => path(poly.vertices.map(toPaper), { fill: COLORS.roomFill }, true));
+
+    for (const poly of polygons) {
+        if (poly.vertices.length < 2) continue;
+        const sides = getWallSides(poly);
+
+        sides.forEach((side, i) => {
+            const prev = poly.isClosed || i > 0 ? sides[(i - 1 + sides.length) % sides.length] : undefined;
+            const next = poly.isClosed || i < sides.length - 1 ? sides[(i + 1) % sides.length] : undefined;
+            const opening = getOpening(side);
+            const at = (distance: number, depth: number = 0) => toPaper(addScaled(addScaled(side.start, side.dir, distance), side.outward, depth));
+
+            // Solid wall pieces on either side of the opening
+            const pieces: [number, number][] = opening
+                ? [[0, opening.from], [opening.to, side.length]].filter(([a, b]) => b - a > 1e-6) as [number, number][]
+                : [[0, side.length]];
+
+            // A joined wall is shared with the neighbouring room; draw its band only once
+            const drawBand = side.thickness > 0 && !(side.edge?.linkedEdgeId && side.edge.id > side.edge.linkedEdgeId);
+            if (drawBand) {
+                const outerStart = toPaper(getOuterCorner(side, prev, side.start));
+                const outerEnd = toPaper(getOuterCorner(side, next, side.end));
+                pieces.forEach(([from, to]) => {
+                    const outerFrom = from === 0 ? outerStart : at(from, side.thickness);
+                    const outerTo = to === side.length ? outerEnd : at(to, side.thickness);
+                    path([at(from), at(to), outerTo, outerFrom], { fill: COLORS.wall, stroke: COLORS.wall, width: 0.1 }, true);
+                });
+            }
+            pieces.forEach(([from, to]) => path([at(from), at(to)], { stroke: COLORS.ink, width: 0.35 }));
+
+            if (!opening) return;
+            const width = opening.to - opening.from;
+            if (opening.feature === 'door') {
+                // Hinged on the side nearer the edge's start vertex, swinging into the room (as the DXF plan)
+                const hingeAt = side.reversed ? opening.to : opening.from;
+                const closedAt = side.reversed ? opening.from : opening.to;
+                const hinge = at(hingeAt);
+                const closedEnd = at(closedAt);
+                const openEnd = toPaper(addScaled(addScaled(side.start, side.dir, hingeAt), side.outward, -width));
+                const startAngle = Math.atan2(closedEnd.y - hinge.y, closedEnd.x - hinge.x);
+                let sweep = Math.atan2(openEnd.y - hinge.y, openEnd.x - hinge.x) - startAngle;
+                if (sweep > Math.PI) sweep -= 2 * Math.PI;
+                if (sweep < -Math.PI) sweep += 2 * Math.PI;
+                path([hinge, openEnd], { stroke: COLORS.door, width: 0.35 });
+                path(arcPoints(hinge, width * mmPerPx, startAngle, startAngle + sweep), { stroke: COLORS.door, width: 0.18 });
+                if (side.thickness > 0) {
+                    path([at(opening.from), at(opening.from, side.thickness)], { stroke: COLORS.door, width: 0.35 });
+                    path([at(opening.to), at(opening.to, side.thickness)], { stroke: COLORS.door, width: 0.35 });
+                }
+            } else {
+                const depth = side.thickness > 0 ? side.thickness : DEFAULT_SYMBOL_DEPTH_PX;
+                path([at(opening.from), at(opening.to), at(opening.to, depth), at(opening.from, depth)], { fill: COLORS.paper, stroke: COLORS.window, width: 0.25 }, true);
+                path([at(opening.from, depth / 2), at(opening.to, depth / 2)], { stroke: COLORS.window, width: 0.18 });
+            }
+        });
+
+        if (options.dimensions) addDimensions(poly, toPaper, mmPerPx, options.unitSystem, path, text);
+    }
+
+    // Room names and areas
+    closedRooms.forEach(poly => {
+        const c = toPaper(poly.centroid);
+        text({ x: c.x, y: c.y }, poly.name, 3.2, 'middle', { bold: true });
+        const area = poly.area ?? calculatePolygonArea(poly.vertices);
+        text({ x: c.x, y: c.y + 4 }, formatArea(area, options.unitSystem, poly.areaSigma), 2.4, 'middle', { color: COLORS.muted });
+    });
+
+    // Sheet border
+    const border = { x: SHEET_MARGIN, y: SHEET_MARGIN, width: sheet.width - 2 * SHEET_MARGIN, height: sheet.height - 2 * SHEET_MARGIN };
+    path(rect(border.x, border.y, border.width, border.height), { stroke: COLORS.ink, width: 0.5 }, true);
+
+    addNorthArrow({ x: area.x + area.width - 6, y: area.y + 4 }, path, text);
+    addTitleBlock(border, options, path, text);
+
+    return { width: sheet.width, height: sheet.height, shapes, underlay };
+};
+
+type PathFn = (points: Point[], style: Omit<Extract<PlanShape, { kind: 'path' }>, 'kind' | 'points' | 'closed'>, closed?: boolean) => void;
+type TextFn = (at: Point, value: string, size: number, anchor?: TextAnchor, style?: { bold?: boolean; color?: string; angle?: number }) => void;
+
+const rect = (x: number, y: number, width: number, height: number): Point[] =>
+    [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+
+// Chained and overall dimension lines with extension lines, 45° ticks and the measured length
+const addDimensions = (poly: Polygon, toPaper: (p: Point) => Point, mmPerPx: number, unitSystem: UnitSystem, path: PathFn, text: TextFn) => {
+    const style = { stroke: COLORS.dimension, width: 0.13 };
+    getDimensionLines(poly, DIMENSION_CHAIN_OFFSET / mmPerPx, DIMENSION_OVERALL_OFFSET / mmPerPx).forEach(line => {
+        const a = toPaper(line.lineStart);
+        const b = toPaper(line.lineEnd);
+        const lengthMm = Math.hypot(b.x - a.x, b.y - a.y);
+        const label = formatLength(line.length, unitSystem);
+        if (lengthMm < 1) return;
+
+        // Extension lines start just clear of the wall and run slightly past the dimension line
+        path([addScaled(toPaper(line.start), line.normal, 1), addScaled(a, line.normal, 1)], style);
+        path([addScaled(toPaper(line.end), line.normal, 1), addScaled(b, line.normal, 1)], style);
+        path([a, b], style);
+        const dir = { x: (b.x - a.x) / lengthMm, y: (b.y - a.y) / lengthMm };
+        const tick = { x: (dir.x + line.normal.x) * 0.9, y: (dir.y + line.normal.y) * 0.9 };
+        [a, b].forEach(p => path([addScaled(p, tick, -1), addScaled(p, tick)], { stroke: COLORS.dimension, width: 0.25 }));
+
+        // Label beyond the line, centred on it; short segments are left to the overall dimension
+        if (lengthMm < measureText(label, DIMENSION_TEXT_SIZE) + 2) return;
+        const angle = getDimensionTextAngle(line);
+        const rad = angle * Math.PI / 180;
+        const center = addScaled({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, line.normal, DIMENSION_TEXT_SIZE * 0.8);
+        const baseline = addScaled(center, { x: -Math.sin(rad), y: Math.cos(rad) }, DIMENSION_TEXT_SIZE * 0.35);
+        text(baseline, label, DIMENSION_TEXT_SIZE, 'middle', { color: COLORS.dimension, angle });
+    });
+};
+
+const addNorthArrow = (center: Point, path: PathFn, text: TextFn) => {
+    const size = 8;
+    const tip = { x: center.x, y: center.y };
+    const base = center.y + size;
+    path([tip, { x: center.x + size * 0.35, y: base }, { x: center.x, y: base - size * 0.25 }], { fill: COLORS.ink }, true);
+    path([tip, { x: center.x, y: base - size * 0.25 }, { x: center.x - size * 0.35, y: base }], { stroke: COLORS.ink, width: 0.25, fill: COLORS.paper }, true);
+    text({ x: center.x, y: base + 4 }, 'N', 3, 'middle', { bold: true });
+};
+
+const addScaleBar = (origin: Point, maxWidth: number, options: PlanExportOptions, path: PathFn, text: TextFn) => {
+    const mmPerMeter = 1000 / options.scale;
+    const step = SCALE_BAR_STEPS[options.unitSystem];
+    const count = SCALE_BAR_COUNTS.find(n => n * step.meters * mmPerMeter <= maxWidth) ?? SCALE_BAR_COUNTS[SCALE_BAR_COUNTS.length - 1];
+    const width = count * step.meters * mmPerMeter;
+    const segment = width / 4;
+    for (let i = 0; i < 4; i++) {
+        path(rect(origin.x + i * segment, origin.y, segment, 1.5), { fill: i % 2 === 0 ? COLORS.ink : COLORS.paper, stroke: COLORS.ink, width: 0.2 }, true);
+    }
+    text({ x: origin.x, y: origin.y + 4.5 }, '0', 2, 'middle');
+    text({ x: origin.x + width, y: origin.y + 4.5 }, step.label(count), 2, 'middle');
+};
+
+const addTitleBlock = (border: { x: number; y: number; width: number; height: number }, options: PlanExportOptions, path: PathFn, text: TextFn) => {
+    const top = border.y + border.height - TITLE_BLOCK_HEIGHT;
+    const metadata = options.metadata;
+    const mainWidth = border.width * 0.5;
+    const infoWidth = border.width * 0.25;
+    const line = { stroke: COLORS.ink, width: 0.35 };
+    path([{ x: border.x, y: top }, { x: border.x + border.width, y: top }], line);
+    path([{ x: border.x + mainWidth, y: top }, { x: border.x + mainWidth, y: top + TITLE_BLOCK_HEIGHT }], line);
+    path([{ x: border.x + mainWidth + infoWidth, y: top }, { x: border.x + mainWidth + infoWidth, y: top + TITLE_BLOCK_HEIGHT }], line);
+
+    // Project, client, address and notes
+    const left = border.x + 3;
+    const textWidth = mainWidth - 6;
+    text({ x: left, y: top + 6.5 }, fitText(options.title || 'Untitled Survey', 4.5, textWidth, true), 4.5, 'start', { bold: true });
+    text({ x: left, y: top + 12 }, fitText([metadata?.client, metadata?.address].filter(Boolean).join(' · '), 2.8, textWidth), 2.8);
+    text({ x: left, y: top + 17 }, fitText((metadata?.notes ?? '').replace(/\s+/g, ' ').trim(), 2.2, textWidth), 2.2, 'start', { color: COLORS.muted });
+
+    const field = (x: number, y: number, width: number, label: string, value: string) => {
+        text({ x, y }, label.toUpperCase(), 1.8, 'start', { color: COLORS.muted });
+        text({ x, y: y + 4 }, fitText(value || '-', 3, width), 3);
+    };
+    const infoLeft = border.x + mainWidth + 3;
+    field(infoLeft, top + 4.5, infoWidth - 6, 'Surveyor', metadata?.surveyor ?? '');
+    field(infoLeft, top + 15, infoWidth - 6, 'Date', metadata?.date ?? '');
+
+    const scaleLeft = border.x + mainWidth + infoWidth + 3;
+    field(scaleLeft, top + 4.5, infoWidth - 6, 'Scale', `1:${options.scale} @ ${options.paper}`);
+    addScaleBar({ x: scaleLeft + 1, y: top + 15 }, infoWidth - 10, options, path, text);
+};
+
+// --- SVG Writer ---
+
+const fmt = (value: number) => {
+    const rounded = Math.round(value * 1000) / 1000;
+    return Object.is(rounded, -0) ? '0' : `${rounded}`;
+};
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Printable plan as SVG. The document is sized in millimeters so it prints at the true drawing scale.
+ */
+export const generatePlanSVG = (polygons: Polygon[], options: PlanExportOptions): string => {
+    const sheet = buildPlanSheet(polygons, options);
+    const body = sheet.shapes.map(shape => {
+        if (shape.kind === 'path') {
+            const d = shape.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${fmt(p.x)},${fmt(p.y)}`).join(' ') + (shape.closed ? ' Z' : '');
+            const stroke = shape.stroke ? ` stroke="${shape.stroke}" stroke-width="${fmt(shape.width ?? 0.25)}" stroke-linejoin="round"` : '';
+            const dash = shape.dash ? ` stroke-dasharray="${shape.dash.map(fmt).join(' ')}"` : '';
+            return `<path d="${d}" fill="${shape.fill ?? 'none'}"${stroke}${dash}/>`;
+        }
+        const rotate = shape.angle ? ` transform="rotate(${fmt(shape.angle)} ${fmt(shape.at.x)} ${fmt(shape.at.y)})"` : '';
+        const weight = shape.bold ? ' font-weight="bold"' : '';
+        return `<text x="${fmt(shape.at.x)}" y="${fmt(shape.at.y)}" font-size="${fmt(shape.size)}" text-anchor="${shape.anchor}" fill="${shape.color}"${weight}${rotate}>${escapeXml(shape.text)}</text>`;
+    });
+
+    const image = sheet.underlay;
+    const underlay = image ? [
+        `<clipPath id="drawing-area"><rect x="${fmt(image.clip.x)}" y="${fmt(image.clip.y)}" width="${fmt(image.clip.width)}" height="${fmt(image.clip.height)}"/></clipPath>`,
+        `<g clip-path="url(#drawing-area)"><image href="${image.src}" x="${fmt(-image.width / 2)}" y="${fmt(-image.height / 2)}" width="${fmt(image.width)}" height="${fmt(image.height)}" preserveAspectRatio="none" opacity="${fmt(image.opacity)}" transform="translate(${fmt(image.center.x)} ${fmt(image.center.y)}) rotate(${fmt(image.angle)})"/></g>`
+    ] : [];
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${sheet.width}mm" height="${sheet.height}mm" viewBox="0 0 ${sheet.width} ${sheet.height}" font-family="Helvetica, Arial, sans-serif">`,
+        `<title>${escapeXml(options.title)}</title>`,
+        `<rect width="${sheet.width}" height="${sheet.height}" fill="${COLORS.paper}"/>`,
+        ...underlay,
+        ...body,
+        '</svg>',
+        ''
+    ].join('\n');
+};
+
+// --- PDF Writer ---
+
+const POINTS_PER_MM = 72 / 25.4;
+
+// WinAnsiEncoding matches Latin-1 above 0xA0; a few punctuation marks live in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = { '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97 };
+
+// PDF string literal in WinAnsiEncoding (non-ASCII as octal escapes, unsupported characters as "?")
+const toPdfString = (value: string) => {
+    let out = '(';
+    for (const ch of value) {
+        const code = ch.charCodeAt(0);
+        if (ch === '(' || ch === ')' || ch === '\\') out += `\\${ch}`;
+        else if (code >= 32 && code <= 126) out += ch;
+        else {
+            const ansi = WIN_ANSI_EXTRAS[ch] ?? (code >= 0xa0 && code <= 0xff ? code : 0x3f);
+            out += `\\${ansi.toString(8).padStart(3, '0')}`;
+        }
+    }
+    return `${out})`;
+};
+
+const toPdfColor = (hex: string) => {
+    const value = parseInt(hex.slice(1), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => fmt(c / 255)).join(' ');
+};
+
+/**
+ * Printable plan as a single-page PDF using the built-in Helvetica fonts, written without any PDF library.
+ * Returns the file as a binary string (all characters below 0x100).
+ */
+export const generatePlanPDF = (polygons: Polygon[], options: PlanExportOptions): string => {
+    const sheet = buildPlanSheet(polygons, options);
+    const pageWidth = sheet.width * POINTS_PER_MM;
+    const pageHeight = sheet.height * POINTS_PER_MM;
+
+    // Work in millimeters with Y down, like the SVG
+    const ops: string[] = [`${fmt(POINTS_PER_MM)} 0 0 ${fmt(-POINTS_PER_MM)} 0 ${fmt(pageHeight)} cm`, '1 J 1 j'];
+
+    // Images fill the unit square with their top row at v = 1, so map (0,0) to the bottom-left corner on paper
+    const image = sheet.underlay && options.underlayJpeg ? sheet.underlay : undefined;
+    if (image) {
+        const rad = image.angle * Math.PI / 180;
+        const cos = Math.cos(rad), sin = Math.sin(rad);
+        const { x, y, width, height } = image.clip;
+        const matrix = [
+            image.width * cos, image.width * sin, image.height * sin, -image.height * cos,
+            image.center.x - image.width / 2 * cos - image.height / 2 * sin,
+            image.center.y - image.width / 2 * sin + image.height / 2 * cos
+        ];
+        ops.push(`q ${fmt(x)} ${fmt(y)} ${fmt(width)} ${fmt(height)} re W n /GS1 gs ${matrix.map(fmt).join(' ')} cm /Im1 Do Q`);
+    }
+    for (const shape of sheet.shapes) {
+        if (shape.kind === 'path') {
+            if (shape.points.length === 0 || (!shape.fill && !shape.stroke)) continue;
+            const segments = shape.points.map((p, i) => `${fmt(p.x)} ${fmt(p.y)} ${i === 0 ? 'm' : 'l'}`).join(' ');
+            const style: string[] = [];
+            if (shape.fill) style.push(`${toPdfColor(shape.fill)} rg`);
+            if (shape.stroke) style.push(`${toPdfColor(shape.stroke)} RG ${fmt(shape.width ?? 0.25)} w [${(shape.dash ?? []).map(fmt).join(' ')}] 0 d`);
+            const paint = shape.fill && shape.stroke ? 'B' : shape.fill ? 'f' : 'S';
+            ops.push(`${style.join(' ')} ${segments}${shape.closed ? ' h' : ''} ${paint}`);
+        } else {
+            const width = measureText(shape.text, shape.size, shape.bold);
+            const shift = shape.anchor === 'middle' ? width / 2 : shape.anchor === 'end' ? width : 0;
+            const rad = (shape.angle ?? 0) * Math.PI / 180;
+            const cos = Math.cos(rad), sin = Math.sin(rad);
+            // Text matrix flips glyphs back upright inside the Y-down coordinate system
+            const x = shape.at.x - cos * shift;
+            const y = shape.at.y - sin * shift;
+            ops.push(`BT ${toPdfColor(shape.color)} rg /${shape.bold ? 'F2' : 'F1'} ${fmt(shape.size)} Tf ${fmt(cos)} ${fmt(sin)} ${fmt(sin)} ${fmt(-cos)} ${fmt(x)} ${fmt(y)} Tm ${toPdfString(shape.text)} Tj ET`);
+        }
+    }
+    const content = ops.join('\n');
+
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(pageWidth)} ${fmt(pageHeight)}] /Resources << /Font << /F1 5 0 R /F2 6 0 R >>${image ? ` /XObject << /Im1 8 0 R >> /ExtGState << /GS1 << /ca ${fmt(image.opacity)} >> >>` : ''} >> /Contents 4 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Title ${toPdfString(options.title)} /Creator (GeoSurvey Pro) >>`
+    ];
+    if (image && options.underlay && options.underlayJpeg) {
+        const jpeg = options.underlayJpeg;
+        objects.push(`<< /Type /XObject /Subtype /Image /Width ${options.underlay.width} /Height ${options.underlay.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n${jpeg}\nendstream`);
+    }
+
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, i) => {
+        const offset = pdf.length;
+        pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return pdf;
+};
@@ -0,0 +1,438 @@
+import { AppState, Edge, EdgeType, LengthReading, Polygon, ProjectFile, ProjectMetadata, Underlay, Vertex, ViewState } from '../types';
+import { calculateCentroid, getEdgeLabel } from './geometry';
+import { EMPTY_METADATA } from './storage';
+
+// --- Project File Format ---
+
+export const PROJECT_FILE_FORMAT = 'geosurvey-project';
+
+// Version history:
+// 0 - bare Polygon[] array
+// 1 - { unitSystem, polygons, crossEdges } object without a version
+// 2 - versioned envelope with project metadata and view state (optional tracing underlay)
+export const PROJECT_FILE_VERSION = 2;
+
+// Name and metadata fields a file actually sets, to apply over the open project's
+export interface ImportedProjectInfo {
+    name?: string;
+    metadata: Partial<ProjectMetadata>;
+}
+
+export type ProjectFileResult =
+    | { type: 'success'; file: ProjectFile; migratedFrom: number | null; projectInfo: ImportedProjectInfo | null }
+    | { type: 'error'; errors: string[] };
+
+const DEFAULT_VIEW: ViewState = { panOffset: { x: 0, y: 0 }, zoomLevel: 1, rotation: 0 };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// JSON has no NaN/Infinity: JSON.stringify writes them as null
+const describeValue = (value: unknown): string =>
+    value === undefined ? 'missing' : value === null ? 'null (NaN or Infinity when exported)' : JSON.stringify(value);
+
+/**
+ * Builds the export envelope for the current survey.
+ */
+export const createProjectFile = (state: AppState): ProjectFile => ({
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    unitSystem: state.unitSystem,
+    project: {
+        name: state.currentProject?.name ?? 'Untitled Survey',
+        metadata: state.currentProject?.metadata ?? { ...EMPTY_METADATA }
+    },
+    polygons: state.polygons,
+    crossEdges: state.crossEdges,
+    view: { panOffset: state.panOffset, zoomLevel: state.zoomLevel, rotation: state.rotation },
+    ...(state.underlay ? { underlay: state.underlay } : {})
+});
+
+// --- Migrations ---
+
+// Each step upgrades raw file data from version N to N + 1; validation fills any remaining defaults
+const MIGRATIONS: Record<number, (data: unknown) => Record<string, unknown>> = {
+    0: (polygons) => ({ polygons, crossEdges: [] }),
+    1: (legacy) => {
+        const data = isRecord(legacy) ? legacy : {};
+        return {
+            format: PROJECT_FILE_FORMAT,
+            version: 2,
+            unitSystem: data.unitSystem,
+            polygons: data.polygons,
+            crossEdges: data.crossEdges ?? []
+        };
+    }
+};
+
+const detectVersion = (data: unknown): number | null => {
+    if (Array.isArray(data)) return 0;
+    if (!isRecord(data)) return null;
+    if (data.format === PROJECT_FILE_FORMAT) return typeof data.version === 'number' && Number.isInteger(data.version) ? data.version : null;
+    if (data.format === undefined && Array.isArray(data.polygons)) return 1;
+    return null;
+};
+
+// --- Validation ---
+
+const validateVertex = (raw: unknown, where: string, errors: string[]): Vertex | null => {
+    if (!isRecord(raw)) {
+        errors.push(`${where}: expected an object, got ${describeValue(raw)}.`);
+        return null;
+    }
+    const name = typeof raw.label === 'string' && raw.label ? `${where} "${raw.label}"` : where;
+    if (typeof raw.id !== 'string' || !raw.id) errors.push(`${name}: id is ${describeValue(raw.id)}.`);
+    if (!isFiniteNumber(raw.x)) errors.push(`${name}: x coordinate is ${describeValue(raw.x)}.`);
+    if (!isFiniteNumber(raw.y)) errors.push(`${name}: y coordinate is ${describeValue(raw.y)}.`);
+    if (raw.fixedAngle !== undefined && raw.fixedAngle !== null && !isFiniteNumber(raw.fixedAngle)) {
+        errors.push(`${name}: fixedAngle is ${describeValue(raw.fixedAngle)}.`);
+    }
+    // An explicit null (older exports) means no fixed angle: consumers only test for undefined
+    const { fixedAngle, ...rest } = raw;
+    return { ...rest, label: typeof raw.label === 'string' ? raw.label : '', ...(isFiniteNumber(fixedAngle) ? { fixedAngle } : {}) } as Vertex;
+};
+
+const OPTIONAL_EDGE_NUMBERS = ['thickness', 'alignmentOffset', 'featureWidth', 'featureDistance', 'residual', 'sigma'] as const;
+
+const validateReading = (raw: unknown, name: string, errors: string[]) => {
+    if (!isRecord(raw)) {
+        errors.push(`${name}: expected an object, got ${describeValue(raw)}.`);
+        return;
+    }
+    if (typeof raw.id !== 'string' || !raw.id) errors.push(`${name}: id is ${describeValue(raw.id)}.`);
+    if (!isFiniteNumber(raw.value) || raw.value <= 0) errors.push(`${name}: value is ${describeValue(raw.value)}.`);
+    if (raw.instrument !== 'tape' && raw.instrument !== 'laser') errors.push(`${name}: unknown instrument ${describeValue(raw.instrument)}.`);
+    if (typeof raw.timestamp !== 'string') errors.push(`${name}: timestamp is ${describeValue(raw.timestamp)}.`);
+    if (raw.note !== undefined && typeof raw.note !== 'string') errors.push(`${name}: note is ${describeValue(raw.note)}.`);
+};
+
+const validateEdgeFields = (raw: Record<string, unknown>, name: string, errors: string[]) => {
+    if (typeof raw.id !== 'string' || !raw.id) errors.push(`${name}: id is ${describeValue(raw.id)}.`);
+    if (!isFiniteNumber(raw.length) || raw.length < 0) errors.push(`${name}: length is ${describeValue(raw.length)}.`);
+    OPTIONAL_EDGE_NUMBERS.forEach(field => {
+        if (raw[field] !== undefined && !isFiniteNumber(raw[field])) errors.push(`${name}: ${field} is ${describeValue(raw[field])}.`);
+    });
+    if (raw.instrument !== undefined && raw.instrument !== 'tape' && raw.instrument !== 'laser') {
+        errors.push(`${name}: unknown instrument ${describeValue(raw.instrument)}.`);
+    }
+    if (raw.feature !== undefined && raw.feature !== null && raw.feature !== 'door' && raw.feature !== 'window') {
+        errors.push(`${name}: unknown feature ${describeValue(raw.feature)}.`);
+    }
+    if (raw.isMeasured !== undefined && typeof raw.isMeasured !== 'boolean') {
+        errors.push(`${name}: isMeasured is ${describeValue(raw.isMeasured)}, expected true or false.`);
+    }
+    if (raw.readingAverage !== undefined && raw.readingAverage !== 'mean' && raw.readingAverage !== 'median') {
+        errors.push(`${name}: unknown readingAverage ${describeValue(raw.readingAverage)}.`);
+    }
+    if (raw.readings !== undefined) {
+        if (!Array.isArray(raw.readings)) {
+            errors.push(`${name}: readings is ${describeValue(raw.readings)}, expected an array.`);
+        } else {
+            raw.readings.forEach((r: unknown, i: number) => validateReading(r, `${name}, reading ${i + 1}`, errors));
+        }
+    }
+};
+
+const optionalNumber = (value: unknown): number | undefined => isFiniteNumber(value) ? value : undefined;
+const optionalString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+const buildReading = (raw: Record<string, unknown>): LengthReading => ({
+    id: String(raw.id),
+    value: Number(raw.value),
+    instrument: raw.instrument === 'laser' ? 'laser' : 'tape',
+    timestamp: String(raw.timestamp),
+    ...(typeof raw.note === 'string' ? { note: raw.note } : {})
+});
+
+// Builds an edge from fields that validateEdgeFields has checked; optional fields are only set when present
+const buildEdge = (raw: Record<string, unknown>, type: EdgeType): Edge => {
+    const edge: Edge = {
+        id: String(raw.id),
+        startVertexId: String(raw.startVertexId),
+        endVertexId: String(raw.endVertexId),
+        length: Number(raw.length),
+        type,
+        thickness: optionalNumber(raw.thickness),
+        linkedEdgeId: optionalString(raw.linkedEdgeId),
+        alignmentOffset: optionalNumber(raw.alignmentOffset),
+        feature: raw.feature === 'door' || raw.feature === 'window' ? raw.feature : raw.feature === null ? null : undefined,
+        featureWidth: optionalNumber(raw.featureWidth),
+        featureDistance: optionalNumber(raw.featureDistance),
+        residual: optionalNumber(raw.residual),
+        instrument: raw.instrument === 'tape' || raw.instrument === 'laser' ? raw.instrument : undefined,
+        sigma: optionalNumber(raw.sigma),
+        isMeasured: typeof raw.isMeasured === 'boolean' ? raw.isMeasured : undefined,
+        readings: Array.isArray(raw.readings) ? raw.readings.filter(isRecord).map(buildReading) : undefined,
+        readingAverage: raw.readingAverage === 'mean' || raw.readingAverage === 'median' ? raw.readingAverage : undefined
+    };
+    (Object.keys(edge) as (keyof Edge)[]).forEach(key => {
+        if (edge[key] === undefined) delete edge[key];
+    });
+    return edge;
+};
+
+const validatePolygon = (raw: unknown, index: number, errors: string[]): Polygon | null => {
+    const where = `Polygon ${index + 1}`;
+    if (!isRecord(raw)) {
+        errors.push(`${where}: expected an object, got ${describeValue(raw)}.`);
+        return null;
+    }
+    const name = typeof raw.name === 'string' && raw.name ? `Polygon "${raw.name}"` : where;
+    if (typeof raw.id !== 'string' || !raw.id) errors.push(`${name}: id is ${describeValue(raw.id)}.`);
+    if (!Array.isArray(raw.vertices)) {
+        errors.push(`${name}: vertices is ${describeValue(raw.vertices)}, expected an array.`);
+        return null;
+    }
+    if (!Array.isArray(raw.edges)) {
+        errors.push(`${name}: edges is ${describeValue(raw.edges)}, expected an array.`);
+        return null;
+    }
+
+    const vertices = raw.vertices
+        .map((v: unknown, i: number) => validateVertex(v, `${name} vertex ${i + 1}`, errors))
+        .filter((v: Vertex | null): v is Vertex => v !== null);
+    const labels = new Map(vertices.map((v: Vertex) => [v.id, v.label || v.id]));
+
+    const edges = raw.edges
+        .map((e: unknown, i: number): Edge | null => {
+            if (!isRecord(e)) {
+                errors.push(`${name} edge ${i + 1}: expected an object, got ${describeValue(e)}.`);
+                return null;
+            }
+            const startId = typeof e.startVertexId === 'string' ? e.startVertexId : '';
+            const endId = typeof e.endVertexId === 'string' ? e.endVertexId : '';
+            const edgeName = labels.has(startId) && labels.has(endId)
+                ? `${name} edge ${labels.get(startId)}-${labels.get(endId)}`
+                : `${name} edge ${i + 1}`;
+            validateEdgeFields(e, edgeName, errors);
+            if (!labels.has(startId)) errors.push(`${edgeName}: start vertex ${describeValue(e.startVertexId)} does not exist in this polygon.`);
+            if (!labels.has(endId)) errors.push(`${edgeName}: end vertex ${describeValue(e.endVertexId)} does not exist in this polygon.`);
+            if (e.type !== EdgeType.PERIMETER && e.type !== EdgeType.DIAGONAL) {
+                errors.push(`${edgeName}: type is ${describeValue(e.type)}, expected PERIMETER or DIAGONAL.`);
+            }
+            return buildEdge(e, e.type === EdgeType.DIAGONAL ? EdgeType.DIAGONAL : EdgeType.PERIMETER);
+        })
+        .filter((e: Edge | null): e is Edge => e !== null);
+
+    const centroid = isRecord(raw.centroid) && isFiniteNumber(raw.centroid.x) && isFiniteNumber(raw.centroid.y)
+        ? { x: raw.centroid.x, y: raw.centroid.y }
+        : calculateCentroid(vertices.filter((v: Vertex) => isFiniteNumber(v.x) && isFiniteNumber(v.y)));
+
+    return {
+        ...raw,
+        name: typeof raw.name === 'string' ? raw.name : `Room ${index + 1}`,
+        vertices,
+        edges,
+        centroid,
+        isClosed: typeof raw.isClosed === 'boolean' ? raw.isClosed : true
+    } as Polygon;
+};
+
+// Ids are looked up across the whole survey, so they must be unique file-wide
+const checkUniqueIds = (ids: string[], kind: string, errors: string[]) => {
+    const seen = new Set<string>();
+    const reported = new Set<string>();
+    ids.forEach(id => {
+        if (seen.has(id) && !reported.has(id)) {
+            errors.push(`Duplicate ${kind} id "${id}".`);
+            reported.add(id);
+        }
+        seen.add(id);
+    });
+};
+
+const validateLinks = (polygons: Polygon[], errors: string[]) => {
+    const edgeOwners = new Map<string, { polygon: Polygon; edge: Edge }>();
+    polygons.forEach(polygon => polygon.edges.forEach(edge => edgeOwners.set(edge.id, { polygon, edge })));
+
+    polygons.forEach(polygon => polygon.edges.forEach(edge => {
+        if (edge.linkedEdgeId === undefined || edge.linkedEdgeId === null) return;
+        const name = `Polygon "${polygon.name}" edge ${getEdgeLabel(polygon, edge)}`;
+        const target = edgeOwners.get(edge.linkedEdgeId);
+        if (!target) {
+            errors.push(`${name}: linkedEdgeId "${edge.linkedEdgeId}" does not exist.`);
+        } else if (target.polygon.id === polygon.id) {
+            errors.push(`${name}: linkedEdgeId "${edge.linkedEdgeId}" is in the same polygon.`);
+        } else if (target.edge.linkedEdgeId !== edge.id) {
+            errors.push(`${name}: linked to edge ${getEdgeLabel(target.polygon, target.edge)} of "${target.polygon.name}", which does not link back.`);
+        }
+    }));
+};
+
+const validateCrossEdges = (raw: unknown, polygons: Polygon[], errors: string[]): Edge[] => {
+    if (raw === undefined) return [];
+    if (!Array.isArray(raw)) {
+        errors.push(`crossEdges is ${describeValue(raw)}, expected an array.`);
+        return [];
+    }
+    const vertexOwners = new Map<string, Polygon>();
+    polygons.forEach(polygon => polygon.vertices.forEach(v => vertexOwners.set(v.id, polygon)));
+
+    return raw
+        .map((e: unknown, i: number): Edge | null => {
+            const name = `Cross measurement ${i + 1}`;
+            if (!isRecord(e)) {
+                errors.push(`${name}: expected an object, got ${describeValue(e)}.`);
+                return null;
+            }
+            validateEdgeFields(e, name, errors);
+            const start = typeof e.startVertexId === 'string' ? vertexOwners.get(e.startVertexId) : undefined;
+            const end = typeof e.endVertexId === 'string' ? vertexOwners.get(e.endVertexId) : undefined;
+            if (!start) errors.push(`${name}: start vertex ${describeValue(e.startVertexId)} does not exist.`);
+            if (!end) errors.push(`${name}: end vertex ${describeValue(e.endVertexId)} does not exist.`);
+            if (start && end && start.id === end.id) errors.push(`${name}: both vertices are in polygon "${start.name}".`);
+            return buildEdge(e, EdgeType.CROSS);
+        })
+        .filter((e): e is Edge => e !== null);
+};
+
+const validateMetadata = (raw: unknown): ProjectMetadata => {
+    const metadata = { ...EMPTY_METADATA };
+    if (isRecord(raw)) {
+        (Object.keys(metadata) as (keyof ProjectMetadata)[]).forEach(key => {
+            if (typeof raw[key] === 'string') metadata[key] = raw[key];
+        });
+    }
+    return metadata;
+};
+
+// Only the non-empty fields of a file's project block; null when it has none (files before version 2)
+const readProjectInfo = (raw: unknown): ImportedProjectInfo | null => {
+    if (!isRecord(raw)) return null;
+    const metadata: Partial<ProjectMetadata> = {};
+    const filled = validateMetadata(raw.metadata);
+    (Object.keys(filled) as (keyof ProjectMetadata)[]).forEach(key => {
+        if (filled[key].trim()) metadata[key] = filled[key];
+    });
+    return { ...(typeof raw.name === 'string' && raw.name.trim() ? { name: raw.name } : {}), metadata };
+};
+
+const validateView = (raw: unknown, errors: string[]): ViewState => {
+    if (raw === undefined) return DEFAULT_VIEW;
+    if (!isRecord(raw)) {
+        errors.push(`view is ${describeValue(raw)}, expected an object.`);
+        return DEFAULT_VIEW;
+    }
+    const panOffset = isRecord(raw.panOffset) && isFiniteNumber(raw.panOffset.x) && isFiniteNumber(raw.panOffset.y)
+        ? { x: raw.panOffset.x, y: raw.panOffset.y }
+        : null;
+    if (!panOffset) errors.push(`view.panOffset is ${describeValue(raw.panOffset)}.`);
+    if (!isFiniteNumber(raw.zoomLevel) || raw.zoomLevel <= 0) errors.push(`view.zoomLevel is ${describeValue(raw.zoomLevel)}.`);
+    if (!isFiniteNumber(raw.rotation)) errors.push(`view.rotation is ${describeValue(raw.rotation)}.`);
+    return {
+        panOffset: panOffset ?? DEFAULT_VIEW.panOffset,
+        zoomLevel: isFiniteNumber(raw.zoomLevel) && raw.zoomLevel > 0 ? raw.zoomLevel : DEFAULT_VIEW.zoomLevel,
+        rotation: isFiniteNumber(raw.rotation) ? raw.rotation : DEFAULT_VIEW.rotation
+    };
+};
+
+const validateUnderlay = (raw: unknown, errors: string[]): Underlay | undefined => {
+    if (raw === undefined || raw === null) return undefined;
+    if (!isRecord(raw)) {
+        errors.push(`underlay is ${describeValue(raw)}, expected an object.`);
+        return undefined;
+    }
+    const positive = (value: unknown): number | null => isFiniteNumber(value) && value > 0 ? value : null;
+    const src = typeof raw.src === 'string' && raw.src.startsWith('data:image/') ? raw.src : null;
+    const size = { width: positive(raw.width), height: positive(raw.height), scale: positive(raw.scale) };
+    const position = isRecord(raw.position) && isFiniteNumber(raw.position.x) && isFiniteNumber(raw.position.y)
+        ? { x: raw.position.x, y: raw.position.y }
+        : null;
+    const rotation = raw.rotation === undefined ? 0 : isFiniteNumber(raw.rotation) ? raw.rotation : null;
+
+    if (src === null) errors.push('underlay.src is not an embedded image (data URL).');
+    (['width', 'height', 'scale'] as const).forEach(key => {
+        if (size[key] === null) errors.push(`underlay.${key} is ${describeValue(raw[key])}.`);
+    });
+    if (position === null) errors.push(`underlay.position is ${describeValue(raw.position)}.`);
+    if (rotation === null) errors.push(`underlay.rotation is ${describeValue(raw.rotation)}.`);
+    if (src === null || size.width === null || size.height === null || size.scale === null || position === null || rotation === null) return undefined;
+
+    return {
+        src,
+        name: typeof raw.name === 'string' ? raw.name : 'Underlay',
+        width: size.width,
+        height: size.height,
+        position,
+        scale: size.scale,
+        rotation,
+        opacity: isFiniteNumber(raw.opacity) ? Math.min(1, Math.max(0, raw.opacity)) : 0.5,
+        isVisible: raw.isVisible !== false,
+        isLocked: raw.isLocked === true
+    };
+};
+
+/**
+ * Checks a current-version envelope and fills defaults for optional sections.
+ * Every problem found is reported, not just the first.
+ */
+const validateProjectFile = (data: Record<string, unknown>): { file: ProjectFile; errors: string[] } => {
+    const errors: string[] = [];
+
+    if (data.unitSystem !== undefined && data.unitSystem !== 'metric' && data.unitSystem !== 'imperial') {
+        errors.push(`unitSystem is ${describeValue(data.unitSystem)}, expected "metric" or "imperial".`);
+    }
+    if (!Array.isArray(data.polygons)) errors.push(`polygons is ${describeValue(data.polygons)}, expected an array.`);
+
+    const polygons = (Array.isArray(data.polygons) ? data.polygons : [])
+        .map((p: unknown, i: number) => validatePolygon(p, i, errors))
+        .filter((p: Polygon | null): p is Polygon => p !== null);
+
+    checkUniqueIds(polygons.map(p => p.id), 'polygon', errors);
+    checkUniqueIds(polygons.flatMap(p => p.vertices.map(v => v.id)), 'vertex', errors);
+    validateLinks(polygons, errors);
+    const crossEdges = validateCrossEdges(data.crossEdges, polygons, errors);
+    checkUniqueIds([...polygons.flatMap(p => p.edges.map(e => e.id)), ...crossEdges.map(e => e.id)], 'edge', errors);
+
+    const project = isRecord(data.project) ? data.project : {};
+    const file: ProjectFile = {
+        format: PROJECT_FILE_FORMAT,
+        version: PROJECT_FILE_VERSION,
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date().toISOString(),
+        unitSystem: data.unitSystem === 'imperial' ? 'imperial' : 'metric',
+        project: {
+            name: typeof project.name === 'string' && project.name.trim() ? project.name : 'Imported Survey',
+            metadata: validateMetadata(project.metadata)
+        },
+        polygons,
+        crossEdges,
+        view: validateView(data.view, errors)
+    };
+    const underlay = validateUnderlay(data.underlay, errors);
+    if (underlay) file.underlay = underlay;
+    return { file, errors };
+};
+
+/**
+ * Parses a project file of any known version, migrating older formats to the current envelope.
+ */
+export const parseProjectFile = (text: string): ProjectFileResult => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (err) {
+        return { type: 'error', errors: [`Not valid JSON: ${(err as Error).message}`] };
+    }
+
+    const version = detectVersion(data);
+    if (version === null) return { type: 'error', errors: ['Not a GeoSurvey project file.'] };
+    if (version > PROJECT_FILE_VERSION) {
+        return { type: 'error', errors: [`File version ${version} is newer than this app supports (version ${PROJECT_FILE_VERSION}).`] };
+    }
+
+    let migrated = data;
+    for (let v = version; v < PROJECT_FILE_VERSION; v++) migrated = MIGRATIONS[v](migrated);
+    if (!isRecord(migrated)) return { type: 'error', errors: ['Not a GeoSurvey project file.'] };
+
+    const { file, errors } = validateProjectFile(migrated);
+    if (errors.length > 0) return { type: 'error', errors };
+    return {
+        type: 'success',
+        file,
+        migratedFrom: version < PROJECT_FILE_VERSION ? version : null,
+        projectInfo: readProjectInfo(migrated.project)
+    };
+};
@@ -0,0 +1,72 @@
+import { Edge, LengthReading, MeasurementInstrument, ReadingAverage } from '../types';
+import { INSTRUMENT_SIGMA } from './adjustment';
+
+// --- Repeated Readings ---
+
+// A wall is often taped two or three times. The raw readings are kept on the edge and its length is
+// the mean (or median) of those that agree with each other; a reading further from the median than
+// a few instrument sigmas is flagged, and left out as long as most readings still agree.
+
+// A reading further than this many instrument sigmas from the median is flagged
+export const READING_TOLERANCE_SIGMAS = 3;
+
+export const READING_AVERAGE_LABELS: Record<ReadingAverage, string> = {
+    mean: 'Mean',
+    median: 'Median'
+};
+
+export interface ReadingSummary {
+    length: number; // Effective length (meters)
+    outlierIds: string[]; // Readings disagreeing with the median beyond tolerance
+    isRejected: boolean; // Whether the outliers were left out of the length (a majority agreed)
+    spread: number; // Largest minus smallest reading (meters)
+}
+
+export const getReadingTolerance = (reading: LengthReading): number =>
+    READING_TOLERANCE_SIGMAS * INSTRUMENT_SIGMA[reading.instrument];
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Effective length of a set of readings, with the readings that disagree. Returns null if there are none.
+ */
+export const summariseReadings = (readings: LengthReading[], average: ReadingAverage = 'mean'): ReadingSummary | null => {
+    if (readings.length === 0) return null;
+    const values = readings.map(r => r.value);
+    const centre = median(values);
+    const outlierIds = readings.filter(r => Math.abs(r.value - centre) > getReadingTolerance(r)).map(r => r.id);
+
+    // With no majority agreeing there is nothing to reject against, so every reading counts
+    const isRejected = outlierIds.length > 0 && readings.length - outlierIds.length > readings.length / 2;
+    const used = isRejected ? readings.filter(r => !outlierIds.includes(r.id)).map(r => r.value) : values;
+
+    return {
+        length: average === 'median' ? median(used) : mean(used),
+        outlierIds,
+        isRejected,
+        spread: Math.max(...values) - Math.min(...values)
+    };
+};
+
+export const createReading = (value: number, instrument: MeasurementInstrument, note?: string, timestamp?: string): LengthReading => ({
+    id: `reading-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    value,
+    instrument,
+    timestamp: timestamp ?? new Date().toISOString(),
+    ...(note ? { note } : {})
+});
+
+/**
+ * Replaces an edge's readings and re-derives its length. Removing the last reading keeps the length.
+ */
+export const setEdgeReadings = (edge: Edge, readings: LengthReading[]): Edge => {
+    const summary = summariseReadings(readings, edge.readingAverage);
+    if (!summary) return { ...edge, readings: undefined };
+    return { ...edge, readings, length: summary.length, isMeasured: true };
+};
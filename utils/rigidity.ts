@@ -0,0 +1,183 @@
+import { Point, Polygon, Vertex, EdgeType } from '../types';
+import { checkConnectionStatus, midPoint, isPointInPolygon, triangleMinAngle } from './geometry';
+
+// --- Rigidity Analysis ---
+
+// A room's edges and fixed angles are constraints on 2n vertex coordinates. Up to a rigid motion
+// (2 translations + 1 rotation) the room is fixed when the constraints' Jacobian, evaluated at the
+// sketch, has rank 2n - 3. Each missing rank is a way the room can still flex, and a diagonal
+// that raises the rank removes one of them.
+
+// Relative size below which a constraint row adds nothing new to the span of the others
+const RANK_TOLERANCE = 1e-6;
+
+export interface DiagonalSuggestion {
+    startVertexId: string;
+    endVertexId: string;
+    minAngle: number; // Smallest angle (degrees) of the triangles the diagonal closes
+}
+
+export interface RigidityAnalysis {
+    freedom: number; // Independent ways the room can still flex (0 = rigid)
+    suggestions: DiagonalSuggestion[]; // Diagonals removing exactly that freedom, best conditioned first
+}
+
+// Direction-independent key of a vertex pair, used to remember diagonals that should not be suggested
+export const getDiagonalKey = (v1Id: string, v2Id: string): string => [v1Id, v2Id].sort().join(':');
+
+// Orthonormal basis of the constraint rows seen so far, grown by Gram-Schmidt
+const createRowBasis = () => {
+    const basis: number[][] = [];
+    return {
+        get rank() { return basis.length; },
+        // Adds the row if it is independent of the basis; returns whether it was
+        add: (row: number[]): boolean => {
+            const norm = Math.hypot(...row);
+            if (norm === 0) return false;
+            const r = row.map(x => x / norm);
+            for (const q of basis) {
+                const dot = r.reduce((sum, x, k) => sum + x * q[k], 0);
+                for (let k = 0; k < r.length; k++) r[k] -= dot * q[k];
+            }
+            const rest = Math.hypot(...r);
+            if (rest < RANK_TOLERANCE) return false;
+            basis.push(r.map(x => x / rest));
+            return true;
+        }
+    };
+};
+
+// Derivative of a distance constraint between vertices i and j
+const barRow = (points: Point[], i: number, j: number): number[] => {
+    const row = new Array(points.length * 2).fill(0);
+    const dx = points[i].x - points[j].x, dy = points[i].y - points[j].y;
+    row[2 * i] = dx; row[2 * i + 1] = dy;
+    row[2 * j] = -dx; row[2 * j + 1] = -dy;
+    return row;
+};
+
+// Derivative of the angle at vertex i between its ring neighbours; unlike a bar between the
+// neighbours it still pins a corner on a straight wall (180°)
+const angleRow = (points: Point[], i: number): number[] => {
+    const n = points.length;
+    const prev = (i - 1 + n) % n, next = (i + 1) % n;
+    const u = { x: points[prev].x - points[i].x, y: points[prev].y - points[i].y };
+    const w = { x: points[next].x - points[i].x, y: points[next].y - points[i].y };
+    const uu = u.x * u.x + u.y * u.y, ww = w.x * w.x + w.y * w.y;
+    const row = new Array(n * 2).fill(0);
+    if (uu === 0 || ww === 0) return row;
+    const dPrev = { x: u.y / uu, y: -u.x / uu };
+    const dNext = { x: -w.y / ww, y: w.x / ww };
+    row[2 * prev] += dPrev.x; row[2 * prev + 1] += dPrev.y;
+    row[2 * next] += dNext.x; row[2 * next + 1] += dNext.y;
+    row[2 * i] -= dPrev.x + dNext.x; row[2 * i + 1] -= dPrev.y + dNext.y;
+    return row;
+};
+
+/**
+ * Best-conditioned triangulation of the room that keeps its existing diagonals: among the diagonals
+ * that can be taped inside the room, the set maximising the smallest triangle angle (then the sum of
+ * each triangle's smallest angle). Returns null if the outline cannot be triangulated.
+ */
+const findBestTriangulation = (vertices: Vertex[], isUsable: (i: number, j: number) => boolean): { i: number; j: number; triangles: number[][] }[] | null => {
+    const n = vertices.length;
+    type Score = { min: number; sum: number; k: number };
+    const best: (Score | null)[][] = Array.from({ length: n }, () => new Array(n).fill(null));
+    const isBetter = (a: Score, b: Score | null) => !b || a.min > b.min + 1e-9 || (Math.abs(a.min - b.min) <= 1e-9 && a.sum > b.sum);
+
+    for (let span = 2; span < n; span++) {
+        for (let i = 0; i + span < n; i++) {
+            const j = i + span;
+            if (!isUsable(i, j)) continue;
+            for (let k = i + 1; k < j; k++) {
+                const left = k - i === 1 ? { min: Infinity, sum: 0 } : best[i][k];
+                const right = j - k === 1 ? { min: Infinity, sum: 0 } : best[k][j];
+                if (!left || !right) continue;
+                const angle = triangleMinAngle(vertices[i], vertices[k], vertices[j]);
+                const score = { min: Math.min(left.min, right.min, angle), sum: left.sum + right.sum + angle, k };
+                if (isBetter(score, best[i][j])) best[i][j] = score;
+            }
+        }
+    }
+    if (!best[0][n - 1]) return null;
+
+    // Walk the chosen triangles back, recording each diagonal with the triangles on its two sides
+    const triangles: number[][] = [];
+    const collect = (i: number, j: number) => {
+        if (j - i < 2) return;
+        const k = best[i][j]!.k;
+        triangles.push([i, k, j]);
+        collect(i, k);
+        collect(k, j);
+    };
+    collect(0, n - 1);
+
+    const diagonals = new Map<string, { i: number; j: number; triangles: number[][] }>();
+    triangles.forEach(t => {
+        [[t[0], t[1]], [t[1], t[2]], [t[0], t[2]]].forEach(([a, b]) => {
+            const i = Math.min(a, b), j = Math.max(a, b);
+            if (j - i === 1 || (i === 0 && j === n - 1)) return; // Walls
+            const key = `${i}:${j}`;
+            if (!diagonals.has(key)) diagonals.set(key, { i, j, triangles: [] });
+            diagonals.get(key)!.triangles.push(t);
+        });
+    });
+    return [...diagonals.values()];
+};
+
+/**
+ * How far a room is from being rigid, and the diagonals to measure to make it so. Walls, diagonals
+ * and fixed angles count as constraints; candidates are taken from the best-conditioned triangulation
+ * and added best first while they still remove a degree of freedom. Vertex pairs whose
+ * getDiagonalKey is listed in 'exclude' are never suggested.
+ */
+export const analyseRigidity = (poly: Polygon, exclude: string[] = []): RigidityAnalysis => {
+    const vertices = poly.vertices;
+    const n = vertices.length;
+    if (!poly.isClosed || n < 3) return { freedom: 0, suggestions: [] };
+
+    const index = new Map(vertices.map((v, i) => [v.id, i]));
+    const basis = createRowBasis();
+    poly.edges.forEach(e => {
+        const i = index.get(e.startVertexId), j = index.get(e.endVertexId);
+        if (i !== undefined && j !== undefined) basis.add(barRow(vertices, i, j));
+    });
+    vertices.forEach((v, i) => {
+        if (v.fixedAngle !== undefined) basis.add(angleRow(vertices, i));
+    });
+
+    const fullRank = 2 * n - 3;
+    const freedom = fullRank - basis.rank;
+    if (freedom <= 0) return { freedom: 0, suggestions: [] };
+
+    const hasDiagonal = (a: Vertex, b: Vertex) => poly.edges.some(e => e.type === EdgeType.DIAGONAL &&
+        ((e.startVertexId === a.id && e.endVertexId === b.id) || (e.startVertexId === b.id && e.endVertexId === a.id)));
+    const isExcluded = (a: Vertex, b: Vertex) => exclude.includes(getDiagonalKey(a.id, b.id));
+
+    // A diagonal is usable inside the room if it already exists or crosses nothing; one running
+    // outside a concave room can neither be taped nor bound a triangle of the room
+    const isUsable = (i: number, j: number): boolean => {
+        if (j - i === 1 || (i === 0 && j === n - 1)) return true;
+        const a = vertices[i], b = vertices[j];
+        if (!isPointInPolygon(midPoint(a, b), vertices)) return false;
+        if (hasDiagonal(a, b)) return true;
+        return !isExcluded(a, b) && checkConnectionStatus(a.id, b.id, poly).valid;
+    };
+
+    const triangulation = findBestTriangulation(vertices, isUsable);
+    if (!triangulation) return { freedom, suggestions: [] };
+
+    const candidates = triangulation
+        .filter(d => !hasDiagonal(vertices[d.i], vertices[d.j]))
+        .map(d => ({ ...d, minAngle: Math.min(...d.triangles.map(([a, b, c]) => triangleMinAngle(vertices[a], vertices[b], vertices[c]))) }))
+        .sort((a, b) => b.minAngle - a.minAngle);
+
+    const suggestions: DiagonalSuggestion[] = [];
+    for (const c of candidates) {
+        if (basis.rank === fullRank) break;
+        if (basis.add(barRow(vertices, c.i, c.j))) {
+            suggestions.push({ startVertexId: vertices[c.i].id, endVertexId: vertices[c.j].id, minAngle: c.minAngle });
+        }
+    }
+    return { freedom, suggestions };
+};
@@ -0,0 +1,172 @@
+import { Point, Polygon, SnapSettings } from '../types';
+import { distance, addScaled, intersectLines } from './geometry';
+
+// --- Grid ---
+
+// Canvas grid spacing in world px (0.5 m)
+export const GRID_SIZE = 50;
+// Zoomed out, the grid coarsens by factors of ten so its lines stay at least this far apart on screen
+const MIN_GRID_SPACING_PX = 12;
+
+// Screen distance (px) within which the pointer is captured by a snap target
+export const SNAP_RADIUS_PX = 10;
+
+/**
+ * Grid spacing (world px) shown and snapped to at the given zoom level.
+ */
+export const getGridSize = (zoom: number): number => {
+    let size = GRID_SIZE;
+    while (size * zoom < MIN_GRID_SPACING_PX) size *= 10;
+    return size;
+};
+
+// --- Snapping ---
+
+export type SnapKind = 'vertex' | 'edge' | 'intersection' | 'perpendicular' | 'parallel' | 'angle' | 'grid';
+
+export interface SnapResult {
+    point: Point;
+    kind: SnapKind | null; // null when nothing was in range and the raw point is returned
+    label?: string; // Constraint shown next to the indicator, e.g. "45°" or "⊥"
+    guide?: { from: Point; to: Point }; // Construction line from the anchor for direction snaps
+}
+
+export interface SnapContext {
+    settings: SnapSettings;
+    polygons: Polygon[]; // Snap targets; callers leave out the room being edited
+    tolerance: number; // World px
+    gridSize: number; // World px
+    anchor?: Point; // Point the new segment starts from
+    previous?: Point; // Point before the anchor, giving the previous segment direction
+}
+
+interface DirectionSnap {
+    point: Point;
+    dir: Point; // Unit direction from the anchor
+    kind: SnapKind;
+    label: string;
+}
+
+const findNearestVertex = (raw: Point, polygons: Polygon[], tolerance: number): Point | null => {
+    let best: Point | null = null;
+    let bestDist = tolerance;
+    for (const poly of polygons) {
+        for (const v of poly.vertices) {
+            const d = distance(raw, v);
+            if (d <= bestDist) {
+                best = { x: v.x, y: v.y };
+                bestDist = d;
+            }
+        }
+    }
+    return best;
+};
+
+// Closest point on a room outline (perimeter segments along the vertex ring)
+const findNearestEdgePoint = (raw: Point, polygons: Polygon[], tolerance: number): { point: Point; start: Point; end: Point } | null => {
+    let best: { point: Point; start: Point; end: Point } | null = null;
+    let bestDist = tolerance;
+    for (const poly of polygons) {
+        const n = poly.vertices.length;
+        const count = poly.isClosed ? n : n - 1;
+        for (let i = 0; i < count; i++) {
+            const start = poly.vertices[i];
+            const end = poly.vertices[(i + 1) % n];
+            const dx = end.x - start.x, dy = end.y - start.y;
+            const lengthSq = dx * dx + dy * dy;
+            if (lengthSq === 0) continue;
+            const t = Math.max(0, Math.min(1, ((raw.x - start.x) * dx + (raw.y - start.y) * dy) / lengthSq));
+            const point = { x: start.x + dx * t, y: start.y + dy * t };
+            const d = distance(raw, point);
+            if (d <= bestDist) {
+                best = { point, start, end };
+                bestDist = d;
+            }
+        }
+    }
+    return best;
+};
+
+// Closest allowed direction from the anchor whose ray passes within tolerance of the pointer
+const findDirectionSnap = (raw: Point, context: SnapContext): DirectionSnap | null => {
+    const { anchor, previous, settings, tolerance } = context;
+    if (!anchor) return null;
+    const offset = { x: raw.x - anchor.x, y: raw.y - anchor.y };
+    if (Math.hypot(offset.x, offset.y) < tolerance) return null;
+
+    const candidates: { angle: number; kind: SnapKind; label: string }[] = [];
+    if (settings.perpendicular && previous && distance(previous, anchor) > 0) {
+        const base = Math.atan2(anchor.y - previous.y, anchor.x - previous.x);
+        candidates.push(
+            { angle: base, kind: 'parallel', label: '∥' },
+            { angle: base + Math.PI / 2, kind: 'perpendicular', label: '⊥' },
+            { angle: base - Math.PI / 2, kind: 'perpendicular', label: '⊥' }
+        );
+    }
+    if (settings.angleStep > 0) {
+        const step = settings.angleStep * Math.PI / 180;
+        const angle = Math.round(Math.atan2(offset.y, offset.x) / step) * step;
+        // Screen Y points down, so report angles counter-clockwise from the +X axis as on paper
+        const degrees = ((Math.round(-angle * 180 / Math.PI) % 360) + 360) % 360;
+        candidates.push({ angle, kind: 'angle', label: `${degrees}°` });
+    }
+
+    let best: DirectionSnap | null = null;
+    let bestDist = tolerance;
+    for (const candidate of candidates) {
+        const dir = { x: Math.cos(candidate.angle), y: Math.sin(candidate.angle) };
+        const along = offset.x * dir.x + offset.y * dir.y;
+        if (along <= 0) continue;
+        const point = addScaled(anchor, dir, along);
+        // Strict comparison keeps perpendicular/parallel ahead of an identical angle increment
+        const d = distance(raw, point);
+        if (d < bestDist) {
+            best = { point, dir, kind: candidate.kind, label: candidate.label };
+            bestDist = d;
+        }
+    }
+    return best;
+};
+
+/**
+ * Snaps a pointer position (world px) to the enabled targets, in priority order: vertices of other
+ * rooms, a direction constraint meeting a nearby edge, edges, direction constraints from the anchor
+ * (perpendicular/parallel, then angle increments) and finally the grid.
+ */
+export const snapPoint = (raw: Point, context: SnapContext): SnapResult => {
+    const { settings, polygons, tolerance, anchor } = context;
+    if (!settings.isEnabled) return { point: raw, kind: null };
+
+    if (settings.vertices) {
+        const vertex = findNearestVertex(raw, polygons, tolerance);
+        if (vertex) return { point: vertex, kind: 'vertex' };
+    }
+
+    const direction = findDirectionSnap(raw, context);
+    const edge = settings.edges ? findNearestEdgePoint(raw, polygons, tolerance) : null;
+
+    if (direction && edge && anchor) {
+        const edgeDir = { x: edge.end.x - edge.start.x, y: edge.end.y - edge.start.y };
+        const hit = intersectLines(anchor, direction.dir, edge.start, edgeDir);
+        if (hit && distance(hit, raw) <= tolerance) {
+            return { point: hit, kind: 'intersection', label: direction.label, guide: { from: anchor, to: hit } };
+        }
+    }
+    if (edge) return { point: edge.point, kind: 'edge' };
+
+    if (direction && anchor) {
+        // On the grid, constrained segments also take whole grid lengths
+        let point = direction.point;
+        if (settings.grid) {
+            const along = Math.round(distance(anchor, point) / context.gridSize) * context.gridSize;
+            if (along > 0) point = addScaled(anchor, direction.dir, along);
+        }
+        return { point, kind: direction.kind, label: direction.label, guide: { from: anchor, to: point } };
+    }
+
+    if (settings.grid) {
+        const size = context.gridSize;
+        return { point: { x: Math.round(raw.x / size) * size, y: Math.round(raw.y / size) * size }, kind: 'grid' };
+    }
+    return { point: raw, kind: null };
+};
@@ -0,0 +1,145 @@
+import { AppState, ProjectInfo, ProjectMetadata, SavedSurvey, StoredProject, UnitSystem } from '../types';
+
+// --- IndexedDB Persistence (Project Workspace / Autosave) ---
+
+const DB_NAME = 'geosurvey';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const SETTINGS_STORE = 'settings';
+const LAST_PROJECT_KEY = 'lastProjectId';
+
+// Version 1 kept a single autosaved survey; it becomes the first project on upgrade
+const LEGACY_AUTOSAVE_STORE = 'autosave';
+const LEGACY_CURRENT_KEY = 'current';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            const tx = request.transaction!;
+            if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+
+            if (db.objectStoreNames.contains(LEGACY_AUTOSAVE_STORE)) {
+                const legacy = tx.objectStore(LEGACY_AUTOSAVE_STORE).get(LEGACY_CURRENT_KEY);
+                legacy.onsuccess = () => {
+                    const survey = legacy.result as SavedSurvey | undefined;
+                    if (survey && Array.isArray(survey.polygons) && survey.polygons.length > 0) {
+                        const project: StoredProject = { ...createProjectInfo('Recovered Survey', survey.savedAt), survey };
+                        tx.objectStore(PROJECTS_STORE).put(project);
+                        tx.objectStore(SETTINGS_STORE).put(project.id, LAST_PROJECT_KEY);
+                    }
+                    db.deleteObjectStore(LEGACY_AUTOSAVE_STORE);
+                };
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open (e.g. private browsing quota)
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+// Runs a single request in its own transaction and resolves when the transaction commits
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = operation(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error ?? request.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted.'));
+    });
+};
+
+// --- Projects ---
+
+export const EMPTY_METADATA: ProjectMetadata = { client: '', address: '', date: '', surveyor: '', notes: '' };
+
+export const createProjectInfo = (name: string, now: number = Date.now()): ProjectInfo => ({
+    id: `project-${now}-${Math.random().toString(36).slice(2, 7)}`,
+    name,
+    metadata: { ...EMPTY_METADATA, date: new Date(now).toISOString().slice(0, 10) },
+    createdAt: now,
+    updatedAt: now
+});
+
+/**
+ * Captures the persisted part of the app state (survey data and view).
+ */
+export const createSavedSurvey = (state: AppState, savedAt: number = Date.now()): SavedSurvey => ({
+    polygons: state.polygons,
+    crossEdges: state.crossEdges,
+    unitSystem: state.unitSystem,
+    panOffset: state.panOffset,
+    zoomLevel: state.zoomLevel,
+    rotation: state.rotation,
+    underlay: state.underlay,
+    savedAt
+});
+
+export const createEmptySurvey = (unitSystem: UnitSystem, savedAt: number = Date.now()): SavedSurvey => ({
+    polygons: [],
+    crossEdges: [],
+    unitSystem,
+    panOffset: { x: 0, y: 0 },
+    zoomLevel: 1,
+    rotation: 0,
+    underlay: null,
+    savedAt
+});
+
+/**
+ * Lists all projects (without their survey data), most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectInfo[]> => {
+    const projects = await runRequest<StoredProject[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+    return projects
+        .map(({ survey, ...info }) => info)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<StoredProject | null> => {
+    const project = await runRequest<StoredProject | undefined>(PROJECTS_STORE, 'readonly', store => store.get(id));
+    return project && project.survey && Array.isArray(project.survey.polygons) ? project : null;
+};
+
+export const saveProject = (project: StoredProject): Promise<void> =>
+    runRequest(PROJECTS_STORE, 'readwrite', store => store.put(project)).then(() => undefined);
+
+export const deleteProject = (id: string): Promise<void> =>
+    runRequest(PROJECTS_STORE, 'readwrite', store => store.delete(id)).then(() => undefined);
+
+/**
+ * Copies a stored project under a new id and name.
+ */
+export const duplicateProject = async (id: string): Promise<ProjectInfo | null> => {
+    const source = await loadProject(id);
+    if (!source) return null;
+    const now = Date.now();
+    const copy: StoredProject = {
+        ...source,
+        ...createProjectInfo(`${source.name} (Copy)`, now),
+        metadata: { ...source.metadata }
+    };
+    await saveProject(copy);
+    const { survey, ...info } = copy;
+    return info;
+};
+
+// --- Settings ---
+
+export const getLastProjectId = async (): Promise<string | null> =>
+    (await runRequest<string | undefined>(SETTINGS_STORE, 'readonly', store => store.get(LAST_PROJECT_KEY))) ?? null;
+
+export const setLastProjectId = (id: string): Promise<void> =>
+    runRequest(SETTINGS_STORE, 'readwrite', store => store.put(id, LAST_PROJECT_KEY)).then(() => undefined);
@@ -0,0 +1,156 @@
+import { Point, Polygon, EdgeType, TraverseMethod, TraverseAdjustment } from '../types';
+import { PIXELS_PER_METER, getPolygonSignedArea, calculateCentroid } from './geometry';
+
+// --- Traverse Closure (Compass & Transit Rules) ---
+
+// A room surveyed by walking its walls: every wall length plus the interior angle at every corner
+// except, optionally, the start. Unlike trilateration the coordinates are carried leg by leg from the
+// start corner, and whatever gap remains on returning to it (the misclosure) is spread over the corners.
+
+export const TRAVERSE_METHOD_LABELS: Record<TraverseMethod, string> = {
+    bowditch: 'Bowditch (compass) rule',
+    transit: 'Transit rule'
+};
+
+export interface TraverseComputation {
+    order: number[]; // Vertex indices in walking order; order[0] is the start corner, held fixed
+    points: Point[]; // Unadjusted coordinates in walking order (meters), ending with the return to the start
+    legs: Point[]; // Coordinate differences of each wall (meters)
+    perimeter: number; // meters
+    misclosure: Point; // Computed return point minus the start (meters)
+    angularMisclosure?: number; // Sum of measured angles minus (n - 2) * 180 (degrees), if all were measured
+}
+
+/**
+ * Runs the traverse around a room from its measured wall lengths and interior angles (Vertex.fixedAngle).
+ * The start corner keeps its position and the first wall keeps its current bearing.
+ */
+export const computeTraverse = (poly: Polygon): { type: 'success'; traverse: TraverseComputation } | { type: 'error'; error: string } => {
+    const vertices = poly.vertices;
+    const n = vertices.length;
+    if (!poly.isClosed || n < 3) return { type: 'error', error: 'A traverse needs a closed room with at least 3 corners.' };
+
+    const lengths: number[] = [];
+    for (let i = 0; i < n; i++) {
+        const a = vertices[i], b = vertices[(i + 1) % n];
+        const edge = poly.edges.find(e => e.type === EdgeType.PERIMETER &&
+            ((e.startVertexId === a.id && e.endVertexId === b.id) || (e.startVertexId === b.id && e.endVertexId === a.id)));
+        if (!edge || !(edge.length > 0)) return { type: 'error', error: `Wall ${a.label}-${b.label} has no measured length.` };
+        lengths.push(edge.length);
+    }
+
+    const missing = vertices.filter(v => v.fixedAngle === undefined);
+    if (missing.length > 1) {
+        return { type: 'error', error: `A traverse needs the interior angle at every corner but one; ${missing.map(v => v.label).join(', ')} have none.` };
+    }
+    // Start where the angle is unknown: it is never needed to carry the coordinates round
+    const startIndex = missing.length === 1 ? vertices.indexOf(missing[0]) : 0;
+
+    // With every angle measured, their sum is checked against the polygon rule and balanced equally
+    const angularMisclosure = missing.length === 0
+        ? vertices.reduce((sum, v) => sum + v.fixedAngle!, 0) - (n - 2) * 180
+        : undefined;
+    const angleCorrection = angularMisclosure !== undefined ? -angularMisclosure / n : 0;
+
+    // Walking the ring of a clockwise room (screen), the interior is on the right: turn = 180 - interior
+    const isCW = getPolygonSignedArea(vertices) > 0;
+    const turnAt = (index: number) => {
+        const interior = vertices[index].fixedAngle! + angleCorrection;
+        return (isCW ? 180 - interior : interior - 180) * Math.PI / 180;
+    };
+
+    const start = vertices[startIndex];
+    const second = vertices[(startIndex + 1) % n];
+    let heading = Math.atan2(second.y - start.y, second.x - start.x);
+
+    const order: number[] = [];
+    const points: Point[] = [{ x: start.x / PIXELS_PER_METER, y: start.y / PIXELS_PER_METER }];
+    const legs: Point[] = [];
+    for (let k = 0; k < n; k++) {
+        const index = (startIndex + k) % n;
+        order.push(index);
+        if (k > 0) heading += turnAt(index);
+        const leg = { x: lengths[index] * Math.cos(heading), y: lengths[index] * Math.sin(heading) };
+        const from = points[points.length - 1];
+        legs.push(leg);
+        points.push({ x: from.x + leg.x, y: from.y + leg.y });
+    }
+
+    const end = points[n];
+    return {
+        type: 'success',
+        traverse: {
+            order,
+            points,
+            legs,
+            perimeter: lengths.reduce((sum, l) => sum + l, 0),
+            misclosure: { x: end.x - points[0].x, y: end.y - points[0].y },
+            angularMisclosure
+        }
+    };
+};
+
+/**
+ * Correction for each corner in walking order (meters). Bowditch spreads the misclosure in proportion
+ * to the distance walked; the transit rule spreads each axis in proportion to the wall's extent on that axis.
+ */
+export const distributeMisclosure = (traverse: TraverseComputation, method: TraverseMethod): Point[] => {
+    const { legs, misclosure, perimeter } = traverse;
+    const totalX = legs.reduce((sum, leg) => sum + Math.abs(leg.x), 0);
+    const totalY = legs.reduce((sum, leg) => sum + Math.abs(leg.y), 0);
+
+    const corrections: Point[] = [];
+    let walked = 0, walkedX = 0, walkedY = 0;
+    for (let k = 0; k < legs.length; k++) {
+        if (method === 'bowditch') {
+            const share = perimeter > 0 ? walked / perimeter : 0;
+            corrections.push({ x: -misclosure.x * share, y: -misclosure.y * share });
+        } else {
+            corrections.push({
+                x: totalX > 0 ? -misclosure.x * walkedX / totalX : 0,
+                y: totalY > 0 ? -misclosure.y * walkedY / totalY : 0
+            });
+        }
+        walked += Math.hypot(legs[k].x, legs[k].y);
+        walkedX += Math.abs(legs[k].x);
+        walkedY += Math.abs(legs[k].y);
+    }
+    return corrections;
+};
+
+/**
+ * Closes a room's traverse with the chosen rule, moving every corner to its adjusted position and
+ * recording the shift applied to each one.
+ */
+export const adjustTraverse = (poly: Polygon, method: TraverseMethod): { type: 'success'; polygon: Polygon } | { type: 'error'; error: string } => {
+    const result = computeTraverse(poly);
+    if (result.type === 'error') return result;
+    const { traverse } = result;
+    const corrections = distributeMisclosure(traverse, method);
+
+    const vertices = [...poly.vertices];
+    traverse.order.forEach((index, k) => {
+        const correction = corrections[k];
+        vertices[index] = {
+            ...vertices[index],
+            x: (traverse.points[k].x + correction.x) * PIXELS_PER_METER,
+            y: (traverse.points[k].y + correction.y) * PIXELS_PER_METER,
+            solved: true,
+            traverseCorrection: correction
+        };
+    });
+
+    const adjustment: TraverseAdjustment = {
+        method,
+        misclosure: traverse.misclosure,
+        perimeter: traverse.perimeter,
+        angularMisclosure: traverse.angularMisclosure
+    };
+    return { type: 'success', polygon: { ...poly, vertices, centroid: calculateCentroid(vertices), metricError: undefined, traverse: adjustment } };
+};
+
+export const clearTraverse = (poly: Polygon): Polygon => ({
+    ...poly,
+    traverse: undefined,
+    vertices: poly.vertices.map(v => ({ ...v, traverseCorrection: undefined }))
+});
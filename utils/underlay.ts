@@ -0,0 +1,59 @@
+// --- Underlay Images (Browser) ---
+
+// Larger photos are downscaled on load so the project (and its autosave) stays small
+const MAX_UNDERLAY_SIZE = 3000;
+const JPEG_QUALITY = 0.85;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('The file is not an image this browser can display.'));
+        image.src = src;
+    });
+
+const readAsDataURL = (file: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error('Could not read the file.'));
+        reader.readAsDataURL(file);
+    });
+
+// Redraws an image onto a white canvas and encodes it as JPEG (also applies EXIF orientation)
+const drawAsJpeg = (image: HTMLImageElement, width: number, height: number): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available in this browser.');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
+
+/**
+ * Reads an image file as a data URL with its natural size, downscaling very large photos.
+ */
+export const readUnderlayImage = async (file: File): Promise<{ src: string; width: number; height: number }> => {
+    const src = await readAsDataURL(file);
+    const image = await loadImage(src);
+    const { naturalWidth: width, naturalHeight: height } = image;
+    if (width === 0 || height === 0) throw new Error('The image is empty.');
+
+    const factor = MAX_UNDERLAY_SIZE / Math.max(width, height);
+    if (factor >= 1) return { src, width, height };
+    const scaledWidth = Math.round(width * factor);
+    const scaledHeight = Math.round(height * factor);
+    return { src: drawAsJpeg(image, scaledWidth, scaledHeight), width: scaledWidth, height: scaledHeight };
+};
+
+/**
+ * JPEG bytes of an underlay image as a binary string, for embedding in PDF (DCTDecode).
+ */
+export const getUnderlayJpeg = async (src: string, width: number, height: number): Promise<string> => {
+    const image = await loadImage(src);
+    const dataUrl = drawAsJpeg(image, width, height);
+    return atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+};
@@ -0,0 +1,141 @@
+import { UnitSystem } from '../types';
+
+// Internal storage is always canonical: lengths in meters, wall thickness in cm, areas in m².
+// These helpers only convert at the edges (input parsing, labels, export).
+
+export const METERS_PER_INCH = 0.0254;
+export const METERS_PER_FOOT = 0.3048;
+export const SQUARE_FEET_PER_SQUARE_METER = 1 / (METERS_PER_FOOT * METERS_PER_FOOT);
+
+// Feet-and-inches are shown to the nearest 1/16"
+const INCH_FRACTION = 16;
+
+// Unit used by plain decimal inputs and sliders (feature width, alignment offset and gap)
+export const DECIMAL_UNIT: Record<UnitSystem, { label: string; meters: number; step: number }> = {
+    metric: { label: 'm', meters: 1, step: 0.05 },
+    imperial: { label: 'in', meters: METERS_PER_INCH, step: 0.5 }
+};
+
+// Wall thickness slider in the unit it moves in: whole centimeters or half inches
+export const THICKNESS_SLIDER: Record<UnitSystem, { cm: number; min: number; max: number; step: number }> = {
+    metric: { cm: 1, min: 1, max: 100, step: 1 },
+    imperial: { cm: 2.54, min: 0.5, max: 40, step: 0.5 }
+};
+
+// --- Parsing ---
+
+const UNIT_METERS: Record<string, number> = {
+    mm: 0.001,
+    cm: 0.01,
+    m: 1,
+    in: METERS_PER_INCH,
+    inch: METERS_PER_INCH,
+    inches: METERS_PER_INCH,
+    '"': METERS_PER_INCH,
+    ft: METERS_PER_FOOT,
+    foot: METERS_PER_FOOT,
+    feet: METERS_PER_FOOT,
+    "'": METERS_PER_FOOT
+};
+
+// A bare number following a unit is read in the next smaller unit: 12' 6 -> 12ft 6in, 3m 50 -> 3m 50cm
+const NEXT_SMALLER_UNIT: Record<string, string> = { m: 'cm', cm: 'mm', ft: 'in', foot: 'in', feet: 'in', "'": 'in' };
+
+// Bare numbers are taken as tape readings in the project's small unit
+const DEFAULT_UNIT: Record<UnitSystem, string> = { metric: 'cm', imperial: 'in' };
+
+// Mixed number ("6 1/2"), fraction ("1/2") or decimal ("12.5"), followed by an optional unit
+const TOKEN = /\s*(?:(\d+)\s+(\d+)\s*\/\s*(\d+)|(\d+)\s*\/\s*(\d+)|(\d+(?:\.\d*)?|\.\d+))\s*(mm|cm|m|inches|inch|in|feet|foot|ft|'|")?\s*-?/y;
+
+/**
+ * Parses a length typed by the user into meters. Units from both systems are always accepted
+ * (e.g. `12' 6 1/2"`, `12ft 6in`, `3.5m`, `350cm`); bare numbers use the project's default
+ * unit (cm or inches). Returns null if the text is not a valid length.
+ */
+export const parseLength = (input: string, system: UnitSystem): number | null => {
+    const text = input
+        .trim()
+        .toLowerCase()
+        .replace(/[′’‘`]/g, "'")
+        .replace(/[″”“]|''/g, '"')
+        .replace(/,/g, '.');
+    if (!text) return null;
+
+    TOKEN.lastIndex = 0;
+    let meters = 0;
+    let previousUnit: string | null = null;
+    let tokens = 0;
+
+    while (TOKEN.lastIndex < text.length) {
+        const start = TOKEN.lastIndex;
+        const m = TOKEN.exec(text);
+        if (!m || TOKEN.lastIndex === start) return null;
+
+        let value: number;
+        if (m[1] !== undefined) value = parseInt(m[1]) + parseInt(m[2]) / parseInt(m[3]);
+        else if (m[4] !== undefined) value = parseInt(m[4]) / parseInt(m[5]);
+        else value = parseFloat(m[6]);
+        if (!isFinite(value)) return null;
+
+        const unit = m[7] ?? (previousUnit ? NEXT_SMALLER_UNIT[previousUnit] : undefined) ?? DEFAULT_UNIT[system];
+        meters += value * UNIT_METERS[unit];
+        previousUnit = unit;
+        tokens++;
+    }
+
+    return tokens > 0 ? meters : null;
+};
+
+// --- Formatting ---
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Feet-and-inches with a reduced fraction, e.g. 12' 6 1/2". Values under a foot are shown in inches only.
+ */
+export const formatFeetInches = (meters: number): string => {
+    const sign = meters < 0 ? '-' : '';
+    const sixteenths = Math.round((Math.abs(meters) / METERS_PER_INCH) * INCH_FRACTION);
+    const feet = Math.floor(sixteenths / (12 * INCH_FRACTION));
+    const rest = sixteenths - feet * 12 * INCH_FRACTION;
+    const inches = Math.floor(rest / INCH_FRACTION);
+    const numerator = rest % INCH_FRACTION;
+
+    let inchText = `${inches}`;
+    if (numerator > 0) {
+        const d = gcd(numerator, INCH_FRACTION);
+        inchText = `${inches > 0 ? `${inches} ` : ''}${numerator / d}/${INCH_FRACTION / d}`;
+    }
+
+    return feet > 0 ? `${sign}${feet}' ${inchText}"` : `${sign}${inchText}"`;
+};
+
+export const formatLength = (meters: number, system: UnitSystem): string =>
+    system === 'imperial' ? formatFeetInches(meters) : `${(meters * 100).toFixed(2)}cm`;
+
+// Editable text for a length input (metric inputs keep the bare cm number)
+export const formatLengthInput = (meters: number, system: UnitSystem): string =>
+    system === 'imperial' ? formatFeetInches(meters) : (meters * 100).toFixed(2);
+
+// Small signed differences such as residuals and RMS values
+export const formatResidual = (meters: number, system: UnitSystem, signed: boolean = true): string => {
+    const sign = signed && meters > 0 ? '+' : '';
+    return system === 'imperial'
+        ? `${sign}${(meters / METERS_PER_INCH).toFixed(2)}"`
+        : `${sign}${(meters * 100).toFixed(1)}cm`;
+};
+
+// Relative closure of a traverse, e.g. "1:540" for a 3cm gap over 16.2m
+export const formatClosureRatio = (gap: number, length: number): string =>
+    gap < 0.0005 ? 'closed exactly' : `1:${Math.round(length / gap)}`;
+
+export const formatThickness = (cm: number, system: UnitSystem): string =>
+    system === 'imperial' ? formatFeetInches(cm / 100) : `${cm}cm`;
+
+// Area with an optional ± uncertainty, e.g. "12.00 ± 0.03m²" or "129.17 ± 0.32ft²"
+export const formatArea = (squareMeters: number, system: UnitSystem, sigma?: number): string => {
+    const factor = system === 'imperial' ? SQUARE_FEET_PER_SQUARE_METER : 1;
+    const unit = system === 'imperial' ? 'ft²' : 'm²';
+    const uncertainty = sigma !== undefined ? ` ± ${(sigma * factor).toFixed(2)}` : '';
+    return `${(squareMeters * factor).toFixed(2)}${uncertainty}${unit}`;
+};